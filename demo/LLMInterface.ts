@@ -131,14 +131,14 @@ class LLMInterface {
       return "Error: hlas is not available";
     }
 
-    const screen = window.hlas.readScreen();
-
-    // Find the todo list component
-    const todoList = screen.find(
-      (comp) =>
-        comp.name === "Todo List" ||
-        (comp.description && comp.description.includes("todo")),
-    );
+    // Find the todo list component and read its content
+    const [todoListEntry] = window.hlas.find({
+      name: "Todo List",
+      type: "List",
+    });
+    const todoList =
+      todoListEntry &&
+      window.hlas.readScreen().find((comp) => comp.id === todoListEntry.id);
 
     if (!todoList || !todoList.content) {
       return "No todos found";
@@ -169,45 +169,43 @@ class LLMInterface {
       return "Error: hlas is not available";
     }
 
-    const screen = window.hlas.readScreen();
-
     // Find the todo input field
-    const todoInput = screen.find(
-      (comp) =>
-        comp.name === "Todo Input Field" ||
-        (comp.description && comp.description.includes("input")),
-    );
+    const [todoInput] = window.hlas.find({
+      name: "Todo Input Field",
+      hasAction: "setValue",
+    });
 
     if (!todoInput) {
       return "Could not find the todo input field";
     }
 
     // Find the add todo button
-    const addButton = screen.find(
-      (comp) =>
-        comp.name === "Add Todo Button" ||
-        (comp.description && comp.description.includes("add")),
-    );
+    const [addButton] = window.hlas.find({
+      name: "Add Todo Button",
+      hasAction: "addTodo",
+    });
 
     if (!addButton) {
       return "Could not find the add todo button";
     }
 
-    // Highlight the input field
-    window.hlas.highlight(todoInput.id, 2000);
-
-    // Use the setValue action to set the input value directly
-    window.hlas.execute(todoInput.id, "setValue", { value: todoText });
-
-    // Highlight the add button after a short delay
-    setTimeout(() => {
-      window.hlas.highlight(addButton.id, 2000);
-
-      // Execute the addTodo action
-      setTimeout(() => {
-        window.hlas.execute(addButton.id, "addTodo");
-      }, 800);
-    }, 1200);
+    // Highlight the add button
+    window.hlas.highlight(addButton.id, 2000);
+
+    // Set the input value, then add the todo once the new value has been rendered
+    void window.hlas
+      .executeBatch([
+        { id: todoInput.id, actionId: "setValue", params: { value: todoText } },
+        { id: addButton.id, actionId: "addTodo" },
+      ])
+      .then(({ status, steps }) => {
+        if (status === "failed") {
+          console.error(
+            "Could not add the todo:",
+            steps[steps.length - 1].error,
+          );
+        }
+      });
 
     return `Added todo: "${todoText}"`;
   }
@@ -220,14 +218,13 @@ class LLMInterface {
       return "Error: hlas is not available";
     }
 
-    const screen = window.hlas.readScreen();
-
-    // Find the todo item that matches the text
-    const todoItem = screen.find(
-      (comp) =>
-        comp.name?.includes(todoText) ||
-        (comp.description && comp.description.includes(todoText)),
-    );
+    // Find the closest todo item that can be toggled, even if the text is paraphrased
+    const todoItem = window.hlas
+      .findBest(todoText, { limit: 10 })
+      .map((match) => match.component)
+      .find((component) =>
+        component.actions.some((action) => action.id === "toggle"),
+      );
 
     if (!todoItem) {
       return `Could not find a todo with text "${todoText}"`;
@@ -252,14 +249,11 @@ class LLMInterface {
       return "Error: hlas is not available";
     }
 
-    const screen = window.hlas.readScreen();
-
     // Find the clear completed button
-    const clearButton = screen.find(
-      (comp) =>
-        comp.name === "Clear Completed Button" ||
-        (comp.description && comp.description.includes("clear")),
-    );
+    const [clearButton] = window.hlas.find({
+      name: "Clear Completed Button",
+      hasAction: "clearCompleted",
+    });
 
     if (!clearButton) {
       return "No completed todos to clear";
@@ -14,8 +14,11 @@ const LLMPrompt: React.FC = () => {
       return "Error: hlas is not available";
     }
 
-    // Read the current screen state
-    const screenState = window.hlas.readScreen();
+    // Serialize the current screen state within a prompt-sized budget
+    const screenState = window.hlas.serializeScreen({
+      format: "markdown",
+      maxTokens: 2000,
+    });
 
     // Format the system prompt that would be sent to an LLM
     const systemPrompt = `
@@ -25,31 +28,7 @@ You are an AI assistant that can interact with a user interface. You can see the
 screen and perform actions on behalf of the user.
 
 ## Current Screen State
-${JSON.stringify(screenState, null, 2)}
-
-## Available Actions
-${screenState
-  .map((component) => {
-    if (!component.actions || component.actions.length === 0) return "";
-    return `
-* Component: "${component.name}" (ID: ${component.id})
-  - Description: ${component.description || "No description"}
-  - Actions: ${component.actions.map((action) => action.id).join(", ")}
-`;
-  })
-  .filter(Boolean)
-  .join("")}
-
-## Content Elements
-${screenState
-  .map((component) => {
-    if (!component.content) return "";
-    return `
-* ${component.name}: ${JSON.stringify(component.content, null, 2)}
-`;
-  })
-  .filter(Boolean)
-  .join("")}
+${screenState.text}
 
 ## Instructions
 - You can execute actions using the syntax: EXECUTE(componentId, actionId, parameters)
@@ -71,10 +71,26 @@ const TodoApp: React.FC = () => {
 
   // Actions for the Todo Input field
   const todoInputActions = {
-    setValue: (params: SetValueParams = {}) => {
-      if (params.value && typeof params.value === "string") {
-        setNewTodo(params.value);
-      }
+    setValue: {
+      name: "Set Value",
+      description: "Sets the text of the new todo",
+      parameters: [
+        {
+          name: "value",
+          type: "string" as const,
+          required: true,
+          description: "The todo text",
+        },
+      ],
+      handler: (params: SetValueParams = {}) => {
+        if (params.value && typeof params.value === "string") {
+          setNewTodo(params.value);
+        }
+      },
+      undo: () => {
+        const previous = newTodo;
+        return () => setNewTodo(previous);
+      },
     },
   };
 
@@ -105,8 +121,13 @@ const TodoApp: React.FC = () => {
 
   // Actions for Clear Completed button
   const clearCompletedActions = {
-    clearCompleted: () => {
-      setTodos(todos.filter((todo) => !todo.completed));
+    clearCompleted: {
+      name: "Clear Completed",
+      description: "Deletes all completed todos",
+      risk: "destructive" as const,
+      handler: () => {
+        setTodos(todos.filter((todo) => !todo.completed));
+      },
     },
   };
 
@@ -119,8 +140,8 @@ const TodoApp: React.FC = () => {
 
   // Handle toggle todo completion
   const toggleTodo = (id: number) => {
-    setTodos(
-      todos.map((todo) =>
+    setTodos((current) =>
+      current.map((todo) =>
         todo.id === id ? { ...todo, completed: !todo.completed } : todo,
       ),
     );
@@ -128,7 +149,11 @@ const TodoApp: React.FC = () => {
 
   // Create toggle actions for each todo
   const createToggleActions = (id: number) => ({
-    toggle: () => toggleTodo(id),
+    toggle: {
+      handler: () => toggleTodo(id),
+      // Toggling again restores the previous state
+      undo: () => () => toggleTodo(id),
+    },
   });
 
   return (
@@ -197,7 +222,7 @@ const TodoApp: React.FC = () => {
         <div className="clear-completed">
           <ActionButton
             ref={clearCompletedRef}
-            onClick={clearCompletedActions.clearCompleted}
+            onClick={clearCompletedActions.clearCompleted.handler}
           >
             Clear Completed
           </ActionButton>
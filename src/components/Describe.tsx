@@ -65,6 +65,8 @@ type ListItemProps<E extends ElementType = "li"> = PolymorphicProps<OriginalList
  * with the HLAS registry.
  *
  * @param {DescribeBaseProps<E>} props - Props for the component, including `as` prop.
+ * @param {string} [props.hlasId] - A stable registry ID. Defaults to an ID generated by `useId()`.
+ * @param {Scope} [props.hlasScope="read"] - The scope a session needs to see the element.
  * @param {string} [props.name="Unnamed Component"] - A human-readable name.
  * @param {string} [props.description] - A detailed description.
  * @param {React.ReactNode} [props.children] - Content to be wrapped.
@@ -73,10 +75,11 @@ type ListItemProps<E extends ElementType = "li"> = PolymorphicProps<OriginalList
  */
 const DescribeBase = forwardRef(
   <E extends ElementType = "div">(
-    { name, description, children, as, ...rest }: DescribeBaseProps<E>,
+    { hlasId, hlasScope, name, description, children, as, ...rest }: DescribeBaseProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null); // Generic HTMLElement for internal ref
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "div";
@@ -85,9 +88,9 @@ const DescribeBase = forwardRef(
       const element = resolvedRef.current;
       if (!element) return;
 
-      registry.register(id, element, name || "Unnamed Component", [], description);
-      return () => registry.unregister(id);
-    }, [id, name, description, resolvedRef]); // resolvedRef added to deps
+      registry.register(id, element, name || "Unnamed Component", [], description, { generatedId: !hlasId, scope: hlasScope });
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, resolvedRef]); // resolvedRef added to deps
 
     return (
       <Component
@@ -119,10 +122,11 @@ DescribeBase.displayName = "Describe.Base";
  */
 const List = forwardRef(
   <E extends ElementType = "ul">(
-    { name, description, children, items, as, ...rest }: ListProps<E>,
+    { hlasId, hlasScope, name, description, children, items, as, ...rest }: ListProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "ul";
@@ -132,14 +136,14 @@ const List = forwardRef(
       const element = resolvedRef.current;
       if (!element) return;
 
-      registry.register(id, element, name || "List", [], description);
+      registry.register(id, element, name || "List", [], description, { generatedId: !hlasId, scope: hlasScope });
       if (items && items.length > 0) {
         element.setAttribute("data-hlas-content", JSON.stringify(items));
       } else {
         element.removeAttribute("data-hlas-content");
       }
-      return () => registry.unregister(id);
-    }, [id, name, description, items, resolvedRef]);
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, items, resolvedRef]);
 
     return (
       <Component
@@ -173,10 +177,11 @@ List.displayName = "Describe.List";
  */
 const ListItem = forwardRef(
   <E extends ElementType = "li">(
-    { name, description, children, value, as, ...rest }: ListItemProps<E>,
+    { hlasId, hlasScope, name, description, children, value, as, ...rest }: ListItemProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "li";
@@ -186,14 +191,14 @@ const ListItem = forwardRef(
       const element = resolvedRef.current;
       if (!element) return;
 
-      registry.register(id, element, name || "ListItem", [], description);
+      registry.register(id, element, name || "ListItem", [], description, { generatedId: !hlasId, scope: hlasScope });
       if (value !== undefined) {
         element.setAttribute("data-hlas-content", typeof value === "object" ? JSON.stringify(value) : String(value));
       } else {
         element.removeAttribute("data-hlas-content");
       }
-      return () => registry.unregister(id);
-    }, [id, name, description, value, resolvedRef]);
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, value, resolvedRef]);
 
     return (
       <Component
@@ -226,10 +231,11 @@ ListItem.displayName = "Describe.ListItem";
  */
 const Text = forwardRef(
   <E extends ElementType = "span">(
-    { name, description, children, as, ...rest }: TextProps<E>,
+    { hlasId, hlasScope, name, description, children, as, ...rest }: TextProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "span";
@@ -238,9 +244,9 @@ const Text = forwardRef(
     useEffect(() => {
       const element = resolvedRef.current;
       if (!element) return;
-      registry.register(id, element, name || "Text", [], description);
-      return () => registry.unregister(id);
-    }, [id, name, description, resolvedRef]);
+      registry.register(id, element, name || "Text", [], description, { generatedId: !hlasId, scope: hlasScope });
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, resolvedRef]);
 
     return (
       <Component
@@ -273,10 +279,11 @@ Text.displayName = "Describe.Text";
  */
 const Heading = forwardRef(
   <E extends ElementType = "h1">( // Default to h1, but level prop dictates the actual default tag
-    { name, description, children, level = 1, as, ...rest }: HeadingProps<E>,
+    { hlasId, hlasScope, name, description, children, level = 1, as, ...rest }: HeadingProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || (`h${level}` as ElementType); // Default to h[level] if 'as' is not provided
@@ -286,14 +293,14 @@ const Heading = forwardRef(
       const element = resolvedRef.current;
       if (!element) return;
 
-      registry.register(id, element, name || "Heading", [], description);
+      registry.register(id, element, name || "Heading", [], description, { generatedId: !hlasId, scope: hlasScope });
       element.setAttribute("data-hlas-level", String(level));
 
       return () => {
-        registry.unregister(id);
+        registry.unregister(id, element);
         // No need to remove data-hlas-level as element will be removed
       };
-    }, [id, name, description, level, resolvedRef]);
+    }, [id, hlasScope, name, description, level, resolvedRef]);
 
     return (
       <Component
@@ -327,10 +334,11 @@ Heading.displayName = "Describe.Heading";
  */
 const Container = forwardRef(
   <E extends ElementType = "div">(
-    { name, description, children, as, ...rest }: ContainerProps<E>,
+    { hlasId, hlasScope, name, description, children, as, ...rest }: ContainerProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "div";
@@ -339,9 +347,9 @@ const Container = forwardRef(
     useEffect(() => {
       const element = resolvedRef.current;
       if (!element) return;
-      registry.register(id, element, name || "Container", [], description);
-      return () => registry.unregister(id);
-    }, [id, name, description, resolvedRef]);
+      registry.register(id, element, name || "Container", [], description, { generatedId: !hlasId, scope: hlasScope });
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, resolvedRef]);
 
     return (
       <Component
@@ -375,10 +383,11 @@ Container.displayName = "Describe.Container";
  */
 const Image = forwardRef(
   <E extends ElementType = "img">(
-    { name, description, src, alt, as, ...rest }: ImageProps<E>,
+    { hlasId, hlasScope, name, description, src, alt, as, ...rest }: ImageProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "img";
@@ -389,15 +398,15 @@ const Image = forwardRef(
       const element = resolvedRef.current;
       if (!element) return;
 
-      registry.register(id, element, name || "Image", [], description);
+      registry.register(id, element, name || "Image", [], description, { generatedId: !hlasId, scope: hlasScope });
       element.setAttribute("data-hlas-src", src);
       element.setAttribute("data-hlas-alt", alt);
       // if (!isImgTag && alt) { // For non-img tags, alt might be conveyed via aria-label
       //   element.setAttribute("aria-label", alt);
       // }
 
-      return () => registry.unregister(id);
-    }, [id, name, description, src, alt, resolvedRef]);
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, src, alt, resolvedRef]);
 
     const componentSpecificProps: any = {
       src: isImgTag ? src : undefined, // Only pass src if it's an img tag
@@ -441,10 +450,11 @@ Image.displayName = "Describe.Image";
  */
 const Link = forwardRef(
   <E extends ElementType = "a">(
-    { name, description, children, href, as, ...rest }: LinkProps<E>,
+    { hlasId, hlasScope, name, description, children, href, as, ...rest }: LinkProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "a";
@@ -454,11 +464,11 @@ const Link = forwardRef(
       const element = resolvedRef.current;
       if (!element) return;
 
-      registry.register(id, element, name || "Link", [], description);
+      registry.register(id, element, name || "Link", [], description, { generatedId: !hlasId, scope: hlasScope });
       element.setAttribute("data-hlas-href", href);
 
-      return () => registry.unregister(id);
-    }, [id, name, description, href, resolvedRef]);
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, href, resolvedRef]);
 
     const componentSpecificProps: any = {
       href: Component === "a" ? href : undefined, // Only pass href if it's an anchor tag
@@ -496,10 +506,11 @@ Link.displayName = "Describe.Link";
  */
 const Button = forwardRef(
   <E extends ElementType = "button">(
-    { name, description, children, as, ...rest }: ButtonProps<E>,
+    { hlasId, hlasScope, name, description, children, as, ...rest }: ButtonProps<E>,
     ref: PolymorphicRef<E>,
   ) => {
-    const id = useId();
+    const reactId = useId();
+    const id = hlasId || reactId;
     const innerRef = useRef<HTMLElement>(null);
     const resolvedRef = (ref || innerRef) as React.RefObject<HTMLElement>;
     const Component = as || "button";
@@ -512,9 +523,9 @@ const Button = forwardRef(
     useEffect(() => {
       const element = resolvedRef.current;
       if (!element) return;
-      registry.register(id, element, name || "Button", [], description);
-      return () => registry.unregister(id);
-    }, [id, name, description, resolvedRef]);
+      registry.register(id, element, name || "Button", [], description, { generatedId: !hlasId, scope: hlasScope });
+      return () => registry.unregister(id, element);
+    }, [id, hlasScope, name, description, resolvedRef]);
 
     return (
       <Component
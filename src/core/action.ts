@@ -1,30 +1,80 @@
 /**
- * Basic action wrapper for hlas
+ * @module core/action
+ * @description Provides a Higher Order Component (HOC) for wrapping React components
+ * to declaratively associate them with a primary action schema.
  */
 
 import React, {
   forwardRef,
   useEffect,
+  useId,
   useRef,
   ElementType,
   ComponentProps,
 } from "react";
-import { ActionSchema } from "./types";
+import { ActionSchema, ExecuteEventDetail } from "./types";
+import registry from "./registry";
 
 /**
- * @module core/action
- * @description Provides a Higher Order Component (HOC) for wrapping React components
- * to declaratively associate them with a primary action schema.
+ * Sets the value of a form control the way user input would, so that React's `onChange`
+ * handlers observe it: the native `value` setter is used (bypassing React's value tracking)
+ * and bubbling `input` and `change` events are dispatched afterwards.
+ *
+ * @param {HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement} element - The form control.
+ * @param {string} value - The new value.
  */
+function setNativeValue(
+  element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement,
+  value: string,
+): void {
+  const descriptor = Object.getOwnPropertyDescriptor(
+    Object.getPrototypeOf(element),
+    "value",
+  );
 
-import React, {
-  forwardRef,
-  useEffect,
-  useRef,
-  ElementType,
-  ComponentProps,
-} from "react";
-import { ActionSchema } from "./types";
+  if (descriptor?.set) {
+    descriptor.set.call(element, value);
+  } else {
+    element.value = value;
+  }
+
+  element.dispatchEvent(new Event("input", { bubbles: true }));
+  element.dispatchEvent(new Event("change", { bubbles: true }));
+}
+
+/**
+ * Performs the default behaviour of an action declared with the {@link action} HOC.
+ * Form controls (`input`, `textarea`, `select`) receive the `value` parameter (or the schema's
+ * only declared parameter) as their new value; every other element, and form controls called
+ * without a value, are clicked natively.
+ *
+ * @param {HTMLElement} element - The element the action was dispatched to.
+ * @param {ActionSchema} schema - The schema of the action.
+ * @param {Record<string, unknown>} params - The parameters of the action call.
+ * @returns {unknown} The new value for form controls, `undefined` for clicks.
+ */
+function performDefaultAction(
+  element: HTMLElement,
+  schema: ActionSchema,
+  params: Record<string, unknown>,
+): unknown {
+  const isFormControl =
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement;
+  const value =
+    params.value !== undefined || schema.parameters?.length !== 1
+      ? params.value
+      : params[schema.parameters[0].name];
+
+  if (isFormControl && value !== undefined) {
+    setNativeValue(element, String(value));
+    return element.value;
+  }
+
+  element.click();
+  return undefined;
+}
 
 /**
  * Higher Order Component (HOC) that wraps a React component to associate it with
@@ -34,6 +84,11 @@ import { ActionSchema } from "./types";
  * including `data-hlas-action` (from `schema.id`), `data-hlas-name` (from `schema.name`),
  * `data-hlas-description` (if provided in schema), and `data-hlas-parameters` (if provided).
  *
+ * The element is also registered with the HLAS registry, so it is returned by `window.hlas.find()`
+ * and `readScreen()`, and executing `schema.id` on it performs a default behaviour: form controls
+ * (`input`, `textarea`, `select`) have their value set from the `value` parameter, and any other
+ * element is clicked natively.
+ *
  * The wrapped component must support `ref` forwarding to its underlying DOM element.
  *
  * @template C - The type of the React component being wrapped. Must be an {@link ElementType}.
@@ -52,8 +107,9 @@ import { ActionSchema } from "./types";
  * - The `data-hlas-name` and `data-hlas-description` attributes set by this HOC are based on the
  *   provided `schema`. If the wrapped component is also registered using `useHlasActions`,
  *   the `name` and `description` provided to `useHlasActions` (and subsequently to `registry.register`)
- *   will typically take precedence for the component's entry in the HLAS registry, as they are applied
- *   during the `useEffect` phase of the hook. This HOC sets attributes related to *its specific action schema*.
+ *   take precedence: the HOC registers its element as a *fallback* entry (see {@link RegisterOptions}),
+ *   which is merged into the hook's entry, contributing `schema` to its actions unless the hook
+ *   already defines an action with the same ID.
  *
  * @example
  * ```tsx
@@ -89,6 +145,7 @@ export function action<C extends ElementType>(
   // Use forwardRef to ensure we can access the DOM element
   return forwardRef<HTMLElement, ComponentPropsWithRef>(
     function ActionWrapper(props, ref) {
+      const id = useId();
       const innerRef = useRef<HTMLElement | null>(null);
 
       // Combine the passed ref with our internal ref
@@ -109,13 +166,17 @@ export function action<C extends ElementType>(
         const element = innerRef.current;
         if (!element) return;
 
-        // Set data attributes using ref.setAttribute
+        // Set data attributes using ref.setAttribute. data-hlas-name and data-hlas-description
+        // are written by the registry, unless another registration already describes the element.
         element.setAttribute("data-hlas-action", schema.id);
-        element.setAttribute("data-hlas-name", schema.name);
-
-        if (schema.description) {
-          element.setAttribute("data-hlas-description", schema.description);
-        }
+        registry.register(
+          id,
+          element,
+          schema.name,
+          [schema],
+          schema.description,
+          { fallback: true, generatedId: true },
+        );
 
         if (schema.parameters && schema.parameters.length > 0) {
           // Serialize parameters with defaults for consistency,
@@ -131,14 +192,38 @@ export function action<C extends ElementType>(
           element.setAttribute("data-hlas-parameters", parametersJson);
         }
 
+        // Perform the default behaviour when the schema's action is executed on this entry
+        const handleExecute = (event: Event) => {
+          const {
+            id: targetId,
+            actionId,
+            params,
+            respond,
+          } = (event as CustomEvent<ExecuteEventDetail>).detail;
+          if ((targetId && targetId !== id) || actionId !== schema.id) return;
+
+          try {
+            const result = performDefaultAction(element, schema, params || {});
+            respond?.(result);
+          } catch (error) {
+            if (!respond) throw error;
+            respond(Promise.reject(error));
+          }
+        };
+
+        element.addEventListener("hlas:execute", handleExecute);
+
         // Cleanup on unmount
         return () => {
           if (element) {
+            element.removeEventListener("hlas:execute", handleExecute);
             element.removeAttribute("data-hlas-action");
             element.removeAttribute("data-hlas-name");
             element.removeAttribute("data-hlas-description");
             element.removeAttribute("data-hlas-parameters");
           }
+          // Unregister last, so that a remaining registration of the element can restore its attributes
+          registry.unregister(id, element);
         };
       }, []);
 
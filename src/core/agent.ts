@@ -0,0 +1,314 @@
+/**
+ * @module core/agent
+ * @description A provider-agnostic agent loop driving the UI through the command language.
+ *
+ * An {@link AgentLoop} sends the task and the current screen to an {@link LLMProvider}, runs the
+ * commands found in the reply (see {@link parseCommands} and {@link runCommands}), and answers the model
+ * with the command results and what changed on the screen, until the model replies without commands
+ * or the step limit is reached. Providers only have to turn a list of chat messages into a reply, so
+ * any LLM API, or a scripted fake in tests, can be plugged in.
+ */
+
+import {
+  CommandParseError,
+  CommandResult,
+  HlasCommand,
+  parseCommands,
+  runCommands,
+} from "./commands";
+import registry from "./registry";
+import { serializeComponents } from "./serializer";
+import { RegistryView, ScreenDiff, SerializeScreenOptions } from "./types";
+
+/**
+ * @interface LLMMessage
+ * @description A chat message exchanged with an {@link LLMProvider}.
+ * @property {"system" | "user" | "assistant"} role - Who the message is from.
+ * @property {string} content - The message text.
+ */
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * @interface LLMProvider
+ * @description Connects an {@link AgentLoop} to a language model.
+ * @property {(messages: LLMMessage[]) => Promise<string>} complete - Sends the conversation so far,
+ *           starting with the system prompt, and resolves with the model's reply.
+ */
+export interface LLMProvider {
+  complete: (messages: LLMMessage[]) => Promise<string>;
+}
+
+/**
+ * @interface AgentStep
+ * @description One round-trip of an {@link AgentLoop}.
+ * @property {number} index - The position of the step, starting at 0.
+ * @property {string} response - The model's reply.
+ * @property {HlasCommand[]} commands - The commands found in the reply.
+ * @property {CommandParseError[]} errors - The malformed commands found in the reply.
+ * @property {CommandResult[]} results - The results of the commands that were run.
+ * @property {ScreenDiff} [screenDiff] - What changed on the screen while the commands ran.
+ */
+export interface AgentStep {
+  index: number;
+  response: string;
+  commands: HlasCommand[];
+  errors: CommandParseError[];
+  results: CommandResult[];
+  screenDiff?: ScreenDiff;
+}
+
+/**
+ * @interface AgentRunResult
+ * @description The outcome of {@link AgentLoop.run}.
+ * @property {"completed" | "max_steps" | "error"} status - `completed` if the model replied without commands,
+ *           `max_steps` if the step limit was reached first, `error` if the provider failed.
+ * @property {string} response - The model's last reply (empty if the provider failed on the first step).
+ * @property {AgentStep[]} steps - The completed steps, in order.
+ * @property {LLMMessage[]} messages - The complete conversation, including the system prompt.
+ * @property {string} [error] - The provider's error message, if the status is `error`.
+ */
+export interface AgentRunResult {
+  status: "completed" | "max_steps" | "error";
+  response: string;
+  steps: AgentStep[];
+  messages: LLMMessage[];
+  error?: string;
+}
+
+/**
+ * @interface AgentLoopOptions
+ * @description Options accepted by {@link AgentLoop}.
+ * @property {number} [maxSteps=5] - The maximum number of model replies per run.
+ * @property {number} [delayMs=0] - The delay after each command, giving its effects time to render
+ *                                  before the next command runs or the screen is read.
+ * @property {boolean} [stopOnError=false] - Whether to skip the remaining commands of a reply after a failure.
+ * @property {string} [instructions] - Replaces the default instructions at the start of the system prompt.
+ * @property {SerializeScreenOptions} [screen={ format: "text", maxTokens: 4000 }] - How the screen is serialized
+ *           for the model, see {@link serializeComponents}.
+ * @property {(step: AgentStep) => void} [onStep] - Called after each step, e.g. to show progress.
+ * @property {RegistryView} [session] - The session the model acts in (see {@link HlasSession}): it only sees and
+ *                                      runs what the session's scopes allow. Defaults to the unrestricted registry.
+ */
+export interface AgentLoopOptions {
+  maxSteps?: number;
+  delayMs?: number;
+  stopOnError?: boolean;
+  instructions?: string;
+  screen?: SerializeScreenOptions;
+  onStep?: (step: AgentStep) => void;
+  session?: RegistryView;
+}
+
+/**
+ * The default instructions of the system prompt, describing the command language.
+ */
+export const DEFAULT_AGENT_INSTRUCTIONS = `You are an AI assistant that can interact with a user interface. You can see the current state of the screen and perform actions on behalf of the user.
+
+You can execute actions using: EXECUTE(componentId, actionId, parameters)
+You can focus on elements using: FOCUS(componentId)
+You can highlight elements using: HIGHLIGHT(componentId, durationMs, "Optional title", "Optional description")
+You can create guided tours using: TOUR([{"id":"componentId1","title":"Step 1","description":"Description for step 1","position":"bottom"}])
+
+After your commands run, you will receive their results and the changes to the screen, and can issue further commands.
+When the task is done, or to answer a question, reply without any commands.
+Keep your responses concise and focused on helping the user accomplish their task.`;
+
+/**
+ * The default serialization of the screen in prompts.
+ */
+const DEFAULT_SCREEN_OPTIONS: SerializeScreenOptions = {
+  format: "text",
+  maxTokens: 4000,
+};
+
+/**
+ * Describes the results of a step for the model.
+ *
+ * @param {AgentStep} step - The completed step.
+ * @param {SerializeScreenOptions} screen - How a complete screen is serialized.
+ * @returns {string} The feedback message.
+ */
+function describeStep(step: AgentStep, screen: SerializeScreenOptions): string {
+  const lines = ["## Command Results"];
+
+  for (const error of step.errors) {
+    lines.push(
+      `- Invalid command at line ${error.location.line}, column ${error.location.column}: ${error.message}`,
+    );
+  }
+  for (const result of step.results) {
+    let line = `- ${result.command.source}: ${result.status}`;
+    if (result.error) {
+      line += ` (${result.error})`;
+    } else if (result.result !== undefined) {
+      line += ` -> ${JSON.stringify(result.result)}`;
+    }
+    lines.push(line);
+  }
+  const skipped = step.commands.length - step.results.length;
+  if (skipped > 0) {
+    lines.push(`- ${skipped} more command(s) skipped after the failure`);
+  }
+
+  const diff = step.screenDiff;
+  if (diff?.reset) {
+    lines.push(
+      "",
+      "## Current Screen State",
+      serializeComponents(diff.added, screen).text,
+    );
+  } else if (
+    diff &&
+    (diff.added.length > 0 ||
+      diff.removed.length > 0 ||
+      diff.changed.length > 0)
+  ) {
+    lines.push("", "## Screen Changes");
+    if (diff.added.length > 0) {
+      lines.push(
+        `- Added: ${diff.added.map((component) => component.id).join(", ")}`,
+      );
+    }
+    if (diff.changed.length > 0) {
+      const changes = diff.changed.map(
+        ({ id, changedFields }) => `${id} (${changedFields.join(", ")})`,
+      );
+      lines.push(`- Changed: ${changes.join(", ")}`);
+    }
+    if (diff.removed.length > 0) {
+      lines.push(
+        `- Removed: ${diff.removed.map((component) => component.id).join(", ")}`,
+      );
+    }
+    // The added and changed components share the budget of a complete screen
+    const current = [
+      ...diff.added,
+      ...diff.changed.map(({ component }) => component),
+    ];
+    if (current.length > 0) {
+      lines.push("", serializeComponents(current, screen).text);
+    }
+  } else {
+    lines.push("", "The screen did not change.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * @class AgentLoop
+ * @description Lets a language model carry out a task on the registered UI over several steps.
+ *
+ * @example
+ * ```typescript
+ * const provider: LLMProvider = {
+ *   complete: async (messages) => callMyModel(messages),
+ * };
+ * const { status, response } = await new AgentLoop(provider, { maxSteps: 3 }).run("Add a todo: Buy milk");
+ * ```
+ */
+export class AgentLoop {
+  private provider: LLMProvider;
+  private options: AgentLoopOptions;
+
+  /**
+   * @constructor
+   * @param {LLMProvider} provider - The language model to drive the UI with.
+   * @param {AgentLoopOptions} [options={}] - The step limit, command pacing and prompt customization.
+   */
+  constructor(provider: LLMProvider, options: AgentLoopOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+  }
+
+  /**
+   * Builds the system prompt: the instructions followed by the current screen state.
+   *
+   * @returns {string} The system prompt.
+   */
+  buildSystemPrompt(): string {
+    const instructions =
+      this.options.instructions ?? DEFAULT_AGENT_INSTRUCTIONS;
+    const { text } = (this.options.session ?? registry).serializeScreen(
+      this.options.screen ?? DEFAULT_SCREEN_OPTIONS,
+    );
+    return `${instructions}\n\n## Current Screen State\n${text}`;
+  }
+
+  /**
+   * Runs the loop for a task until the model replies without commands, the step limit is reached,
+   * or the provider fails. Provider errors are reported in the result rather than thrown.
+   *
+   * @param {string} task - The user's request.
+   * @returns {Promise<AgentRunResult>} The outcome, the steps and the conversation.
+   */
+  async run(task: string): Promise<AgentRunResult> {
+    const {
+      maxSteps = 5,
+      delayMs = 0,
+      stopOnError = false,
+      session = registry,
+    } = this.options;
+    let version = session.snapshot().version;
+    const messages: LLMMessage[] = [
+      { role: "system", content: this.buildSystemPrompt() },
+      { role: "user", content: task },
+    ];
+    const steps: AgentStep[] = [];
+    let response = "";
+
+    for (let index = 0; index < maxSteps; index++) {
+      try {
+        response = await this.provider.complete(messages.slice());
+      } catch (error) {
+        console.error("Error calling LLM provider:", error);
+        return {
+          status: "error",
+          response,
+          steps,
+          messages,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      messages.push({ role: "assistant", content: response });
+
+      const { commands, errors } = parseCommands(response);
+      const step: AgentStep = {
+        index,
+        response,
+        commands,
+        errors,
+        results: [],
+      };
+      steps.push(step);
+      if (commands.length === 0 && errors.length === 0) {
+        this.options.onStep?.(step);
+        return { status: "completed", response, steps, messages };
+      }
+
+      step.results = await runCommands(commands, {
+        delayMs,
+        stopOnError,
+        session,
+      });
+      // Let the UI re-render before reading what changed
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      step.screenDiff = session.diff(version);
+      version = step.screenDiff.toVersion;
+
+      this.options.onStep?.(step);
+      messages.push({
+        role: "user",
+        content: describeStep(
+          step,
+          this.options.screen ?? DEFAULT_SCREEN_OPTIONS,
+        ),
+      });
+    }
+
+    return { status: "max_steps", response, steps, messages };
+  }
+}
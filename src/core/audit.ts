@@ -0,0 +1,180 @@
+/**
+ * @module core/audit
+ * @description Records what callers did to the screen: every action executed and every focus,
+ * highlight and tour started through the registry, with its outcome. The log is kept in memory
+ * and bounded, so that the most recent calls can be inspected with `window.hlas.history()` or
+ * attached to a support ticket as JSON Lines.
+ */
+
+import { ExecutionStatus } from "./types";
+
+/**
+ * The number of entries kept by default. Older entries are dropped first.
+ */
+export const DEFAULT_AUDIT_CAPACITY = 500;
+
+/**
+ * @typedef {"execute" | "focus" | "highlight" | "startTour" | "undo" | "redo"} AuditOperation
+ * @description The registry methods that are recorded. `executeAsync` and `dispatchToolCall` calls
+ * are recorded as `"execute"`.
+ */
+export type AuditOperation =
+  | "execute"
+  | "focus"
+  | "highlight"
+  | "startTour"
+  | "undo"
+  | "redo";
+
+/**
+ * @typedef {ExecutionStatus | "dispatched"} AuditOutcome
+ * @description The outcome of a recorded call: an {@link ExecutionStatus}, or `"dispatched"` for actions
+ * executed with `execute()`, which does not wait for the action to settle.
+ */
+export type AuditOutcome = ExecutionStatus | "dispatched";
+
+/**
+ * @interface AuditEntry
+ * @description A recorded call, as returned by `window.hlas.history()`.
+ * @property {number} sequence - The position of the call among all recorded calls, starting at 1.
+ * @property {number} timestamp - When the call was made, in milliseconds since the epoch.
+ * @property {string} caller - The name of the session that made the call (see {@link HlasSession}),
+ *                             or `"global"` for calls made outside of a session.
+ * @property {AuditOperation} operation - The registry method that was called.
+ * @property {string} [componentId] - The ID of the component the call addressed (refs and stable IDs resolved).
+ * @property {string} [componentName] - The name of the component at the time of the call, if it was registered.
+ * @property {string} [actionId] - The executed action.
+ * @property {Record<string, unknown>} [params] - The parameters as passed by the caller; for tours, the step IDs.
+ * @property {AuditOutcome} outcome - How the call ended.
+ * @property {string} [error] - Why the call did not succeed.
+ * @property {number} durationMs - The time in milliseconds until the outcome was known.
+ */
+export interface AuditEntry {
+  sequence: number;
+  timestamp: number;
+  caller: string;
+  operation: AuditOperation;
+  componentId?: string;
+  componentName?: string;
+  actionId?: string;
+  params?: Record<string, unknown>;
+  outcome: AuditOutcome;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * @interface AuditQuery
+ * @description Filters for `window.hlas.history()`. All given filters must match.
+ * @property {string} [componentId] - Only calls addressing this component.
+ * @property {AuditOperation} [operation] - Only calls of this method.
+ * @property {string} [caller] - Only calls made by this session (or `"global"`).
+ * @property {AuditOutcome} [outcome] - Only calls with this outcome.
+ * @property {number} [since] - Only calls made at or after this timestamp (milliseconds since the epoch).
+ * @property {number} [limit] - Only the most recent matching calls, at most this many.
+ */
+export interface AuditQuery {
+  componentId?: string;
+  operation?: AuditOperation;
+  caller?: string;
+  outcome?: AuditOutcome;
+  since?: number;
+  limit?: number;
+}
+
+/**
+ * Converts an entry into a JSON line. Parameters that cannot be serialized (e.g. DOM nodes
+ * or cyclic objects) are replaced by a placeholder instead of failing the export.
+ *
+ * @param {AuditEntry} entry - The entry.
+ * @returns {string} The entry as a single line of JSON.
+ */
+function toJSONLine(entry: AuditEntry): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    return JSON.stringify({ ...entry, params: "[unserializable]" });
+  }
+}
+
+/**
+ * @class AuditLog
+ * @description A bounded, in-memory log of the calls made through the registry.
+ * Used by {@link Registry.history}.
+ */
+export class AuditLog {
+  private capacity: number;
+  private entries: AuditEntry[] = [];
+  private nextSequence: number = 1;
+
+  /**
+   * @constructor
+   * @param {number} [capacity=DEFAULT_AUDIT_CAPACITY] - The number of entries to keep.
+   */
+  constructor(capacity: number = DEFAULT_AUDIT_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Appends an entry, dropping the oldest entries beyond the capacity.
+   *
+   * @param {Omit<AuditEntry, "sequence">} entry - The call to record.
+   * @returns {AuditEntry} The recorded entry, with its sequence number.
+   */
+  record(entry: Omit<AuditEntry, "sequence">): AuditEntry {
+    const recorded = { sequence: this.nextSequence++, ...entry };
+    this.entries.push(recorded);
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+    return recorded;
+  }
+
+  /**
+   * Returns the recorded entries matching a query.
+   *
+   * @param {AuditQuery} [query={}] - The filters to apply.
+   * @param {(entry: AuditEntry) => boolean} [include] - An additional filter, applied before the `limit`.
+   * @returns {AuditEntry[]} The matching entries, oldest first.
+   */
+  query(
+    query: AuditQuery = {},
+    include?: (entry: AuditEntry) => boolean,
+  ): AuditEntry[] {
+    const matches = this.entries.filter(
+      (entry) =>
+        (include === undefined || include(entry)) &&
+        (query.componentId === undefined ||
+          entry.componentId === query.componentId) &&
+        (query.operation === undefined ||
+          entry.operation === query.operation) &&
+        (query.caller === undefined || entry.caller === query.caller) &&
+        (query.outcome === undefined || entry.outcome === query.outcome) &&
+        (query.since === undefined || entry.timestamp >= query.since),
+    );
+    return query.limit !== undefined
+      ? matches.slice(Math.max(matches.length - query.limit, 0))
+      : matches;
+  }
+
+  /**
+   * Exports the entries matching a query as JSON Lines: one JSON object per line.
+   *
+   * @param {AuditQuery} [query={}] - The filters to apply.
+   * @param {(entry: AuditEntry) => boolean} [include] - An additional filter (see {@link AuditLog.query}).
+   * @returns {string} The entries, oldest first, separated by newlines. Empty if there are none.
+   */
+  toJSONLines(
+    query: AuditQuery = {},
+    include?: (entry: AuditEntry) => boolean,
+  ): string {
+    return this.query(query, include).map(toJSONLine).join("\n");
+  }
+
+  /**
+   * Removes all entries. Sequence numbers keep increasing.
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
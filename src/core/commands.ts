@@ -0,0 +1,725 @@
+/**
+ * @module core/commands
+ * @description Parses and runs the command language that LLMs use to drive the UI through hlas:
+ *
+ * ```
+ * EXECUTE(componentId, actionId, {"param": "value"})
+ * FOCUS(componentId)
+ * HIGHLIGHT(componentId, durationMs, "Optional title", "Optional description")
+ * TOUR([{"id": "componentId", "title": "Step 1", "description": "...", "position": "bottom"}])
+ * ```
+ *
+ * Commands may be embedded in free text (e.g. an LLM response); text around them is ignored.
+ * Arguments are quoted strings, numbers, JSON objects or arrays, or bare words (such as
+ * unquoted component IDs). {@link parseCommands} produces the commands in source order together
+ * with precisely located errors, and {@link runCommands} executes them one after another
+ * against the {@link Registry}.
+ */
+
+import registry, { TourStep } from "./registry";
+import { ExecutionResult, RegistryView } from "./types";
+
+/**
+ * @interface SourceLocation
+ * @description A position in the parsed text.
+ * @property {number} offset - The zero-based character offset.
+ * @property {number} line - The one-based line number.
+ * @property {number} column - The one-based column number.
+ */
+export interface SourceLocation {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * @interface CommandNodeBase
+ * @description The properties shared by all parsed commands.
+ * @property {SourceLocation} location - The position of the command's keyword.
+ * @property {string} source - The command's text, from its keyword to its closing parenthesis.
+ */
+interface CommandNodeBase {
+  location: SourceLocation;
+  source: string;
+}
+
+/**
+ * @interface ExecuteCommand
+ * @description `EXECUTE(componentId, actionId, parameters?)`. Parameters given as a JSON object are
+ * passed as they are; any other value `v` is passed as `{ value: v }`.
+ */
+export interface ExecuteCommand extends CommandNodeBase {
+  type: "execute";
+  componentId: string;
+  actionId: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * @interface FocusCommand
+ * @description `FOCUS(componentId)`.
+ */
+export interface FocusCommand extends CommandNodeBase {
+  type: "focus";
+  componentId: string;
+}
+
+/**
+ * @interface HighlightCommand
+ * @description `HIGHLIGHT(componentId, durationMs?, title?, description?)`.
+ */
+export interface HighlightCommand extends CommandNodeBase {
+  type: "highlight";
+  componentId: string;
+  duration?: number;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * @interface TourCommand
+ * @description `TOUR([steps])`, where steps is a non-empty JSON array of {@link TourStep}s.
+ */
+export interface TourCommand extends CommandNodeBase {
+  type: "tour";
+  steps: TourStep[];
+}
+
+/**
+ * @type HlasCommand
+ * @description A parsed command, discriminated by `type`.
+ */
+export type HlasCommand =
+  | ExecuteCommand
+  | FocusCommand
+  | HighlightCommand
+  | TourCommand;
+
+/**
+ * @interface CommandParseError
+ * @description A command that could not be parsed.
+ * @property {string} message - What is wrong, e.g. `Unterminated string`.
+ * @property {SourceLocation} location - Where the problem was detected.
+ */
+export interface CommandParseError {
+  message: string;
+  location: SourceLocation;
+}
+
+/**
+ * @interface CommandParseResult
+ * @description The outcome of {@link parseCommands}.
+ * @property {HlasCommand[]} commands - The valid commands, in source order.
+ * @property {CommandParseError[]} errors - One error per malformed command, in source order.
+ */
+export interface CommandParseResult {
+  commands: HlasCommand[];
+  errors: CommandParseError[];
+}
+
+/**
+ * @interface CommandResult
+ * @description The outcome of running one command with {@link runCommands}.
+ * `FOCUS`, `HIGHLIGHT` and `TOUR` report `"success"`, `"not_found"` (unknown component) or `"error"`.
+ * @property {HlasCommand} command - The command that was run.
+ */
+export interface CommandResult extends ExecutionResult {
+  command: HlasCommand;
+}
+
+/**
+ * @interface RunCommandsOptions
+ * @description Options accepted by {@link runCommands}.
+ * @property {number} [delayMs=0] - Time to wait after each command, e.g. to let the UI re-render.
+ * @property {boolean} [stopOnError=false] - Whether to skip the remaining commands after a command fails.
+ * @property {RegistryView} [session] - The session to run the commands in (see {@link HlasSession}), limiting
+ *                                      them to its scopes. Defaults to the unrestricted registry.
+ */
+export interface RunCommandsOptions {
+  delayMs?: number;
+  stopOnError?: boolean;
+  session?: RegistryView;
+}
+
+/**
+ * @type CommandArgument
+ * @description A parsed command argument. Bare words keep their raw text.
+ */
+type CommandArgument = {
+  kind: "string" | "number" | "json" | "word";
+  value: unknown;
+  location: SourceLocation;
+};
+
+/**
+ * Matches a command keyword followed by its opening parenthesis.
+ */
+const COMMAND_PATTERN = /\b(EXECUTE|FOCUS|HIGHLIGHT|TOUR)\s*\(/g;
+
+/**
+ * The characters produced by backslash escapes in quoted strings. Other escaped
+ * characters (such as quotes and backslashes) stand for themselves.
+ */
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+};
+
+/**
+ * @class CommandSyntaxError
+ * @description Raised while parsing a single command; collected by {@link parseCommands}.
+ */
+class CommandSyntaxError extends Error {
+  constructor(
+    message: string,
+    public offset: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Finds the end of a command whose arguments could not be parsed: its closing parenthesis,
+ * skipping quoted strings and nested parentheses.
+ *
+ * @param {string} source - The text.
+ * @param {number} start - The offset just after the command's opening parenthesis.
+ * @returns {number | undefined} The offset after the closing parenthesis, or `undefined` if the
+ *                               command (or a string in it) is never closed.
+ */
+function findCommandEnd(source: string, start: number): number | undefined {
+  let depth = 1;
+  let quote: string | undefined;
+
+  for (let position = start; position < source.length; position++) {
+    const char = source[position];
+    if (quote) {
+      if (char === "\\") {
+        position++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && --depth === 0) {
+      return position + 1;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Computes the line and column of an offset in a text.
+ *
+ * @param {string} source - The text.
+ * @param {number} offset - The zero-based character offset.
+ * @returns {SourceLocation} The offset with its one-based line and column.
+ */
+function locate(source: string, offset: number): SourceLocation {
+  const before = source.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    offset,
+    line: before.split("\n").length,
+    column: offset - lineStart + 1,
+  };
+}
+
+/**
+ * @class ArgumentParser
+ * @description Reads the comma-separated arguments of one command, from just after its
+ * opening parenthesis up to and including its closing parenthesis.
+ */
+class ArgumentParser {
+  constructor(
+    private source: string,
+    public position: number,
+  ) {}
+
+  /**
+   * Parses the argument list.
+   * @returns {CommandArgument[]} The arguments, in order.
+   * @throws {CommandSyntaxError} If the arguments are malformed or the list is not closed.
+   */
+  parseArguments(): CommandArgument[] {
+    const args: CommandArgument[] = [];
+    this.skipWhitespace();
+    if (this.peek() === ")") {
+      this.position++;
+      return args;
+    }
+
+    for (;;) {
+      this.skipWhitespace();
+      args.push(this.parseArgument());
+      this.skipWhitespace();
+
+      const next = this.peek();
+      if (next === ",") {
+        this.position++;
+      } else if (next === ")") {
+        this.position++;
+        return args;
+      } else if (next === undefined) {
+        throw new CommandSyntaxError(
+          "Missing closing parenthesis",
+          this.position,
+        );
+      } else {
+        throw new CommandSyntaxError(
+          `Expected "," or ")" but found "${next}"`,
+          this.position,
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the character at the current position, or `undefined` at the end of the text.
+   */
+  private peek(): string | undefined {
+    return this.position < this.source.length
+      ? this.source[this.position]
+      : undefined;
+  }
+
+  /**
+   * Advances past whitespace, including line breaks.
+   */
+  private skipWhitespace(): void {
+    while (/\s/.test(this.peek() || "")) {
+      this.position++;
+    }
+  }
+
+  /**
+   * Parses one argument: a quoted string, a JSON object or array, a number or a bare word.
+   */
+  private parseArgument(): CommandArgument {
+    const start = this.position;
+    const location = locate(this.source, start);
+    const next = this.peek();
+
+    if (next === '"' || next === "'") {
+      return { kind: "string", value: this.parseString(next), location };
+    }
+    if (next === "{" || next === "[") {
+      return { kind: "json", value: this.parseJson(), location };
+    }
+
+    const word = this.parseWord();
+    if (word === "") {
+      throw new CommandSyntaxError("Expected an argument", start);
+    }
+    if (/^-?\d+(\.\d+)?$/.test(word)) {
+      return { kind: "number", value: Number(word), location };
+    }
+    return { kind: "word", value: word, location };
+  }
+
+  /**
+   * Reads a single- or double-quoted string, resolving backslash escapes.
+   */
+  private parseString(quote: string): string {
+    const start = this.position;
+    this.position++;
+    let value = "";
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++];
+      if (char === quote) {
+        return value;
+      }
+      if (char !== "\\") {
+        value += char;
+        continue;
+      }
+
+      const escaped = this.source[this.position++];
+      if (escaped === "u") {
+        const hex = this.source.slice(this.position, this.position + 4);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw new CommandSyntaxError(
+            "Invalid unicode escape",
+            this.position - 2,
+          );
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        this.position += 4;
+      } else if (escaped !== undefined) {
+        value += ESCAPES[escaped] || escaped;
+      }
+    }
+
+    throw new CommandSyntaxError("Unterminated string", start);
+  }
+
+  /**
+   * Reads a JSON object or array by matching its brackets (ignoring brackets and commas
+   * inside JSON strings) and parses it.
+   */
+  private parseJson(): unknown {
+    const start = this.position;
+    const closing: string[] = [];
+    let inString = false;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++];
+
+      if (inString) {
+        if (char === "\\") {
+          this.position++;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{") {
+        closing.push("}");
+      } else if (char === "[") {
+        closing.push("]");
+      } else if (char === "}" || char === "]") {
+        if (closing.pop() !== char) {
+          throw new CommandSyntaxError(
+            `Unexpected "${char}" in JSON value`,
+            this.position - 1,
+          );
+        }
+        if (closing.length === 0) {
+          const text = this.source.slice(start, this.position);
+          try {
+            return JSON.parse(text);
+          } catch (error) {
+            throw new CommandSyntaxError(
+              `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+              start,
+            );
+          }
+        }
+      }
+    }
+
+    throw new CommandSyntaxError("Unterminated JSON value", start);
+  }
+
+  /**
+   * Reads an unquoted argument up to the next comma, closing parenthesis or line break.
+   */
+  private parseWord(): string {
+    const start = this.position;
+    while (
+      this.position < this.source.length &&
+      !/[,)\n]/.test(this.source[this.position])
+    ) {
+      this.position++;
+    }
+    return this.source.slice(start, this.position).trim();
+  }
+}
+
+/**
+ * Reads an argument that names something, such as a component or action ID.
+ */
+function toIdentifier(arg: CommandArgument, what: string): string {
+  if (arg.kind === "json") {
+    throw new CommandSyntaxError(
+      `${what} must be a string, not a JSON value`,
+      arg.location.offset,
+    );
+  }
+  return String(arg.value);
+}
+
+/**
+ * Reads an optional text argument, such as a highlight title.
+ */
+function toText(arg: CommandArgument | undefined): string | undefined {
+  if (!arg) return undefined;
+  return arg.kind === "json" ? JSON.stringify(arg.value) : String(arg.value);
+}
+
+/**
+ * Checks the number of arguments of a command.
+ */
+function expectArguments(
+  keyword: string,
+  args: CommandArgument[],
+  min: number,
+  max: number,
+  usage: string,
+  offset: number,
+): void {
+  if (args.length < min || args.length > max) {
+    throw new CommandSyntaxError(
+      `${keyword} expects ${usage}, got ${args.length} argument${args.length === 1 ? "" : "s"}`,
+      offset,
+    );
+  }
+}
+
+/**
+ * Builds the command node for a keyword and its parsed arguments.
+ */
+function buildCommand(
+  keyword: string,
+  args: CommandArgument[],
+  base: CommandNodeBase,
+): HlasCommand {
+  const offset = base.location.offset;
+
+  switch (keyword) {
+    case "EXECUTE": {
+      expectArguments(
+        keyword,
+        args,
+        2,
+        3,
+        "a component ID, an action ID and optional parameters",
+        offset,
+      );
+      let params: Record<string, unknown> = {};
+      const paramsArg = args[2];
+      if (paramsArg) {
+        if (paramsArg.kind !== "json") {
+          params = { value: paramsArg.value };
+        } else if (
+          typeof paramsArg.value === "object" &&
+          paramsArg.value !== null &&
+          !Array.isArray(paramsArg.value)
+        ) {
+          params = paramsArg.value as Record<string, unknown>;
+        } else {
+          throw new CommandSyntaxError(
+            "EXECUTE parameters must be a JSON object",
+            paramsArg.location.offset,
+          );
+        }
+      }
+      return {
+        ...base,
+        type: "execute",
+        componentId: toIdentifier(args[0], "The component ID"),
+        actionId: toIdentifier(args[1], "The action ID"),
+        params,
+      };
+    }
+
+    case "FOCUS":
+      expectArguments(keyword, args, 1, 1, "a component ID", offset);
+      return {
+        ...base,
+        type: "focus",
+        componentId: toIdentifier(args[0], "The component ID"),
+      };
+
+    case "HIGHLIGHT": {
+      expectArguments(
+        keyword,
+        args,
+        1,
+        4,
+        "a component ID, an optional duration, title and description",
+        offset,
+      );
+      const durationArg = args[1];
+      const duration =
+        durationArg === undefined ? undefined : Number(durationArg.value);
+      if (
+        durationArg &&
+        (durationArg.kind === "json" || Number.isNaN(duration))
+      ) {
+        throw new CommandSyntaxError(
+          "The HIGHLIGHT duration must be a number of milliseconds",
+          durationArg.location.offset,
+        );
+      }
+      const command: HighlightCommand = {
+        ...base,
+        type: "highlight",
+        componentId: toIdentifier(args[0], "The component ID"),
+      };
+      if (duration !== undefined) command.duration = duration;
+      const title = toText(args[2]);
+      if (title !== undefined) command.title = title;
+      const description = toText(args[3]);
+      if (description !== undefined) command.description = description;
+      return command;
+    }
+
+    default: {
+      expectArguments(keyword, args, 1, 1, "a JSON array of steps", offset);
+      const steps = args[0].value;
+      if (
+        args[0].kind !== "json" ||
+        !Array.isArray(steps) ||
+        steps.length === 0
+      ) {
+        throw new CommandSyntaxError(
+          "TOUR expects a non-empty JSON array of steps",
+          args[0].location.offset,
+        );
+      }
+      steps.forEach((step, index) => {
+        if (
+          typeof step !== "object" ||
+          step === null ||
+          typeof (step as TourStep).id !== "string"
+        ) {
+          throw new CommandSyntaxError(
+            `TOUR step ${index + 1} must be an object with an "id"`,
+            args[0].location.offset,
+          );
+        }
+      });
+      return { ...base, type: "tour", steps: steps as TourStep[] };
+    }
+  }
+}
+
+/**
+ * Parses the commands contained in a text, such as an LLM response.
+ *
+ * Commands are returned in the order they appear in the text. A malformed command is
+ * reported in `errors` with the position of the problem, and parsing resumes after its
+ * closing parenthesis, so that text in its arguments is never taken for commands. If the
+ * malformed command is never closed, the rest of the text is ignored.
+ *
+ * @param {string} source - The text to parse.
+ * @returns {CommandParseResult} The parsed commands and the errors.
+ *
+ * @example
+ * ```typescript
+ * const { commands, errors } = parseCommands(
+ *   'Sure! EXECUTE(todo-input, setValue, {"value": "Buy milk, eggs"}) then EXECUTE(add-button, addTodo)',
+ * );
+ * // commands[0].params => { value: "Buy milk, eggs" }
+ * ```
+ */
+export function parseCommands(source: string): CommandParseResult {
+  const commands: HlasCommand[] = [];
+  const errors: CommandParseError[] = [];
+  const pattern = new RegExp(COMMAND_PATTERN.source, "g");
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const keyword = match[1];
+    const parser = new ArgumentParser(source, pattern.lastIndex);
+    let end: number | undefined;
+
+    try {
+      const args = parser.parseArguments();
+      end = parser.position;
+      commands.push(
+        buildCommand(keyword, args, {
+          location: locate(source, match.index),
+          source: source.slice(match.index, end),
+        }),
+      );
+      pattern.lastIndex = end;
+    } catch (error) {
+      if (!(error instanceof CommandSyntaxError)) {
+        throw error;
+      }
+      errors.push({
+        message: `${keyword}: ${error.message}`,
+        location: locate(source, error.offset),
+      });
+
+      // Never read the arguments of a malformed command as commands
+      const resume = end ?? findCommandEnd(source, pattern.lastIndex);
+      if (resume === undefined) {
+        break;
+      }
+      pattern.lastIndex = resume;
+    }
+  }
+
+  return { commands, errors };
+}
+
+/**
+ * Runs a single command against the registry or a session.
+ */
+async function runCommand(
+  command: HlasCommand,
+  target: RegistryView,
+): Promise<ExecutionResult> {
+  const startedAt = performance.now();
+  const outcome = (found: boolean, componentId: string): ExecutionResult =>
+    found
+      ? { status: "success", durationMs: performance.now() - startedAt }
+      : {
+          status: "not_found",
+          error: `Component with ID ${componentId} not found`,
+          durationMs: performance.now() - startedAt,
+        };
+
+  switch (command.type) {
+    case "execute":
+      return target.executeAsync(
+        command.componentId,
+        command.actionId,
+        command.params,
+      );
+    case "focus":
+      return outcome(target.focus(command.componentId), command.componentId);
+    case "highlight":
+      return outcome(
+        target.highlight(
+          command.componentId,
+          command.duration,
+          command.title,
+          command.description,
+        ),
+        command.componentId,
+      );
+    case "tour":
+      return target.startTour(command.steps)
+        ? { status: "success", durationMs: performance.now() - startedAt }
+        : {
+            status: "error",
+            error: "None of the tour steps refers to a registered component",
+            durationMs: performance.now() - startedAt,
+          };
+  }
+}
+
+/**
+ * Runs parsed commands against the {@link Registry} or a session, one after another in the given order.
+ * `EXECUTE` commands are awaited through {@link Registry.executeAsync}, so an action has settled
+ * before the next command runs.
+ *
+ * @param {HlasCommand[]} commands - The commands to run, e.g. from {@link parseCommands}.
+ * @param {RunCommandsOptions} [options={}] - The delay between commands and whether to stop on the first failure.
+ * @returns {Promise<CommandResult[]>} One result per command that was run, in order.
+ */
+export async function runCommands(
+  commands: HlasCommand[],
+  options: RunCommandsOptions = {},
+): Promise<CommandResult[]> {
+  const { delayMs = 0, stopOnError = false, session = registry } = options;
+  const results: CommandResult[] = [];
+
+  for (const command of commands) {
+    const result = await runCommand(command, session);
+    results.push({ ...result, command });
+
+    if (result.status !== "success" && stopOnError) {
+      break;
+    }
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,123 @@
+/**
+ * @module core/confirm
+ * @description Decides which actions need the user's consent before they run, and provides the
+ * default way of asking for it: an in-page confirmation dialog. Used by {@link Registry.execute},
+ * {@link Registry.executeAsync} and {@link Registry.undo}; replace the dialog with {@link Registry.setConfirmationHandler}.
+ */
+
+import { ActionSchema, ConfirmationRequest } from "./types";
+
+/**
+ * Inline styles of the dialog, so that it works without a stylesheet.
+ */
+const STYLES = {
+  backdrop:
+    "position:fixed;inset:0;z-index:2147483647;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,0.4);",
+  dialog:
+    "max-width:420px;padding:20px;border-radius:8px;background:#fff;color:#111;font:14px/1.4 sans-serif;box-shadow:0 8px 24px rgba(0,0,0,0.3);",
+  params:
+    "max-height:160px;overflow:auto;padding:8px;background:#f4f4f4;white-space:pre-wrap;",
+  buttons: "display:flex;justify-content:flex-end;gap:8px;margin-top:16px;",
+};
+
+/**
+ * Counts the dialogs created, to give each one unique IDs for its ARIA labels.
+ */
+let dialogCount = 0;
+
+/**
+ * Checks whether an action has to be confirmed before it is dispatched: when it is marked with
+ * `requiresConfirmation: true`, or when its `risk` is `"destructive"` and confirmation is not
+ * explicitly turned off with `requiresConfirmation: false`.
+ *
+ * @param {ActionSchema} action - The schema of the action.
+ * @returns {boolean} `true` if the action needs confirmation.
+ */
+export function needsConfirmation(action: ActionSchema): boolean {
+  return action.requiresConfirmation ?? action.risk === "destructive";
+}
+
+/**
+ * Asks the user to confirm an action with a modal dialog added to the page. The dialog names the
+ * action and its component and lists the parameters; it is removed once the user answers.
+ * Escape and clicks on the backdrop decline, and the "Cancel" button has the initial focus.
+ *
+ * @param {ConfirmationRequest} request - The action waiting for confirmation.
+ * @returns {Promise<boolean>} Resolves to `true` if the user confirmed, `false` otherwise. Outside
+ *                             of a browser the action is declined.
+ */
+export function confirmWithDialog(
+  request: ConfirmationRequest,
+): Promise<boolean> {
+  if (typeof document === "undefined") {
+    return Promise.resolve(false);
+  }
+
+  const { component, action, params, undo } = request;
+  const idPrefix = `hlas-confirm-${++dialogCount}`;
+
+  const backdrop = document.createElement("div");
+  backdrop.style.cssText = STYLES.backdrop;
+
+  const dialog = document.createElement("div");
+  dialog.setAttribute("role", "alertdialog");
+  dialog.setAttribute("aria-modal", "true");
+  dialog.setAttribute("aria-labelledby", `${idPrefix}-title`);
+  dialog.setAttribute("aria-describedby", `${idPrefix}-message`);
+  dialog.style.cssText = STYLES.dialog;
+
+  const title = document.createElement("h2");
+  title.id = `${idPrefix}-title`;
+  title.textContent = "Confirm action";
+
+  const message = document.createElement("p");
+  message.id = `${idPrefix}-message`;
+  message.textContent = `Allow ${undo ? "undoing " : ""}"${action.name}" on "${component.name}"?${
+    action.description ? ` ${action.description}` : ""
+  }`;
+  dialog.append(title, message);
+
+  if (Object.keys(params).length > 0) {
+    const details = document.createElement("pre");
+    details.style.cssText = STYLES.params;
+    details.textContent = JSON.stringify(params, null, 2);
+    dialog.appendChild(details);
+  }
+
+  const cancelButton = document.createElement("button");
+  cancelButton.type = "button";
+  cancelButton.textContent = "Cancel";
+  const confirmButton = document.createElement("button");
+  confirmButton.type = "button";
+  confirmButton.textContent = "Confirm";
+
+  const buttons = document.createElement("div");
+  buttons.style.cssText = STYLES.buttons;
+  buttons.append(cancelButton, confirmButton);
+  dialog.appendChild(buttons);
+  backdrop.appendChild(dialog);
+
+  return new Promise((resolve) => {
+    const answer = (confirmed: boolean) => {
+      document.removeEventListener("keydown", handleKeyDown, true);
+      backdrop.remove();
+      resolve(confirmed);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        event.stopPropagation();
+        answer(false);
+      }
+    };
+
+    cancelButton.addEventListener("click", () => answer(false));
+    confirmButton.addEventListener("click", () => answer(true));
+    backdrop.addEventListener("click", (event) => {
+      if (event.target === backdrop) answer(false);
+    });
+    document.addEventListener("keydown", handleKeyDown, true);
+
+    document.body.appendChild(backdrop);
+    cancelButton.focus();
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * @module core/diff
+ * @description Computes the difference between two screen states as returned by
+ * {@link Registry.readScreen}. Used by {@link Registry.diff} so that an LLM loop can send
+ * only what changed since the model's last turn instead of the complete screen.
+ */
+
+import {
+  ComponentChange,
+  ContentDiff,
+  ContentItemChange,
+  ScreenComponent,
+} from "./types";
+
+/**
+ * Compares two values structurally. Screen state is JSON data, so values are equal
+ * when their JSON serializations are.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {boolean} `true` if both values serialize identically.
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Returns the key used to match an item of a list's content across versions: the `id` of
+ * object items that carry one, otherwise the item's value.
+ *
+ * @param {unknown} item - A content item.
+ * @returns {string} The matching key.
+ */
+function itemKey(item: unknown): string {
+  if (typeof item === "object" && item !== null && "id" in item) {
+    return `id:${JSON.stringify((item as { id: unknown }).id)}`;
+  }
+  return `value:${JSON.stringify(item)}`;
+}
+
+/**
+ * Computes the item-level difference between two array contents. Items are matched by
+ * their `id` (see {@link itemKey}); matched items whose value differs are reported as
+ * `changed`, unmatched items as `added` or `removed`. Duplicate items are matched one to one.
+ *
+ * @param {unknown[]} previous - The previous content.
+ * @param {unknown[]} current - The current content.
+ * @returns {ContentDiff} The added, removed and changed items.
+ */
+export function diffContent(
+  previous: unknown[],
+  current: unknown[],
+): ContentDiff {
+  const remaining = new Map<string, unknown[]>();
+  for (const item of previous) {
+    const key = itemKey(item);
+    remaining.set(key, [...(remaining.get(key) || []), item]);
+  }
+
+  const added: unknown[] = [];
+  const changed: ContentItemChange[] = [];
+  for (const item of current) {
+    const candidates = remaining.get(itemKey(item));
+    if (!candidates || candidates.length === 0) {
+      added.push(item);
+      continue;
+    }
+
+    const match = candidates.shift();
+    if (!isSameValue(match, item)) {
+      changed.push({ previous: match, current: item });
+    }
+  }
+
+  const removed = Array.from(remaining.values()).flat();
+
+  return { added, removed, changed };
+}
+
+/**
+ * Compares two states of the same component.
+ *
+ * @param {ScreenComponent} previous - The previous state.
+ * @param {ScreenComponent} current - The current state.
+ * @returns {ComponentChange | undefined} The change, or `undefined` if the states are equal.
+ */
+export function diffComponent(
+  previous: ScreenComponent,
+  current: ScreenComponent,
+): ComponentChange | undefined {
+  const fields = new Set([
+    ...Object.keys(previous),
+    ...Object.keys(current),
+  ]) as Set<keyof ScreenComponent>;
+
+  const changedFields = Array.from(fields).filter(
+    (field) => !isSameValue(previous[field], current[field]),
+  );
+  if (changedFields.length === 0) {
+    return undefined;
+  }
+
+  const change: ComponentChange = {
+    id: current.id,
+    component: current,
+    changedFields,
+  };
+  if (
+    changedFields.includes("content") &&
+    Array.isArray(previous.content) &&
+    Array.isArray(current.content)
+  ) {
+    change.contentDiff = diffContent(previous.content, current.content);
+  }
+
+  return change;
+}
+
+/**
+ * Computes the difference between two screen states, matching components by ID.
+ *
+ * @param {ScreenComponent[]} previous - The previous screen state.
+ * @param {ScreenComponent[]} current - The current screen state.
+ * @returns {{ added: ScreenComponent[]; removed: ScreenComponent[]; changed: ComponentChange[] }}
+ *          The components only present in `current`, only present in `previous`, and present
+ *          in both with a different state. Each list follows the order of its source state.
+ */
+export function diffScreens(
+  previous: ScreenComponent[],
+  current: ScreenComponent[],
+): {
+  added: ScreenComponent[];
+  removed: ScreenComponent[];
+  changed: ComponentChange[];
+} {
+  const previousById = new Map(
+    previous.map((component) => [component.id, component]),
+  );
+  const currentIds = new Set(current.map((component) => component.id));
+
+  const added: ScreenComponent[] = [];
+  const changed: ComponentChange[] = [];
+  for (const component of current) {
+    const before = previousById.get(component.id);
+    if (!before) {
+      added.push(component);
+      continue;
+    }
+
+    const change = diffComponent(before, component);
+    if (change) {
+      changed.push(change);
+    }
+  }
+
+  const removed = previous.filter((component) => !currentIds.has(component.id));
+
+  return { added, removed, changed };
+}
@@ -0,0 +1,127 @@
+/**
+ * @module core/ids
+ * @description Derives stable, human-readable IDs for components registered under generated IDs.
+ *
+ * IDs from React's `useId()` (e.g. `:r3:`) change across reloads and between server and client
+ * rendering, so they cannot be stored in tours or scripts. Components without an explicit ID are
+ * therefore also identified by the path of their names through the component tree, e.g.
+ * `todo-list/todo-item#2` for the second "Todo Item" in the "Todo List". Components with explicit
+ * IDs anchor the paths of their descendants. Used by {@link Registry.readScreen}.
+ */
+
+/**
+ * Separates the segments of a path-based ID.
+ */
+const PATH_SEPARATOR = "/";
+
+/**
+ * @interface StableIdNode
+ * @description The information about a component needed to derive its stable ID.
+ * @property {string} id - The registry ID of the component.
+ * @property {string} name - The name of the component.
+ * @property {boolean} [generatedId] - `true` if the registry ID is generated and must not be used as stable ID.
+ * @property {string[]} childIds - The IDs of the directly nested components, in document order.
+ */
+export interface StableIdNode {
+  id: string;
+  name: string;
+  generatedId?: boolean;
+  childIds: string[];
+}
+
+/**
+ * Converts a name into a path segment.
+ *
+ * @param {string} name - A component name, e.g. `"Todo Item: Learn about hlas"`.
+ * @returns {string} The lower-cased words of the name joined by `-`, e.g. `"todo-item-learn-about-hlas"`,
+ *                   or `"component"` if the name contains no letters or digits.
+ */
+export function slugify(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "component";
+}
+
+/**
+ * Builds the path-based ID of a component.
+ *
+ * @param {string} name - The name of the component.
+ * @param {string} [parentPath] - The stable ID of the closest enclosing component, if any.
+ * @param {number} [occurrence=1] - The position of the component among its preceding siblings with the
+ *                                  same name, starting at 1. Later occurrences get a `#n` suffix.
+ * @returns {string} The ID, e.g. `"todo-list/todo-item#2"`.
+ */
+export function deriveComponentId(
+  name: string,
+  parentPath?: string,
+  occurrence: number = 1,
+): string {
+  const segment =
+    occurrence > 1 ? `${slugify(name)}#${occurrence}` : slugify(name);
+  return parentPath ? `${parentPath}${PATH_SEPARATOR}${segment}` : segment;
+}
+
+/**
+ * Derives the stable IDs of a component tree. Components with explicit IDs keep them; the others
+ * get a path-based ID (see {@link deriveComponentId}), numbered among their siblings in document order.
+ *
+ * @param {string[]} rootIds - The IDs of the top-level components, in document order.
+ * @param {Map<string, StableIdNode>} nodes - The components, keyed by registry ID.
+ * @returns {Map<string, string>} The stable IDs, keyed by registry ID.
+ */
+export function deriveStableIds(
+  rootIds: string[],
+  nodes: Map<string, StableIdNode>,
+): Map<string, string> {
+  const stableIds = new Map<string, string>();
+
+  const visit = (ids: string[], parentPath?: string) => {
+    const occurrences = new Map<string, number>();
+
+    for (const id of ids) {
+      const node = nodes.get(id);
+      if (!node) continue;
+
+      let stableId = node.id;
+      if (node.generatedId) {
+        const slug = slugify(node.name);
+        const occurrence = (occurrences.get(slug) || 0) + 1;
+        occurrences.set(slug, occurrence);
+        stableId = deriveComponentId(node.name, parentPath, occurrence);
+      }
+
+      stableIds.set(id, stableId);
+      visit(node.childIds, stableId);
+    }
+  };
+
+  visit(rootIds);
+  return stableIds;
+}
+
+/**
+ * Finds components that end up with the same stable ID, e.g. a derived path that equals another
+ * component's explicit ID, or two derived paths that coincide (`todo-list/todo-item` below the
+ * explicit ID `todo-list` and below a component named "Todo List").
+ *
+ * @param {Map<string, string>} stableIds - The stable IDs, keyed by registry ID (see {@link deriveStableIds}).
+ * @returns {Map<string, string[]>} The registry IDs sharing each ambiguous stable ID.
+ */
+export function findStableIdCollisions(
+  stableIds: Map<string, string>,
+): Map<string, string[]> {
+  const idsByStableId = new Map<string, string[]>();
+  for (const [id, stableId] of stableIds) {
+    idsByStableId.set(stableId, [...(idsByStableId.get(stableId) || []), id]);
+  }
+
+  const collisions = new Map<string, string[]>();
+  for (const [stableId, ids] of idsByStableId) {
+    if (ids.length > 1) {
+      collisions.set(stableId, ids);
+    }
+  }
+  return collisions;
+}
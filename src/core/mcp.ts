@@ -0,0 +1,620 @@
+/**
+ * @module core/mcp
+ * @description Exposes the {@link Registry} to agents speaking the Model Context Protocol (MCP).
+ *
+ * An {@link McpBridge} answers MCP JSON-RPC requests in the page: the screen is published as the
+ * `hlas://screen` and `hlas://tree` resources, every registered component action is published as a
+ * tool (see {@link Registry.toToolDefinitions}), and two built-in tools focus and highlight components.
+ * Messages are exchanged through an {@link McpTransport}; transports for `postMessage` (frames,
+ * extensions, message ports) and WebSocket connections are included. The WebSocket transport is meant
+ * to connect to a local relay that forwards messages between the page and an MCP host; such a relay
+ * is not part of this package.
+ */
+
+import registry from "./registry";
+import { ExecutionResult, JsonSchema, RegistryView } from "./types";
+
+/**
+ * The MCP protocol version implemented by the bridge.
+ */
+export const MCP_PROTOCOL_VERSION = "2024-11-05";
+
+/**
+ * The URIs of the resources published by the bridge.
+ */
+const SCREEN_URI = "hlas://screen";
+const TREE_URI = "hlas://tree";
+
+/**
+ * The names of the built-in tools. Tools generated from component actions always contain `__`,
+ * so these names cannot collide with them.
+ */
+const FOCUS_TOOL = "hlas_focus";
+const HIGHLIGHT_TOOL = "hlas_highlight";
+
+/**
+ * Standard JSON-RPC error codes, and the MCP code for unknown resources.
+ */
+const JSON_RPC_ERRORS = {
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  resourceNotFound: -32002,
+};
+
+/**
+ * @interface JsonRpcMessage
+ * @description A JSON-RPC 2.0 request, notification (no `id`) or response (no `method`).
+ */
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * @interface McpTransport
+ * @description Carries JSON-RPC messages between the {@link McpBridge} and an MCP client.
+ * @property {(message: JsonRpcMessage) => void} send - Sends a message to the client.
+ * @property {(handler: (message: JsonRpcMessage) => void) => () => void} onMessage - Registers the handler for
+ *           messages from the client and returns a function that removes it.
+ * @property {() => void} [close] - Releases the underlying connection.
+ */
+export interface McpTransport {
+  send: (message: JsonRpcMessage) => void;
+  onMessage: (handler: (message: JsonRpcMessage) => void) => () => void;
+  close?: () => void;
+}
+
+/**
+ * @interface McpBridgeOptions
+ * @description Options accepted by {@link McpBridge}.
+ * @property {string} [name="hlas"] - The server name reported to clients.
+ * @property {string} [version="0.1.0"] - The server version reported to clients.
+ * @property {RegistryView} [session] - The session serving the client (see {@link HlasSession}): the client only
+ *                                      sees and calls what the session's scopes allow. Defaults to the unrestricted
+ *                                      registry.
+ */
+export interface McpBridgeOptions {
+  name?: string;
+  version?: string;
+  session?: RegistryView;
+}
+
+/**
+ * @interface PostMessageTransportOptions
+ * @description Options accepted by {@link createPostMessageTransport}.
+ * @property {Window | MessagePort} target - Where messages are sent: a window (e.g. the parent frame, or the
+ *                                           page's own window for browser extension content scripts) or a message port.
+ * @property {string} [targetOrigin] - The origin messages sent to a window are restricted to. Defaults to the
+ *                                      page's own origin (`location.origin`).
+ * @property {string} [allowedOrigin] - The origin messages received from a window must have; others are ignored.
+ *                                      Defaults to `targetOrigin`. `"*"` accepts every origin.
+ */
+export interface PostMessageTransportOptions {
+  target: Window | MessagePort;
+  targetOrigin?: string;
+  allowedOrigin?: string;
+}
+
+/**
+ * Checks whether a value is a JSON-RPC 2.0 message.
+ *
+ * @param {unknown} value - A received value.
+ * @returns {boolean} `true` if the value is an object with `jsonrpc: "2.0"`.
+ */
+function isJsonRpcMessage(value: unknown): value is JsonRpcMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as JsonRpcMessage).jsonrpc === "2.0"
+  );
+}
+
+/**
+ * Creates a transport exchanging messages through `postMessage`. Messages from a window are only
+ * handled if they come from the target window and the allowed origin, since the bridge lets them
+ * execute actions on the page.
+ *
+ * @param {PostMessageTransportOptions} options - The target and the origin restrictions.
+ * @returns {McpTransport} The transport.
+ */
+export function createPostMessageTransport(
+  options: PostMessageTransportOptions,
+): McpTransport {
+  const {
+    target,
+    targetOrigin = window.location.origin,
+    allowedOrigin = targetOrigin,
+  } = options;
+  const isPort =
+    typeof MessagePort !== "undefined" && target instanceof MessagePort;
+
+  return {
+    send: (message) => {
+      if (isPort) {
+        (target as MessagePort).postMessage(message);
+      } else {
+        (target as Window).postMessage(message, targetOrigin);
+      }
+    },
+    onMessage: (handler) => {
+      const listener = (event: MessageEvent) => {
+        // Any frame can post to this window: only accept messages from the target
+        if (!isPort) {
+          if (allowedOrigin !== "*" && event.origin !== allowedOrigin) return;
+          if (event.source !== target) return;
+        }
+        if (isJsonRpcMessage(event.data)) {
+          handler(event.data);
+        }
+      };
+
+      const source: Window | MessagePort = isPort
+        ? (target as MessagePort)
+        : window;
+      source.addEventListener("message", listener as EventListener);
+      if (isPort) {
+        (target as MessagePort).start();
+      }
+      return () =>
+        source.removeEventListener("message", listener as EventListener);
+    },
+    close: () => {
+      if (isPort) {
+        (target as MessagePort).close();
+      }
+    },
+  };
+}
+
+/**
+ * Creates a transport exchanging JSON-encoded messages over a WebSocket, e.g. with a local relay
+ * that forwards them to an MCP host. Messages sent before the connection opens are queued.
+ *
+ * @param {WebSocket | string} socket - An existing WebSocket, or the URL to connect to.
+ * @returns {McpTransport} The transport.
+ */
+export function createWebSocketTransport(
+  socket: WebSocket | string,
+): McpTransport {
+  const connection =
+    typeof socket === "string" ? new WebSocket(socket) : socket;
+  const queue: string[] = [];
+
+  connection.addEventListener("open", () => {
+    while (queue.length > 0) {
+      connection.send(queue.shift()!);
+    }
+  });
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (connection.readyState === WebSocket.OPEN) {
+        connection.send(data);
+      } else {
+        queue.push(data);
+      }
+    },
+    onMessage: (handler) => {
+      const listener = (event: MessageEvent) => {
+        let message: unknown;
+        try {
+          message = JSON.parse(String(event.data));
+        } catch {
+          console.error("Ignoring malformed MCP message:", event.data);
+          return;
+        }
+        if (isJsonRpcMessage(message)) {
+          handler(message);
+        }
+      };
+      connection.addEventListener("message", listener);
+      return () => connection.removeEventListener("message", listener);
+    },
+    close: () => connection.close(),
+  };
+}
+
+/**
+ * @class McpError
+ * @description A JSON-RPC error raised while handling a request and sent back as its `error`.
+ */
+class McpError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * @class McpBridge
+ * @description Serves the registry to an MCP client over a {@link McpTransport}.
+ *
+ * Supported methods: `initialize`, `ping`, `resources/list`, `resources/read`, `resources/subscribe`,
+ * `resources/unsubscribe`, `tools/list` and `tools/call`. While started, the bridge notifies the client with
+ * `notifications/tools/list_changed` when components are registered or unregistered, and with
+ * `notifications/resources/updated` when a subscribed resource changes. Notifications are coalesced
+ * so that a burst of changes (e.g. a page rendering) results in a single notification.
+ *
+ * @example
+ * ```typescript
+ * const bridge = new McpBridge(createWebSocketTransport("ws://localhost:8765"));
+ * bridge.start();
+ * ```
+ */
+export class McpBridge {
+  private transport: McpTransport;
+  private options: Required<Omit<McpBridgeOptions, "session">>;
+  private target: RegistryView;
+  private cleanups: Array<() => void> = [];
+  private subscriptions: Set<string> = new Set();
+  private pendingNotifications: Set<string> = new Set();
+  private flushScheduled: boolean = false;
+
+  /**
+   * @constructor
+   * @param {McpTransport} transport - The transport connecting to the client.
+   * @param {McpBridgeOptions} [options={}] - The server name and version reported to the client, and the session
+   *                                           serving it.
+   */
+  constructor(transport: McpTransport, options: McpBridgeOptions = {}) {
+    const { session = registry, ...info } = options;
+    this.transport = transport;
+    this.options = { name: "hlas", version: "0.1.0", ...info };
+    this.target = session;
+  }
+
+  /**
+   * Starts answering messages from the transport and forwarding registry changes to the client.
+   */
+  start(): void {
+    if (this.cleanups.length > 0) {
+      return;
+    }
+
+    this.cleanups.push(
+      this.transport.onMessage((message) => {
+        this.handleMessage(message).then((response) => {
+          if (response) {
+            this.transport.send(response);
+          }
+        });
+      }),
+      this.target.subscribe((event) => {
+        if (event.type === "register" || event.type === "unregister") {
+          this.notify("notifications/tools/list_changed");
+        }
+        if (
+          event.type === "register" ||
+          event.type === "unregister" ||
+          event.type === "contentChange"
+        ) {
+          this.notify(`notifications/resources/updated ${SCREEN_URI}`);
+          this.notify(`notifications/resources/updated ${TREE_URI}`);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Stops answering messages, stops forwarding registry changes and closes the transport.
+   */
+  stop(): void {
+    for (const cleanup of this.cleanups) {
+      cleanup();
+    }
+    this.cleanups = [];
+    this.subscriptions.clear();
+    this.pendingNotifications.clear();
+    this.transport.close?.();
+  }
+
+  /**
+   * Handles one message from the client.
+   *
+   * @param {JsonRpcMessage} message - The received message.
+   * @returns {Promise<JsonRpcMessage | undefined>} The response to a request, or `undefined` for
+   *                                                notifications and responses, which are not answered.
+   */
+  async handleMessage(
+    message: JsonRpcMessage,
+  ): Promise<JsonRpcMessage | undefined> {
+    const isRequest = message.id !== undefined && message.id !== null;
+    if (typeof message.method !== "string") {
+      return isRequest && message.result === undefined && !message.error
+        ? this.errorResponse(
+            message.id!,
+            JSON_RPC_ERRORS.invalidRequest,
+            "Missing method",
+          )
+        : undefined;
+    }
+    if (!isRequest) {
+      // Notifications such as notifications/initialized require no answer
+      return undefined;
+    }
+
+    try {
+      const result = await this.handleRequest(
+        message.method,
+        message.params || {},
+      );
+      return { jsonrpc: "2.0", id: message.id, result };
+    } catch (error) {
+      if (error instanceof McpError) {
+        return this.errorResponse(message.id!, error.code, error.message);
+      }
+      return this.errorResponse(
+        message.id!,
+        JSON_RPC_ERRORS.internalError,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  /**
+   * Computes the result of a request.
+   *
+   * @param {string} method - The requested method.
+   * @param {Record<string, unknown>} params - The request parameters.
+   * @returns {Promise<unknown>} The result.
+   * @throws {McpError} If the method is unknown or its parameters are invalid.
+   */
+  private async handleRequest(
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<unknown> {
+    switch (method) {
+      case "initialize":
+        return {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {
+            resources: { subscribe: true, listChanged: false },
+            tools: { listChanged: true },
+          },
+          serverInfo: {
+            name: this.options.name,
+            version: this.options.version,
+          },
+        };
+
+      case "ping":
+        return {};
+
+      case "resources/list":
+        return {
+          resources: [
+            {
+              uri: SCREEN_URI,
+              name: "Screen",
+              description:
+                "The registered UI components with their actions, content and visibility",
+              mimeType: "application/json",
+            },
+            {
+              uri: TREE_URI,
+              name: "Screen tree",
+              description:
+                "The registered UI components, nested by their containment in the page",
+              mimeType: "application/json",
+            },
+          ],
+        };
+
+      case "resources/read": {
+        const uri = this.requireUri(params);
+        const data =
+          uri === SCREEN_URI
+            ? this.target.readScreen()
+            : this.target.readTree();
+        return {
+          contents: [
+            { uri, mimeType: "application/json", text: JSON.stringify(data) },
+          ],
+        };
+      }
+
+      case "resources/subscribe":
+        this.subscriptions.add(this.requireUri(params));
+        return {};
+
+      case "resources/unsubscribe":
+        this.subscriptions.delete(this.requireUri(params));
+        return {};
+
+      case "tools/list":
+        return { tools: this.listTools() };
+
+      case "tools/call":
+        return this.callTool(params);
+
+      default:
+        throw new McpError(
+          JSON_RPC_ERRORS.methodNotFound,
+          `Method not found: ${method}`,
+        );
+    }
+  }
+
+  /**
+   * Reads the `uri` parameter of a resource request.
+   *
+   * @param {Record<string, unknown>} params - The request parameters.
+   * @returns {string} The URI of a published resource.
+   * @throws {McpError} If the URI does not denote a published resource.
+   */
+  private requireUri(params: Record<string, unknown>): string {
+    const { uri } = params;
+    if (uri !== SCREEN_URI && uri !== TREE_URI) {
+      throw new McpError(
+        JSON_RPC_ERRORS.resourceNotFound,
+        `Resource not found: ${String(uri)}`,
+      );
+    }
+    return uri;
+  }
+
+  /**
+   * Lists the built-in tools and the tools generated from component actions.
+   *
+   * @returns {Array<{ name: string; description: string; inputSchema: JsonSchema }>} The MCP tool list.
+   */
+  private listTools(): Array<{
+    name: string;
+    description: string;
+    inputSchema: JsonSchema;
+  }> {
+    const componentId: JsonSchema = {
+      type: "string",
+      description: `The ID of the component, as listed in ${SCREEN_URI}`,
+    };
+
+    return [
+      {
+        name: FOCUS_TOOL,
+        description: "Moves the keyboard focus to a component.",
+        inputSchema: {
+          type: "object",
+          properties: { componentId },
+          required: ["componentId"],
+          additionalProperties: false,
+        },
+      },
+      {
+        name: HIGHLIGHT_TOOL,
+        description:
+          "Visually highlights a component to draw the user's attention to it, with an optional popover.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            componentId,
+            durationMs: {
+              type: "number",
+              description: "How long the highlight stays visible",
+              default: 2000,
+            },
+            title: { type: "string", description: "The popover title" },
+            description: {
+              type: "string",
+              description: "The popover text",
+            },
+          },
+          required: ["componentId"],
+          additionalProperties: false,
+        },
+      },
+      ...this.target.toToolDefinitions().map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.parameters,
+      })),
+    ];
+  }
+
+  /**
+   * Runs a tool and reports its execution result as text content.
+   *
+   * @param {Record<string, unknown>} params - The `tools/call` parameters (`name` and `arguments`).
+   * @returns {Promise<{ content: Array<{ type: "text"; text: string }>; isError: boolean }>} The MCP tool result.
+   * @throws {McpError} If no tool name is given.
+   */
+  private async callTool(params: Record<string, unknown>): Promise<{
+    content: Array<{ type: "text"; text: string }>;
+    isError: boolean;
+  }> {
+    const { name } = params;
+    const args = (params.arguments || {}) as Record<string, unknown>;
+    if (typeof name !== "string") {
+      throw new McpError(JSON_RPC_ERRORS.invalidParams, "Missing tool name");
+    }
+
+    let result: ExecutionResult;
+    if (name === FOCUS_TOOL || name === HIGHLIGHT_TOOL) {
+      const startedAt = performance.now();
+      const componentId = String(args.componentId);
+      const found =
+        name === FOCUS_TOOL
+          ? this.target.focus(componentId)
+          : this.target.highlight(
+              componentId,
+              args.durationMs === undefined
+                ? undefined
+                : Number(args.durationMs),
+              args.title === undefined ? undefined : String(args.title),
+              args.description === undefined
+                ? undefined
+                : String(args.description),
+            );
+      result = found
+        ? { status: "success", durationMs: performance.now() - startedAt }
+        : {
+            status: "not_found",
+            error: `Component with ID ${componentId} not found`,
+            durationMs: performance.now() - startedAt,
+          };
+    } else {
+      result = await this.target.dispatchToolCall({ name, arguments: args });
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result) }],
+      isError: result.status !== "success",
+    };
+  }
+
+  /**
+   * Queues a notification and schedules sending the queued notifications. Resource updates are
+   * only sent for subscribed resources. Keys have the form `method` or `method uri`.
+   *
+   * @param {string} key - The notification to queue.
+   */
+  private notify(key: string): void {
+    this.pendingNotifications.add(key);
+    if (this.flushScheduled) {
+      return;
+    }
+
+    this.flushScheduled = true;
+    setTimeout(() => {
+      this.flushScheduled = false;
+      const keys = Array.from(this.pendingNotifications);
+      this.pendingNotifications.clear();
+      if (this.cleanups.length === 0) {
+        return;
+      }
+
+      for (const pending of keys) {
+        const [method, uri] = pending.split(" ");
+        if (uri === undefined) {
+          this.transport.send({ jsonrpc: "2.0", method });
+        } else if (this.subscriptions.has(uri)) {
+          this.transport.send({ jsonrpc: "2.0", method, params: { uri } });
+        }
+      }
+    }, 0);
+  }
+
+  /**
+   * Builds an error response.
+   *
+   * @param {string | number} id - The ID of the failed request.
+   * @param {number} code - The JSON-RPC error code.
+   * @param {string} message - The error message.
+   * @returns {JsonRpcMessage} The response.
+   */
+  private errorResponse(
+    id: string | number,
+    code: number,
+    message: string,
+  ): JsonRpcMessage {
+    return { jsonrpc: "2.0", id, error: { code, message } };
+  }
+}
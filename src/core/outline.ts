@@ -0,0 +1,113 @@
+/**
+ * @module core/outline
+ * @description Renders the registered components as an indented outline, similar to a browser
+ * accessibility snapshot, which language models read more reliably than raw JSON.
+ *
+ * Each component becomes one line with its role (the lower-cased `data-hlas-component` type, e.g.
+ * `list`, `listitem`, `button`), its name and a short ref (`e1`, `e2`, …) that can be passed to
+ * `execute`, `focus` and `highlight` in place of the component ID. Its description, actions and a
+ * summary of its content follow as nested properties, and nested components are indented below it.
+ * Used by {@link Registry.readScreen} with `{ format: "outline" }`.
+ */
+
+import { formatAction } from "./serializer";
+import { ScreenTreeNode } from "./types";
+
+/**
+ * The number of characters after which content summaries are cut.
+ */
+const MAX_SUMMARY_LENGTH = 80;
+
+/**
+ * The number of array items quoted in content summaries.
+ */
+const MAX_SUMMARY_ITEMS = 3;
+
+/**
+ * Cuts a text to {@link MAX_SUMMARY_LENGTH} characters.
+ *
+ * @param {string} text - The text to cut.
+ * @returns {string} The text, ending with `…` if it was cut.
+ */
+function clip(text: string): string {
+  return text.length > MAX_SUMMARY_LENGTH
+    ? `${text.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Summarizes the content of a component on one line: the item count and the first items of
+ * arrays, the quoted text of strings, and compact JSON for anything else.
+ *
+ * @param {unknown} content - The content of the component.
+ * @returns {string} The summary.
+ */
+export function summarizeContent(content: unknown): string {
+  if (Array.isArray(content)) {
+    const count = `${content.length} ${content.length === 1 ? "item" : "items"}`;
+    if (content.length === 0) return count;
+
+    const shown = content
+      .slice(0, MAX_SUMMARY_ITEMS)
+      .map((item) => JSON.stringify(item));
+    const more = content.length > MAX_SUMMARY_ITEMS ? ", …" : "";
+    return clip(`${count}: ${shown.join(", ")}${more}`);
+  }
+  return clip(JSON.stringify(content));
+}
+
+/**
+ * Renders component trees as an indented outline.
+ *
+ * @param {ScreenTreeNode[]} nodes - The top-level components, e.g. from `readTree()`.
+ * @param {(id: string) => string} refFor - Provides the short ref of a component.
+ * @param {boolean} [onlyVisible=false] - If `true`, components that are not visible are left out;
+ *                                        their visible descendants move up to their level.
+ * @returns {string} The outline, one line per component or property.
+ *
+ * @example
+ * ```text
+ * - list "Todo List" [ref=e1]
+ *   - description: All todos
+ *   - content: 2 items: {"text":"Learn about hlas"}, {"text":"Build a demo"}
+ *   - listitem "Todo Item" [ref=e2]
+ *     - actions: toggle(), delete()
+ * ```
+ */
+export function renderOutline(
+  nodes: ScreenTreeNode[],
+  refFor: (id: string) => string,
+  onlyVisible: boolean = false,
+): string {
+  const lines: string[] = [];
+
+  const visit = (node: ScreenTreeNode, depth: number) => {
+    if (onlyVisible && node.visible === false) {
+      node.children.forEach((child) => visit(child, depth));
+      return;
+    }
+
+    const indent = "  ".repeat(depth);
+    const role = node.type ? node.type.toLowerCase() : "generic";
+    let line = `${indent}- ${role} ${JSON.stringify(node.name)} [ref=${refFor(node.id)}]`;
+    if (node.visible === false) line += " [hidden]";
+    lines.push(line);
+
+    if (node.description) {
+      lines.push(`${indent}  - description: ${node.description}`);
+    }
+    if (node.actions.length > 0) {
+      lines.push(
+        `${indent}  - actions: ${node.actions.map(formatAction).join(", ")}`,
+      );
+    }
+    if (node.content !== undefined) {
+      lines.push(`${indent}  - content: ${summarizeContent(node.content)}`);
+    }
+
+    node.children.forEach((child) => visit(child, depth + 1));
+  };
+
+  nodes.forEach((node) => visit(node, 0));
+  return lines.join("\n");
+}
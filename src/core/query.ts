@@ -0,0 +1,249 @@
+/**
+ * @module core/query
+ * @description Evaluates the structured {@link ComponentQuery} objects accepted by
+ * {@link Registry.find}. Plain string queries are interpreted as `{ text: query }`, which
+ * keeps the original substring search on names and descriptions while ranking the results.
+ */
+
+import { ComponentEntry, ComponentQuery, TextMatcher } from "./types";
+
+/**
+ * @interface QueryContext
+ * @description Accessors for component state that is not part of a {@link ComponentEntry}
+ * and is only read when a query needs it.
+ * @property {(component: ComponentEntry) => boolean} isVisible - Whether the component is currently visible.
+ * @property {(component: ComponentEntry) => unknown} readContent - The parsed content of the component.
+ */
+export interface QueryContext {
+  isVisible: (component: ComponentEntry) => boolean;
+  readContent: (component: ComponentEntry) => unknown;
+}
+
+/**
+ * Normalizes the argument of `find()` into a {@link ComponentQuery}.
+ *
+ * @param {string | ComponentQuery} query - A search string or a structured query.
+ * @returns {ComponentQuery} The structured query.
+ */
+export function normalizeQuery(query: string | ComponentQuery): ComponentQuery {
+  return typeof query === "string" ? { text: query } : query;
+}
+
+/**
+ * Tests a value against a {@link TextMatcher}. Strings are compared ignoring case, either
+ * for equality or containment; regular expressions are tested as they are.
+ *
+ * @param {string | undefined} value - The value to test. A missing value never matches.
+ * @param {TextMatcher} matcher - The string or regular expression to test against.
+ * @param {boolean} exact - Whether a string matcher must equal the value rather than be contained in it.
+ * @returns {boolean} `true` if the value matches.
+ */
+function matchesText(
+  value: string | undefined,
+  matcher: TextMatcher,
+  exact: boolean,
+): boolean {
+  if (value === undefined) {
+    return false;
+  }
+
+  if (matcher instanceof RegExp) {
+    // Reset the position of global/sticky expressions so repeated tests are independent
+    matcher.lastIndex = 0;
+    return matcher.test(value);
+  }
+
+  const normalizedValue = value.trim().toLowerCase();
+  const normalizedMatcher = matcher.trim().toLowerCase();
+  return exact
+    ? normalizedValue === normalizedMatcher
+    : normalizedValue.includes(normalizedMatcher);
+}
+
+/**
+ * Converts a single value or a list of values into a list.
+ *
+ * @param {T | T[]} value - The value or values.
+ * @returns {T[]} The values as a list.
+ */
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Scores how well a component matches the `text` of a query: `4` for an exact name,
+ * `3` for a name starting with the text, `2` for a name containing it and `1` for a
+ * description containing it. Queries without `text`, or with a regular expression, score `1`
+ * for every match.
+ *
+ * @param {ComponentEntry} component - A component matching the query.
+ * @param {ComponentQuery} query - The query.
+ * @returns {number} The relevance of the component.
+ */
+function scoreText(component: ComponentEntry, query: ComponentQuery): number {
+  if (typeof query.text !== "string") {
+    return 1;
+  }
+
+  const text = query.text.trim().toLowerCase();
+  const name = component.name.trim().toLowerCase();
+  if (name === text) return 4;
+  if (name.startsWith(text)) return 3;
+  if (name.includes(text)) return 2;
+  return 1;
+}
+
+/**
+ * Checks whether a component satisfies every criterion of a query.
+ *
+ * @param {ComponentEntry} component - The component to test.
+ * @param {ComponentQuery} query - The query.
+ * @param {ComponentEntry[] | undefined} ancestors - The components matching the query's `within`
+ *                                                  criterion, if it has one.
+ * @param {QueryContext} context - Accessors for visibility and content.
+ * @returns {boolean} `true` if all given criteria match.
+ */
+function matchesQuery(
+  component: ComponentEntry,
+  query: ComponentQuery,
+  ancestors: ComponentEntry[] | undefined,
+  context: QueryContext,
+): boolean {
+  if (
+    query.name !== undefined &&
+    !matchesText(component.name, query.name, true)
+  ) {
+    return false;
+  }
+
+  if (
+    query.description !== undefined &&
+    !matchesText(component.description, query.description, false)
+  ) {
+    return false;
+  }
+
+  if (
+    query.text !== undefined &&
+    !matchesText(component.name, query.text, false) &&
+    !matchesText(component.description, query.text, false)
+  ) {
+    return false;
+  }
+
+  if (query.type !== undefined) {
+    const type =
+      component.element.getAttribute("data-hlas-component") || undefined;
+    if (
+      !toList(query.type).some((expected) => matchesText(type, expected, true))
+    ) {
+      return false;
+    }
+  }
+
+  if (query.hasAction !== undefined) {
+    const actionIds = component.actions.map((action) => action.id);
+    if (
+      !toList(query.hasAction).every((actionId) => actionIds.includes(actionId))
+    ) {
+      return false;
+    }
+  }
+
+  if (query.content !== undefined) {
+    const content = context.readContent(component);
+    if (typeof query.content === "function") {
+      if (!query.content(content)) {
+        return false;
+      }
+    } else {
+      const serialized =
+        content === undefined
+          ? undefined
+          : typeof content === "string"
+            ? content
+            : JSON.stringify(content);
+      if (!matchesText(serialized, query.content, false)) {
+        return false;
+      }
+    }
+  }
+
+  if (ancestors) {
+    const isContained = ancestors.some(
+      (ancestor) =>
+        ancestor.element !== component.element &&
+        ancestor.element.contains(component.element),
+    );
+    if (!isContained) {
+      return false;
+    }
+  }
+
+  if (
+    query.visible !== undefined &&
+    context.isVisible(component) !== query.visible
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Returns the components that satisfy every criterion of a query, in their original order.
+ *
+ * @param {ComponentEntry[]} components - The components to search.
+ * @param {ComponentQuery} query - The query.
+ * @param {QueryContext} context - Accessors for visibility and content.
+ * @returns {ComponentEntry[]} The matching components.
+ */
+function filterComponents(
+  components: ComponentEntry[],
+  query: ComponentQuery,
+  context: QueryContext,
+): ComponentEntry[] {
+  const { within } = query;
+  const ancestors =
+    within === undefined
+      ? undefined
+      : typeof within === "string"
+        ? components.filter((candidate) => candidate.id === within)
+        : filterComponents(components, within, context);
+
+  return components.filter((component) =>
+    matchesQuery(component, query, ancestors, context),
+  );
+}
+
+/**
+ * Finds the components matching a query and ranks them: by relevance to the query's `text`
+ * (see {@link scoreText}), then visible components before hidden ones, then in their original order.
+ *
+ * @param {ComponentEntry[]} components - The components to search.
+ * @param {string | ComponentQuery} query - A search string or a structured query.
+ * @param {QueryContext} context - Accessors for visibility and content.
+ * @returns {ComponentEntry[]} The matching components, best match first.
+ */
+export function queryComponents(
+  components: ComponentEntry[],
+  query: string | ComponentQuery,
+  context: QueryContext,
+): ComponentEntry[] {
+  const normalized = normalizeQuery(query);
+
+  return filterComponents(components, normalized, context)
+    .map((component, index) => ({
+      component,
+      index,
+      score: scoreText(component, normalized),
+      visible: context.isVisible(component),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(b.visible) - Number(a.visible) ||
+        a.index - b.index,
+    )
+    .map(({ component }) => component);
+}
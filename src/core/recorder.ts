@@ -0,0 +1,362 @@
+/**
+ * @module core/recorder
+ * @description Records the actions executed through the registry into a portable script, and
+ * replays such scripts later, e.g. for regression tests or demo automation.
+ *
+ * Scripts refer to components by their stable ID (see {@link ScreenComponent.stableId}): the ID
+ * chosen with `hlasId` or the `id` option, or else the path of names such as `todo-list/todo-item#2`.
+ * Unlike the IDs generated by `useId()`, these survive reloads, so a script recorded in one session
+ * can be replayed in another. Replaying waits for each target to be registered before executing.
+ */
+
+import registry from "./registry";
+import {
+  BeforeExecuteEvent,
+  ExecutionResult,
+  ScreenComponent,
+  UndoEvent,
+} from "./types";
+
+/**
+ * The version of the script format written by {@link Recorder} and read by {@link replayScript}.
+ */
+export const SCRIPT_VERSION = 1;
+
+/**
+ * @interface ScriptComponent
+ * @description A component in the screen state recorded around a {@link ScriptStep}.
+ * @property {string} target - The stable ID of the component.
+ * @property {string} name - The name of the component.
+ * @property {string} [type] - The component type (`data-hlas-component`).
+ * @property {boolean} [visible] - Whether the component was visible.
+ * @property {unknown} [content] - The content of the component (`data-hlas-content`).
+ */
+export interface ScriptComponent {
+  target: string;
+  name: string;
+  type?: string;
+  visible?: boolean;
+  content?: unknown;
+}
+
+/**
+ * @interface ScriptStep
+ * @description An action executed while recording.
+ * @property {string} target - The stable ID of the component the action was executed on.
+ * @property {string} name - The name of the component, for readers of the script.
+ * @property {string} actionId - The executed (or undone) action.
+ * @property {Record<string, unknown>} params - The parameters the action received.
+ * @property {number} atMs - When the action was executed, in milliseconds after the recording started.
+ * @property {boolean} [undo] - `true` if the action was undone rather than executed (see {@link Registry.undo}).
+ * @property {ScriptComponent[]} [before] - The screen right before the action was dispatched or undone.
+ * @property {ScriptComponent[]} [after] - The screen once the action had been handled.
+ */
+export interface ScriptStep {
+  target: string;
+  name: string;
+  actionId: string;
+  params: Record<string, unknown>;
+  atMs: number;
+  undo?: boolean;
+  before?: ScriptComponent[];
+  after?: ScriptComponent[];
+}
+
+/**
+ * @interface InteractionScript
+ * @description A recorded sequence of actions, as produced by {@link Recorder.stop}. Plain JSON, so it
+ * can be saved to a file and replayed with {@link replayScript}.
+ * @property {number} version - The format version ({@link SCRIPT_VERSION}).
+ * @property {string} recordedAt - When the recording started, as an ISO 8601 timestamp.
+ * @property {ScriptStep[]} steps - The executed actions, in order.
+ */
+export interface InteractionScript {
+  version: number;
+  recordedAt: string;
+  steps: ScriptStep[];
+}
+
+/**
+ * @interface RecorderOptions
+ * @description Options for a {@link Recorder}.
+ * @property {boolean} [captureScreens=true] - Whether to record the screen before and after each action.
+ */
+export interface RecorderOptions {
+  captureScreens?: boolean;
+}
+
+/**
+ * @interface ReplayOptions
+ * @description Options for {@link replayScript}.
+ * @property {number} [timeoutMs=5000] - How long to wait for each step's target to be registered.
+ * @property {number} [delayMs=0] - A pause between steps, e.g. to follow a demo.
+ * @property {boolean} [stopOnError=true] - Whether to stop at the first step that does not succeed.
+ * @property {(result: ReplayStepResult) => void} [onStep] - Called after each step.
+ */
+export interface ReplayOptions {
+  timeoutMs?: number;
+  delayMs?: number;
+  stopOnError?: boolean;
+  onStep?: (result: ReplayStepResult) => void;
+}
+
+/**
+ * @interface ReplayStepResult
+ * @description The outcome of replaying one {@link ScriptStep}: its {@link ExecutionResult}, or
+ * `"not_found"` if the target did not appear in time.
+ * @property {number} index - The position of the step in the script.
+ * @property {ScriptStep} step - The replayed step.
+ */
+export interface ReplayStepResult extends ExecutionResult {
+  index: number;
+  step: ScriptStep;
+}
+
+/**
+ * @interface ReplayResult
+ * @description The outcome of {@link replayScript}.
+ * @property {"completed" | "failed"} status - `completed` if every step succeeded.
+ * @property {ReplayStepResult[]} steps - The results of the replayed steps, in order.
+ * @property {string} [error] - Why the script could not be replayed at all.
+ */
+export interface ReplayResult {
+  status: "completed" | "failed";
+  steps: ReplayStepResult[];
+  error?: string;
+}
+
+/**
+ * Converts the screen into the portable form used by scripts.
+ *
+ * @param {ScreenComponent[]} [screen] - The screen, as returned by `readScreen()`. Read if not given.
+ * @returns {ScriptComponent[]} The components, identified by their stable IDs.
+ */
+function captureScreen(
+  screen: ScreenComponent[] = registry.readScreen(),
+): ScriptComponent[] {
+  return screen.map((component) => {
+    const entry: ScriptComponent = {
+      target: component.stableId || component.id,
+      name: component.name,
+      visible: component.visible,
+    };
+    if (component.type !== undefined) entry.type = component.type;
+    if (component.content !== undefined) entry.content = component.content;
+    return entry;
+  });
+}
+
+/**
+ * Checks whether a component is registered under a stable ID.
+ *
+ * @param {string} target - The stable ID.
+ * @returns {boolean} `true` if a registered component has the stable ID.
+ */
+function isTargetRegistered(target: string): boolean {
+  return registry
+    .readScreen()
+    .some((component) => component.stableId === target);
+}
+
+/**
+ * Waits until a component is registered under a stable ID (see {@link Registry.waitUntil}).
+ *
+ * @param {string} target - The stable ID.
+ * @param {number} timeoutMs - How long to wait.
+ * @returns {Promise<boolean>} Resolves to `true` once the component is registered, or `false` after the timeout.
+ */
+async function waitForTarget(
+  target: string,
+  timeoutMs: number,
+): Promise<boolean> {
+  const registered = await registry.waitUntil(
+    () => isTargetRegistered(target),
+    { timeout: timeoutMs },
+  );
+  return registered === true;
+}
+
+/**
+ * @class Recorder
+ * @description Records the actions dispatched through the registry (by `execute`, `executeAsync`,
+ * tool calls or commands) into an {@link InteractionScript}. Calls to `undo()` are recorded as steps
+ * with `undo: true`; a `redo()` is recorded as the action it executes again.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new Recorder();
+ * recorder.start();
+ * // ...interact through window.hlas or an agent...
+ * const script = recorder.stop();
+ * localStorage.setItem("add-todo", JSON.stringify(script));
+ * ```
+ */
+export class Recorder {
+  private options: RecorderOptions;
+  private steps: ScriptStep[] = [];
+  private startedAt: number = 0;
+  private recordedAt: string = "";
+  private unsubscribe: (() => void) | undefined;
+  private pendingStep: ScriptStep | undefined;
+  private pendingTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @constructor
+   * @param {RecorderOptions} [options={}] - Whether to record the screen around each action.
+   */
+  constructor(options: RecorderOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Whether the recorder is currently recording.
+   *
+   * @returns {boolean} `true` between {@link Recorder.start} and {@link Recorder.stop}.
+   */
+  isRecording(): boolean {
+    return this.unsubscribe !== undefined;
+  }
+
+  /**
+   * Starts a new recording, discarding the steps of a previous one.
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.steps = [];
+    this.startedAt = performance.now();
+    this.recordedAt = new Date().toISOString();
+    this.unsubscribe = registry.subscribe((event) => {
+      // Recorded before the action is dispatched, so that `before` shows the screen it was chosen on
+      if (event.type === "beforeExecute" || event.type === "undo") {
+        this.recordStep(event);
+      }
+    });
+  }
+
+  /**
+   * Stops recording.
+   *
+   * @returns {InteractionScript} The recorded script.
+   */
+  stop(): InteractionScript {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.completePendingStep();
+
+    return {
+      version: SCRIPT_VERSION,
+      recordedAt: this.recordedAt,
+      steps: this.steps,
+    };
+  }
+
+  /**
+   * Records an action that is about to be dispatched or undone.
+   *
+   * @param {BeforeExecuteEvent | UndoEvent} event - The action.
+   */
+  private recordStep(event: BeforeExecuteEvent | UndoEvent): void {
+    this.completePendingStep();
+
+    const captureScreens = this.options.captureScreens ?? true;
+    const screen = registry.readScreen();
+    const target = screen.find((component) => component.id === event.id);
+
+    const step: ScriptStep = {
+      target: target?.stableId || event.id,
+      name: target?.name || event.id,
+      actionId: event.actionId,
+      params: event.params,
+      atMs: Math.round(performance.now() - this.startedAt),
+    };
+    if (event.type === "undo") step.undo = true;
+    if (captureScreens) step.before = captureScreen(screen);
+    this.steps.push(step);
+
+    if (captureScreens) {
+      // The action's effects are rendered after it has been handled
+      this.pendingStep = step;
+      this.pendingTimer = setTimeout(() => this.completePendingStep(), 0);
+    }
+  }
+
+  /**
+   * Records the screen after the most recent action, if that has not happened yet.
+   */
+  private completePendingStep(): void {
+    if (!this.pendingStep) return;
+
+    clearTimeout(this.pendingTimer);
+    this.pendingStep.after = captureScreen();
+    this.pendingStep = undefined;
+    this.pendingTimer = undefined;
+  }
+}
+
+/**
+ * Replays a recorded script: for each step, waits for its target to be registered, then executes
+ * the action through {@link Registry.executeAsync}, which accepts the stable ID in place of the
+ * component ID. Steps with `undo: true` call {@link Registry.undo} instead.
+ *
+ * @param {InteractionScript} script - The script, as produced by {@link Recorder.stop}.
+ * @param {ReplayOptions} [options={}] - The wait timeout, the pause between steps and error handling.
+ * @returns {Promise<ReplayResult>} Resolves (never rejects) with the result of each replayed step.
+ *
+ * @example
+ * ```typescript
+ * const { status, steps } = await replayScript(JSON.parse(localStorage.getItem("add-todo")!));
+ * ```
+ */
+export async function replayScript(
+  script: InteractionScript,
+  options: ReplayOptions = {},
+): Promise<ReplayResult> {
+  const { timeoutMs = 5000, delayMs = 0, stopOnError = true, onStep } = options;
+
+  if (script.version !== SCRIPT_VERSION) {
+    const error = `Unsupported script version ${script.version}`;
+    console.error(error);
+    return { status: "failed", steps: [], error };
+  }
+
+  const results: ReplayStepResult[] = [];
+  for (const [index, step] of script.steps.entries()) {
+    if (index > 0 && delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    const startedAt = performance.now();
+    let execution: ExecutionResult;
+    if (step.undo) {
+      execution = await registry.undo();
+    } else if (await waitForTarget(step.target, timeoutMs)) {
+      execution = await registry.executeAsync(
+        step.target,
+        step.actionId,
+        step.params,
+      );
+    } else {
+      execution = {
+        status: "not_found",
+        error: `Timed out after ${timeoutMs}ms waiting for component ${step.target}`,
+        durationMs: performance.now() - startedAt,
+      };
+    }
+
+    const result: ReplayStepResult = { index, step, ...execution };
+    results.push(result);
+    onStep?.(result);
+
+    if (result.status !== "success" && stopOnError) {
+      break;
+    }
+  }
+
+  const completed =
+    results.length === script.steps.length &&
+    results.every((result) => result.status === "success");
+  return { status: completed ? "completed" : "failed", steps: results };
+}
@@ -5,7 +5,69 @@
  * highlighting components and orchestrating guided tours using `driver.js`.
  */
 
-import { ActionSchema, ComponentEntry, ScreenComponent } from "./types";
+import {
+  ActionSchema,
+  BatchOptions,
+  BatchResult,
+  BatchStep,
+  BatchStepResult,
+  ComponentEntry,
+  ComponentMatch,
+  ComponentQuery,
+  ConfirmationHandler,
+  ExecuteEventDetail,
+  ExecutionResult,
+  FindBestOptions,
+  HlasSession,
+  ReadScreenOptions,
+  RegisterOptions,
+  RegistryDiagnostic,
+  RegistryEvent,
+  RegistryEventType,
+  RegistryListener,
+  Scope,
+  ScreenComponent,
+  ScreenDiff,
+  ScreenSnapshot,
+  ScreenTreeNode,
+  SerializedScreen,
+  SerializeScreenOptions,
+  SessionOptions,
+  ToolCall,
+  ToolCallResult,
+  ToolDefinition,
+  ToolDefinitionFormats,
+  ToolDefinitionOptions,
+  ToolFormat,
+  UndoFunction,
+  WaitOptions,
+} from "./types";
+import {
+  VisibilityTracker,
+  findOpenModals,
+  isElementVisible,
+} from "./visibility";
+import { validateParameters } from "./validation";
+import { diffScreens, isSameValue } from "./diff";
+import { queryComponents } from "./query";
+import { rankBySimilarity } from "./similarity";
+import { serializeComponents } from "./serializer";
+import { renderOutline } from "./outline";
+import { deriveStableIds, findStableIdCollisions, StableIdNode } from "./ids";
+import { confirmWithDialog, needsConfirmation } from "./confirm";
+import {
+  AuditEntry,
+  AuditLog,
+  AuditOperation,
+  AuditOutcome,
+  AuditQuery,
+} from "./audit";
+import {
+  buildToolDefinitions,
+  findAmbiguousToolNames,
+  formatToolDefinition,
+  parseToolCall,
+} from "./tools";
 import { driver } from "driver.js";
 import "driver.js/dist/driver.css";
 
@@ -27,7 +89,7 @@ import "driver.js/dist/driver.css";
  * @see window.hlas.startTour
  * @see Registry.startTour
  */
-interface TourStep {
+export interface TourStep {
   id: string;
   title?: string;
   description?: string;
@@ -35,6 +97,118 @@ interface TourStep {
   align?: "start" | "center" | "end";
 }
 
+/**
+ * The number of snapshots retained by {@link Registry.snapshot}. Diffs from older versions
+ * are answered with the complete screen (see {@link ScreenDiff.reset}).
+ */
+const MAX_SNAPSHOTS = 50;
+
+/**
+ * The number of actions that can be undone with {@link Registry.undo}. Older actions are forgotten.
+ */
+const MAX_UNDO_ENTRIES = 100;
+
+/**
+ * How long {@link Registry.waitUntil} and the methods built on it wait by default, in milliseconds.
+ */
+const DEFAULT_WAIT_TIMEOUT_MS = 5000;
+
+/**
+ * @interface UndoEntry
+ * @description An undoable action on the undo or redo stack of the {@link Registry}.
+ * @property {string} componentId - The component the action was executed on.
+ * @property {ComponentEntry} component - The component as it was when the action ran, to check the caller's
+ *                                        scopes and ask for confirmation after it was unregistered.
+ * @property {ComponentEntry} owner - The entry declaring the action (see {@link Registry.resolveActionOwner}).
+ * @property {string} actionId - The executed action.
+ * @property {Record<string, unknown>} params - The parameters of the action, to redo it.
+ * @property {UndoFunction} undo - Reverts the action.
+ * @property {boolean} [undone] - `true` once the action was reverted, so that it is not reverted twice.
+ */
+interface UndoEntry {
+  componentId: string;
+  component: ComponentEntry;
+  owner: ComponentEntry;
+  actionId: string;
+  params: Record<string, unknown>;
+  undo: UndoFunction;
+  undone?: boolean;
+}
+
+/**
+ * Collects the words of a component's content for similarity matching: strings and numbers,
+ * including those nested in arrays and objects. Object keys are left out.
+ *
+ * @param {unknown} content - The parsed content of a component.
+ * @returns {string} The words of the content, separated by spaces.
+ */
+function contentText(content: unknown): string {
+  if (typeof content === "string" || typeof content === "number") {
+    return String(content);
+  }
+  if (Array.isArray(content)) {
+    return content.map(contentText).join(" ");
+  }
+  if (typeof content === "object" && content !== null) {
+    return Object.values(content).map(contentText).join(" ");
+  }
+  return "";
+}
+
+/**
+ * Orders two elements by their position in the document. Elements that are not
+ * in the same tree keep their relative order (the comparison returns `0`).
+ *
+ * @param {HTMLElement} a - The first element.
+ * @param {HTMLElement} b - The second element.
+ * @returns {number} A negative number if `a` precedes `b`, a positive number if it follows, `0` otherwise.
+ */
+function compareDocumentOrder(a: HTMLElement, b: HTMLElement): number {
+  if (a === b) return 0;
+  const position = a.compareDocumentPosition(b);
+  if (position & Node.DOCUMENT_POSITION_DISCONNECTED) return 0;
+  if (position & Node.DOCUMENT_POSITION_FOLLOWING) return -1;
+  if (position & Node.DOCUMENT_POSITION_PRECEDING) return 1;
+  return 0;
+}
+
+/**
+ * Parses the value of a `data-hlas-content` attribute. JSON values are parsed, anything else
+ * is returned as the raw string.
+ *
+ * @param {string | null} value - The attribute value.
+ * @returns {unknown} The parsed content, or `undefined` if the attribute is absent or empty.
+ */
+function parseContent(value: string | null): unknown {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Waits until React has committed the state updates made by an action handler and run the effects
+ * that re-bind the component's handlers: the next animation frame, then the end of its task.
+ * Outside of a browser, only the end of the current task is awaited.
+ *
+ * @returns {Promise<void>} Resolves once the updates have been rendered.
+ */
+function waitForCommit(): Promise<void> {
+  return new Promise((resolve) => {
+    const afterTask = () => setTimeout(resolve, 0);
+    if (typeof requestAnimationFrame === "function") {
+      requestAnimationFrame(afterTask);
+    } else {
+      afterTask();
+    }
+  });
+}
+
 /**
  * @class Registry
  * @description Manages a collection of UI components, their metadata (name, description, actions),
@@ -50,12 +224,59 @@ interface TourStep {
  * @property {ReturnType<typeof driver> | undefined} highlightDriverInstance - Private instance of `driver.js`
  *                                                                            used for highlighting individual components.
  * @property {boolean} activeTour - Private flag indicating if a tour is currently active.
+ * @property {VisibilityTracker} visibility - Private tracker of the viewport intersection of registered elements.
+ * @property {Set<RegistryListener>} listeners - Private set of subscribers notified of registry changes.
+ * @property {MutationObserver | undefined} contentObserver - Private observer reporting changes of the
+ *                                                           `data-hlas-content` attribute of registered elements.
+ * @property {ScreenSnapshot[]} snapshots - Private history of the most recent distinct screen snapshots taken outside
+ *                                           of a session, oldest first.
+ * @property {WeakMap<object, ScreenSnapshot[]>} sessionSnapshots - Private snapshot histories of the sessions, which
+ *                                                                 only see the components their scopes allow.
+ * @property {number} snapshotVersion - Private version of the most recent snapshot of any history.
+ * @property {Map<string, string>} refs - Private map from component IDs to the short refs (`e1`, `e2`, …) shown
+ *                                       in outlines. A ref stays assigned to its ID until the ID is unregistered.
+ * @property {Map<string, string>} refTargets - Private map from short refs back to component IDs.
+ * @property {number} refCount - Private number of refs assigned so far, so that released refs are not reused.
+ * @property {Map<string, ComponentEntry[]>} replacedEntries - Private map from component IDs to the registrations
+ *                                                          replaced by registering the ID for another element, oldest
+ *                                                          first. Reported by {@link Registry.diagnostics}, and
+ *                                                          reachable again once the replacing registration is removed.
+ * @property {ConfirmationHandler} confirmationHandler - Private handler deciding whether actions that require
+ *                                                       confirmation may run (see {@link Registry.setConfirmationHandler}).
+ * @property {{ name: string; scopes: Set<Scope> } | undefined} activeSession - Private name and scopes of the session
+ *                                                                            whose call is being handled
+ *                                                                            (see {@link Registry.createSession}).
+ * @property {number} sessionCount - Private number of sessions created, used to name unnamed sessions.
+ * @property {AuditLog} auditLog - Private log of the calls made through the registry (see {@link Registry.history}).
+ * @property {WeakMap<AuditEntry, Scope[]>} auditScopes - Private scopes a caller needs to see each audit entry.
+ * @property {UndoEntry[]} undoStack - Private stack of the undoable actions executed through the registry, most recent last.
+ * @property {UndoEntry[]} redoStack - Private stack of the undone actions, most recently undone last.
+ * @property {Set<Scope> | undefined} defaultScopes - Private scopes granted to calls made outside of a session,
+ *                                                    or `undefined` if they are unrestricted.
  */
 class Registry {
   private components: Map<string, ComponentEntry> = new Map();
   private tourDriverInstance: ReturnType<typeof driver> | undefined;
   private highlightDriverInstance: ReturnType<typeof driver> | undefined;
   private activeTour: boolean = false;
+  private visibility: VisibilityTracker = new VisibilityTracker();
+  private listeners: Set<RegistryListener> = new Set();
+  private contentObserver: MutationObserver | undefined;
+  private snapshots: ScreenSnapshot[] = [];
+  private sessionSnapshots: WeakMap<object, ScreenSnapshot[]> = new WeakMap();
+  private snapshotVersion: number = 0;
+  private refs: Map<string, string> = new Map();
+  private refTargets: Map<string, string> = new Map();
+  private refCount: number = 0;
+  private replacedEntries: Map<string, ComponentEntry[]> = new Map();
+  private confirmationHandler: ConfirmationHandler = confirmWithDialog;
+  private activeSession: { name: string; scopes: Set<Scope> } | undefined;
+  private sessionCount: number = 0;
+  private auditLog: AuditLog = new AuditLog();
+  private auditScopes: WeakMap<AuditEntry, Scope[]> = new WeakMap();
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+  private defaultScopes: Set<Scope> | undefined;
 
   /**
    * @constructor
@@ -92,6 +313,7 @@ class Registry {
    * @param {ActionSchema[]} [actions=[]] - An array of actions the component supports. Defaults to an empty array.
    *                                        Each action's `id` and `name` are used.
    * @param {string} [description] - An optional description of the component's purpose or behavior.
+   * @param {RegisterOptions} [options={}] - Additional registration options (see {@link RegisterOptions}).
    * @returns {string} The `id` of the registered component.
    *
    * @remarks
@@ -100,6 +322,9 @@ class Registry {
    *   of truth for the component's metadata in the registry. If a component is also wrapped with
    *   the {@link action} HOC, the values provided here will generally override any similar attributes
    *   set by the HOC for the registry's perspective.
+   * - Entries registered with `fallback: true` (as done by the {@link action} HOC) only describe their
+   *   element while no other entry is registered for it. Otherwise they are hidden from `find()` and
+   *   `readScreen()`, and their actions are merged into the other entries of the element.
    */
   register(
     id: string,
@@ -107,142 +332,1486 @@ class Registry {
     name: string,
     actions: ActionSchema[] = [],
     description?: string,
+    options: RegisterOptions = {},
   ): string {
     const componentId = id;
-
-    this.components.set(componentId, {
+    const entry: ComponentEntry = {
       id: componentId,
       element,
       actions,
       name,
       description,
+    };
+
+    if (options.fallback) {
+      entry.fallback = true;
+    }
+    if (options.generatedId) {
+      entry.generatedId = true;
+    }
+    if (options.scope) {
+      entry.scope = options.scope;
+    }
+
+    const existing = this.components.get(componentId);
+    // An element registers its ID again at most once
+    const replaced = (this.replacedEntries.get(componentId) || []).filter(
+      (previous) => previous.element !== element,
+    );
+    if (existing && existing.element !== element) {
+      console.warn(
+        `Component ID ${componentId} is already registered for another element; the previous registration is replaced`,
+      );
+      replaced.push(existing);
+    }
+    this.setReplacedEntries(componentId, replaced);
+
+    this.components.set(componentId, entry);
+    this.visibility.observe(element);
+    this.observeContent(element);
+    this.applyAttributes(element);
+    this.emit({ type: "register", id: componentId, component: entry });
+
+    return componentId;
+  }
+
+  /**
+   * Unregisters a component from the HLAS system using its ID.
+   * This should be called when the component is unmounted to prevent memory leaks
+   * and stale references.
+   *
+   * @param {string} id - The ID of the component to unregister.
+   * @param {HTMLElement} [element] - The element of the unmounting component. If the ID was registered again for
+   *                                  another element, only the registration of this element is removed. Without it,
+   *                                  the current registration of the ID is removed.
+   * @returns {boolean} `true` if the component was found and removed, `false` otherwise.
+   * @remarks Typically called automatically during the cleanup phase of `useEffect` in
+   *          hooks or components that use {@link Registry.register}. When the current registration of an ID
+   *          is removed, the most recent registration it replaced becomes reachable again.
+   */
+  unregister(id: string, element?: HTMLElement): boolean {
+    const component = this.components.get(id);
+    const replaced = this.replacedEntries.get(id) || [];
+
+    if (element && component?.element !== element) {
+      // A replaced registration unmounts; the current one stays reachable
+      const remaining = replaced.filter((entry) => entry.element !== element);
+      if (remaining.length === replaced.length) {
+        return false;
+      }
+      this.setReplacedEntries(id, remaining);
+      this.releaseElement(element);
+      return true;
+    }
+    if (!component) {
+      return false;
+    }
+
+    const restored = replaced.pop();
+    this.setReplacedEntries(id, replaced);
+    if (restored) {
+      this.components.set(id, restored);
+    } else {
+      this.components.delete(id);
+    }
+    this.releaseElement(component.element);
+    if (!restored) {
+      this.releaseRef(id);
+    }
+
+    this.emit({ type: "unregister", id, component });
+    if (restored) {
+      this.applyAttributes(restored.element);
+      this.emit({ type: "register", id, component: restored });
+    }
+
+    return true;
+  }
+
+  /**
+   * Stores the registrations replaced under an ID, dropping the ID once there are none.
+   *
+   * @param {string} id - The component ID.
+   * @param {ComponentEntry[]} entries - The replaced registrations, oldest first.
+   */
+  private setReplacedEntries(id: string, entries: ComponentEntry[]): void {
+    if (entries.length > 0) {
+      this.replacedEntries.set(id, entries);
+    } else {
+      this.replacedEntries.delete(id);
+    }
+  }
+
+  /**
+   * Updates an element after one of its registrations was removed: a remaining registration of the
+   * element describes it again, or else its visibility is no longer tracked.
+   *
+   * @param {HTMLElement} element - The element.
+   */
+  private releaseElement(element: HTMLElement): void {
+    const elementStillRegistered = Array.from(this.components.values()).some(
+      (entry) => entry.element === element,
+    );
+    if (elementStillRegistered) {
+      this.applyAttributes(element);
+    } else {
+      this.visibility.unobserve(element);
+    }
+  }
+
+  /**
+   * Subscribes to changes of the registry: components being registered or unregistered, the
+   * `data-hlas-content` of registered elements changing, and actions being dispatched.
+   * This lets callers (e.g. an agent runtime) react to UI changes instead of polling `readScreen()`.
+   *
+   * @param {RegistryListener} listener - Called synchronously with each {@link RegistryEvent}.
+   *                                      `contentChange` events are delivered asynchronously,
+   *                                      once the DOM mutation has been observed.
+   * @returns {() => void} A function that removes the listener.
+   * @remarks Errors thrown by a listener are logged and do not affect other listeners. Listeners of a
+   *          session only receive events about the components and actions its scopes allow.
+   */
+  subscribe(listener: RegistryListener): () => void {
+    const session = this.activeSession;
+    const scoped: RegistryListener = (event) => {
+      const visible = this.withSession(session, () => this.scopeEvent(event));
+      if (visible) {
+        listener(visible);
+      }
+    };
+    this.listeners.add(scoped);
+    return () => {
+      this.listeners.delete(scoped);
+    };
+  }
+
+  /**
+   * Subscribes to registry changes of a single type. See {@link Registry.subscribe}.
+   *
+   * @param {RegistryEventType} type - The type of change to listen for.
+   * @param {(event: RegistryEvent) => void} listener - Called with each event of the given type.
+   * @returns {() => void} A function that removes the listener.
+   */
+  on<T extends RegistryEventType>(
+    type: T,
+    listener: (event: Extract<RegistryEvent, { type: T }>) => void,
+  ): () => void {
+    return this.subscribe((event) => {
+      if (event.type === type) {
+        listener(event as Extract<RegistryEvent, { type: T }>);
+      }
+    });
+  }
+
+  /**
+   * Limits an event to what the current caller may see (see {@link Registry.listAccessibleComponents}).
+   *
+   * @param {RegistryEvent} event - The change to report.
+   * @returns {RegistryEvent | undefined} The event, with the component's inaccessible actions left out,
+   *                                      or `undefined` if the caller may not see it.
+   */
+  private scopeEvent(event: RegistryEvent): RegistryEvent | undefined {
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    if (!scopes) {
+      return event;
+    }
+
+    if (event.type === "register" || event.type === "unregister") {
+      const component = this.restrictToScopes(event.component, scopes);
+      return component ? { ...event, component } : undefined;
+    }
+    const component = this.components.get(event.id);
+    const actionId = "actionId" in event ? event.actionId : undefined;
+    return component && this.isGranted(this.requiredScopes(component, actionId))
+      ? event
+      : undefined;
+  }
+
+  /**
+   * Notifies all subscribers of a change.
+   *
+   * @param {RegistryEvent} event - The change to report.
+   */
+  private emit(event: RegistryEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in hlas ${event.type} listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Starts watching the `data-hlas-content` attribute of an element. A single `MutationObserver`
+   * is shared by all registered elements; mutations of elements that are no longer registered
+   * are ignored. Does nothing in environments without `MutationObserver`.
+   *
+   * @param {HTMLElement} element - A registered element.
+   */
+  private observeContent(element: HTMLElement): void {
+    if (typeof MutationObserver === "undefined") {
+      return;
+    }
+
+    if (!this.contentObserver) {
+      this.contentObserver = new MutationObserver((mutations) =>
+        this.handleContentMutations(mutations),
+      );
+    }
+
+    this.contentObserver.observe(element, {
+      attributes: true,
+      attributeFilter: ["data-hlas-content"],
+      attributeOldValue: true,
+    });
+  }
+
+  /**
+   * Reports a `contentChange` event for each registered component whose element's
+   * `data-hlas-content` attribute changed. Several mutations of one element within a
+   * single batch are reported as one change from the first old value to the current value.
+   *
+   * @param {MutationRecord[]} mutations - The observed attribute mutations.
+   */
+  private handleContentMutations(mutations: MutationRecord[]): void {
+    const previousValues = new Map<HTMLElement, string | null>();
+    for (const mutation of mutations) {
+      const element = mutation.target as HTMLElement;
+      if (!previousValues.has(element)) {
+        previousValues.set(element, mutation.oldValue);
+      }
+    }
+
+    const components = this.listComponents();
+    for (const [element, previousValue] of previousValues) {
+      const value = element.getAttribute("data-hlas-content");
+      if (value === previousValue) continue;
+
+      for (const component of components) {
+        if (component.element !== element) continue;
+        this.emit({
+          type: "contentChange",
+          id: component.id,
+          content: parseContent(value),
+          previousContent: parseContent(previousValue),
+        });
+      }
+    }
+  }
+
+  /**
+   * Writes the `data-hlas-*` attributes of an element from the entry that currently describes it:
+   * the most recently registered non-fallback entry, or the most recent fallback entry if there is none.
+   * `data-hlas-actions` lists the merged actions of the element (see {@link Registry.listComponents}).
+   *
+   * @param {HTMLElement} element - A registered element.
+   */
+  private applyAttributes(element: HTMLElement): void {
+    const entries = this.listComponents().filter(
+      (entry) => entry.element === element,
+    );
+    const entry = entries[entries.length - 1];
+    if (!entry) return;
+
+    // Add data attributes to the DOM element
+    element.setAttribute("data-hlas-id", entry.id);
+    element.setAttribute("data-hlas-name", entry.name);
+
+    if (entry.description) {
+      element.setAttribute("data-hlas-description", entry.description);
+    }
+
+    // Add action data
+    if (entry.actions.length > 0) {
+      element.setAttribute(
+        "data-hlas-actions",
+        entry.actions.map((a) => a.id).join(","),
+      );
+    }
+  }
+
+  /**
+   * Lists the registered components as they are presented to callers. Fallback entries are
+   * omitted when another entry is registered for the same element; the actions of an element's
+   * fallback entries are merged into its other entries (actions already declared by an entry win).
+   *
+   * @returns {ComponentEntry[]} The presented components, in registration order.
+   */
+  private listComponents(): ComponentEntry[] {
+    const entriesByElement = new Map<HTMLElement, ComponentEntry[]>();
+    for (const component of this.components.values()) {
+      const shared = entriesByElement.get(component.element) || [];
+      shared.push(component);
+      entriesByElement.set(component.element, shared);
+    }
+
+    const results: ComponentEntry[] = [];
+    for (const component of this.components.values()) {
+      const shared = entriesByElement.get(component.element)!;
+      if (component.fallback && shared.some((entry) => !entry.fallback)) {
+        continue;
+      }
+
+      const actions = [...component.actions];
+      for (const entry of shared) {
+        if (entry === component || !entry.fallback) continue;
+        for (const action of entry.actions) {
+          if (!actions.some((existing) => existing.id === action.id)) {
+            actions.push(action);
+          }
+        }
+      }
+
+      results.push(
+        actions.length === component.actions.length
+          ? component
+          : { ...component, actions },
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Lists the presented components (see {@link Registry.listComponents}) that the current caller may see:
+   * components whose scope was granted, with only the actions whose scope was granted. Without
+   * restricting scopes (see {@link Registry.createSession}), all components are listed.
+   *
+   * @returns {ComponentEntry[]} The accessible components, in registration order.
+   */
+  private listAccessibleComponents(): ComponentEntry[] {
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    if (!scopes) {
+      return this.listComponents();
+    }
+
+    const results: ComponentEntry[] = [];
+    for (const component of this.listComponents()) {
+      const accessible = this.restrictToScopes(component, scopes);
+      if (accessible) {
+        results.push(accessible);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Limits a component to the given scopes.
+   *
+   * @param {ComponentEntry} component - The component.
+   * @param {Set<Scope>} scopes - The granted scopes.
+   * @returns {ComponentEntry | undefined} The component with only the actions whose scope was granted,
+   *                                       or `undefined` if its own scope was not granted.
+   */
+  private restrictToScopes(
+    component: ComponentEntry,
+    scopes: Set<Scope>,
+  ): ComponentEntry | undefined {
+    if (!scopes.has(component.scope || "read")) {
+      return undefined;
+    }
+
+    const actions = component.actions.filter((action) =>
+      scopes.has(action.scope || "write"),
+    );
+    return actions.length === component.actions.length
+      ? component
+      : { ...component, actions };
+  }
+
+  /**
+   * Lists the scopes needed to see a component and, optionally, to run one of its actions.
+   *
+   * @param {ComponentEntry | undefined} component - The component, if it is registered.
+   * @param {string} [actionId] - The identifier of the action.
+   * @returns {Scope[]} The scopes, empty for components that are not registered.
+   */
+  private requiredScopes(
+    component: ComponentEntry | undefined,
+    actionId?: string,
+  ): Scope[] {
+    if (!component) {
+      return [];
+    }
+
+    const scopes: Scope[] = [component.scope || "read"];
+    if (actionId !== undefined) {
+      const owner = this.resolveActionOwner(component, actionId);
+      const action = owner.actions.find((schema) => schema.id === actionId);
+      scopes.push(action?.scope || "write");
+    }
+    return scopes;
+  }
+
+  /**
+   * Checks whether the current caller was granted all of the given scopes.
+   *
+   * @param {Scope[]} required - The scopes to check (see {@link Registry.requiredScopes}).
+   * @returns {boolean} `true` if they were granted or the caller is unrestricted.
+   */
+  private isGranted(required: Scope[]): boolean {
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    return !scopes || required.every((scope) => scopes.has(scope));
+  }
+
+  /**
+   * Looks up a registered component if the current caller may see it (see {@link Registry.listAccessibleComponents}).
+   *
+   * @param {string} id - The ID of the component.
+   * @returns {ComponentEntry | undefined} The component, or `undefined` if it is not registered or not accessible.
+   */
+  private getAccessibleComponent(id: string): ComponentEntry | undefined {
+    const component = this.components.get(id);
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    if (!component || !scopes || scopes.has(component.scope || "read")) {
+      return component;
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks whether the current caller was granted the scope of an action. Actions without a
+   * schema require the default `"write"` scope.
+   *
+   * @param {ComponentEntry} owner - The entry declaring the action (see {@link Registry.resolveActionOwner}).
+   * @param {string} actionId - The identifier of the action.
+   * @returns {string | undefined} An error message if the scope is missing, `undefined` otherwise.
+   */
+  private checkActionScope(
+    owner: ComponentEntry,
+    actionId: string,
+  ): string | undefined {
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    const action = owner.actions.find((schema) => schema.id === actionId);
+    const scope = action?.scope || "write";
+    if (!scopes || scopes.has(scope)) {
+      return undefined;
+    }
+    return `Action ${actionId} on component ${owner.id} requires the scope ${scope}`;
+  }
+
+  /**
+   * Resolves which entry handles an action addressed to a component. This is the component
+   * itself if it declares the action, otherwise another entry registered for the same element
+   * that declares it (e.g. the {@link action} HOC's fallback entry for its default action).
+   *
+   * @param {ComponentEntry} component - The component the action was addressed to.
+   * @param {string} actionId - The identifier of the action.
+   * @returns {ComponentEntry} The entry whose listener should handle the action.
+   */
+  private resolveActionOwner(
+    component: ComponentEntry,
+    actionId: string,
+  ): ComponentEntry {
+    const declares = (entry: ComponentEntry) =>
+      entry.actions.some((action) => action.id === actionId);
+
+    if (declares(component)) {
+      return component;
+    }
+
+    for (const entry of this.components.values()) {
+      if (entry.element === component.element && declares(entry)) {
+        return entry;
+      }
+    }
+
+    return component;
+  }
+
+  /**
+   * Finds registered components matching a query.
+   *
+   * A string is searched for (case-insensitively) in component names and descriptions. A
+   * {@link ComponentQuery} can additionally require an exact name or a regular expression, a
+   * component type (`data-hlas-component`), supported actions, matching content, an enclosing
+   * component and visibility; all given criteria must match.
+   *
+   * @param {string | ComponentQuery} query - The search string or structured query.
+   * @returns {ComponentEntry[]} The matching components, ranked best match first: exact name matches,
+   *                             then names starting with or containing the search text, then
+   *                             description matches; visible components come before hidden ones.
+   *                             Returns an empty array if no matches are found.
+   */
+  find(query: string | ComponentQuery): ComponentEntry[] {
+    return queryComponents(this.listAccessibleComponents(), query, {
+      isVisible: this.visibilityChecker(),
+      readContent: (component) =>
+        parseContent(component.element.getAttribute("data-hlas-content")),
+    });
+  }
+
+  /**
+   * Finds the components closest to a loosely phrased text, such as a user's request
+   * ("mark learn hlas done" matches "Todo Item: Learn about hlas"). Names, descriptions and
+   * content are compared locally, without any network access, using token and character
+   * trigram similarity (see {@link rankBySimilarity}).
+   *
+   * @param {string} text - The text to match.
+   * @param {FindBestOptions} [options={}] - The maximum number of results and the minimum score.
+   * @returns {ComponentMatch[]} The best matching components with their scores, best match first.
+   */
+  findBest(text: string, options: FindBestOptions = {}): ComponentMatch[] {
+    const { limit = 5, minScore = 0.1 } = options;
+
+    return rankBySimilarity(
+      text,
+      this.listAccessibleComponents(),
+      (component) => [
+        { text: component.name, weight: 1 },
+        { text: component.description || "", weight: 0.8 },
+        {
+          text: contentText(
+            parseContent(component.element.getAttribute("data-hlas-content")),
+          ),
+          weight: 0.7,
+        },
+      ],
+    )
+      .filter((match) => match.score >= minScore)
+      .slice(0, limit)
+      .map(({ item, score }) => ({ component: item, score }));
+  }
+
+  /**
+   * Returns a visibility check for a pass over many components, which queries the open modals
+   * only once (see {@link isElementVisible}).
+   *
+   * @returns {(component: ComponentEntry) => boolean} Returns `true` if the component's element is visible.
+   */
+  private visibilityChecker(): (component: ComponentEntry) => boolean {
+    let modals: HTMLElement[] | undefined;
+    return (component) => {
+      if (!component.element.isConnected) {
+        return false;
+      }
+      if (!modals) {
+        modals = findOpenModals(component.element.ownerDocument);
+      }
+      return isElementVisible(
+        component.element,
+        this.visibility.isIntersecting(component.element),
+        modals,
+      );
+    };
+  }
+
+  /**
+   * Waits until a condition on the screen is met, e.g. after an action whose effects are rendered
+   * later. The condition is checked right away, then whenever the registry reports a change (see
+   * {@link Registry.subscribe}) or the document is mutated, instead of polling. Visibility changes
+   * that do not mutate the DOM, such as scrolling, are only noticed with the next mutation.
+   *
+   * @param {() => T} condition - Returns a truthy value once the wait is over. Errors are logged and
+   *                              count as not met.
+   * @param {WaitOptions} [options={}] - How long to wait.
+   * @returns {Promise<T | undefined>} Resolves (never rejects) with the first truthy value returned by the
+   *                                   condition, or `undefined` after the timeout.
+   */
+  waitUntil<T>(
+    condition: () => T,
+    options: WaitOptions = {},
+  ): Promise<T | undefined> {
+    const { timeout = DEFAULT_WAIT_TIMEOUT_MS } = options;
+    // Later checks run outside of the caller's session (see withSession)
+    const session = this.activeSession;
+    const check = (): T | undefined => {
+      try {
+        return this.withSession(session, condition) || undefined;
+      } catch (error) {
+        console.error("Error in hlas wait condition:", error);
+        return undefined;
+      }
+    };
+
+    const initial = check();
+    if (initial !== undefined) {
+      return Promise.resolve(initial);
+    }
+
+    return new Promise((resolve) => {
+      let observer: MutationObserver | undefined;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const finish = (value: T | undefined) => {
+        unsubscribe();
+        observer?.disconnect();
+        clearTimeout(timer);
+        resolve(value);
+      };
+      const recheck = () => {
+        const value = check();
+        if (value !== undefined) finish(value);
+      };
+
+      const unsubscribe = this.subscribe(recheck);
+      if (
+        typeof MutationObserver !== "undefined" &&
+        typeof document !== "undefined"
+      ) {
+        observer = new MutationObserver(recheck);
+        observer.observe(document.documentElement, {
+          attributes: true,
+          characterData: true,
+          childList: true,
+          subtree: true,
+        });
+      }
+      if (Number.isFinite(timeout)) {
+        timer = setTimeout(() => finish(undefined), timeout);
+      }
+    });
+  }
+
+  /**
+   * Waits until a component matching a query is registered, e.g. the dialog opened by an action.
+   *
+   * @param {string | ComponentQuery} query - The search string or structured query, as for {@link Registry.find}.
+   * @param {WaitOptions} [options={}] - How long to wait.
+   * @returns {Promise<ComponentEntry | undefined>} Resolves with the best match, or `undefined` after the timeout.
+   *
+   * @example
+   * ```typescript
+   * const dialog = await window.hlas.waitFor({ name: "Confirm Order", visible: true }, { timeout: 2000 });
+   * ```
+   */
+  waitFor(
+    query: string | ComponentQuery,
+    options: WaitOptions = {},
+  ): Promise<ComponentEntry | undefined> {
+    return this.waitUntil(() => this.find(query)[0], options);
+  }
+
+  /**
+   * Waits until the content of a component (see {@link ScreenComponent.content}) satisfies a
+   * predicate, e.g. until a list contains a new item. The component does not need to be
+   * registered yet.
+   *
+   * @param {string} id - The ID of the component, its short ref or its stable ID.
+   * @param {(content: unknown) => boolean} predicate - Receives the parsed content.
+   * @param {WaitOptions} [options={}] - How long to wait.
+   * @returns {Promise<boolean>} Resolves to `true` once the predicate holds, or `false` after the timeout.
+   */
+  async waitForContent(
+    id: string,
+    predicate: (content: unknown) => boolean,
+    options: WaitOptions = {},
+  ): Promise<boolean> {
+    const met = await this.waitUntil(() => {
+      const component = this.getAccessibleComponent(this.resolveId(id));
+      return (
+        component !== undefined &&
+        predicate(
+          parseContent(component.element.getAttribute("data-hlas-content")),
+        )
+      );
+    }, options);
+    return met === true;
+  }
+
+  /**
+   * Waits until a component is unregistered, e.g. a dialog after it was closed. To wait for a
+   * component to be hidden instead, use {@link Registry.waitFor} with `visible: false`.
+   *
+   * @param {string} id - The ID of the component, its short ref or its stable ID.
+   * @param {WaitOptions} [options={}] - How long to wait.
+   * @returns {Promise<boolean>} Resolves to `true` once the component is gone, or `false` after the timeout.
+   */
+  async waitForGone(id: string, options: WaitOptions = {}): Promise<boolean> {
+    const gone = await this.waitUntil(
+      () => !this.getAccessibleComponent(this.resolveId(id)),
+      options,
+    );
+    return gone === true;
+  }
+
+  /**
+   * Dispatches a custom event (`hlas:execute`) on the component's DOM element
+   * to trigger a specific action.
+   *
+   * The actual execution logic for the action is expected to be handled by an event listener
+   * set up on the component, typically by the {@link useHlasActions} hook. This method
+   * itself does not execute the action's behavior.
+   *
+   * @param {string} id - The ID of the component on which to execute the action, its short ref from an outline
+   *                      (see {@link Registry.readScreen}) or its stable ID.
+   * @param {string} actionId - The identifier of the action to be executed (e.g., "click", "setValue").
+   * @param {Record<string, unknown>} [params] - Optional parameters to pass to the action handler
+   *                                             via the event's `detail` property. If the component's
+   *                                             schema for `actionId` declares `parameters`, they are
+   *                                             validated, coerced and completed with defaults first
+   *                                             (see {@link validateParameters}).
+   * @returns {boolean} `true` if the event was dispatched (i.e., the component was found),
+   *                    `false` otherwise (e.g., component not found, invalid parameters or declined).
+   * @remarks Actions that require confirmation (see {@link ActionSchema.risk}) are only dispatched once the
+   *          confirmation handler agrees. When the handler answers asynchronously, as the default dialog does,
+   *          `true` means that the action was submitted for confirmation; use {@link Registry.executeAsync}
+   *          to learn whether it was declined.
+   */
+  execute(
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+  ): boolean {
+    // This method dispatches a custom event that the useHlasActions hook listens for.
+    // The hook is then responsible for invoking the actual action function.
+    id = this.resolveId(id);
+    const audit = this.beginAudit("execute", id, actionId, params);
+    const component = this.getAccessibleComponent(id);
+
+    if (!component) {
+      console.error(`Component with ID ${id} not found`);
+      audit("not_found", `Component with ID ${id} not found`);
+      return false;
+    }
+
+    const owner = this.resolveActionOwner(component, actionId);
+    const forbidden = this.checkActionScope(owner, actionId);
+    if (forbidden) {
+      console.error(forbidden);
+      audit("forbidden", forbidden);
+      return false;
+    }
+
+    const prepared = this.prepareParams(owner, actionId, params);
+    if (prepared.error) {
+      console.error(prepared.error);
+      audit("invalid_params", prepared.error);
+      return false;
+    }
+
+    const dispatch = () => {
+      const event = new CustomEvent("hlas:execute", {
+        detail: {
+          id: owner.id,
+          actionId,
+          params: prepared.params,
+          registerUndo: this.undoRecorder(
+            component,
+            owner,
+            actionId,
+            prepared.params,
+          ),
+        },
+      });
+
+      this.emit({
+        type: "beforeExecute",
+        id,
+        actionId,
+        params: prepared.params,
+      });
+      component.element.dispatchEvent(event);
+      this.emit({ type: "execute", id, actionId, params: prepared.params });
+      audit("dispatched");
+    };
+    const decline = () =>
+      audit("declined", `Action ${actionId} on component ${id} was declined`);
+
+    const confirmation = this.requestConfirmation(
+      component,
+      owner,
+      actionId,
+      prepared.params,
+    );
+    if (confirmation === false) {
+      decline();
+      return false;
+    }
+    if (confirmation !== true) {
+      void confirmation.then((confirmed) =>
+        confirmed ? dispatch() : decline(),
+      );
+      return true;
+    }
+
+    dispatch();
+    return true;
+  }
+
+  /**
+   * Reverts the most recent undoable action executed through the registry, e.g. a todo an agent
+   * toggled by mistake. Actions are undoable when their {@link ActionDefinition} provides `undo`;
+   * actions performed by the user directly are not tracked. Undoing needs the scopes that running
+   * the action needed, and actions that require confirmation (see {@link ActionSchema.risk}) are
+   * confirmed again before they are reverted.
+   *
+   * @returns {Promise<ExecutionResult>} Resolves (never rejects) with `"success"` and the undo function's result,
+   *                                     `"error"` if reverting failed, `"forbidden"` or `"declined"` if the action
+   *                                     may not be reverted (it then stays undoable), or `"not_found"` if there is
+   *                                     nothing to undo. Undone actions can be executed again with {@link Registry.redo}.
+   */
+  async undo(): Promise<ExecutionResult> {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) {
+      return { status: "not_found", error: "Nothing to undo", durationMs: 0 };
+    }
+    return this.revert(entry);
+  }
+
+  /**
+   * Reverts an undoable action for {@link Registry.undo} and {@link Registry.executeBatch}, and takes
+   * it off the undo stack if it is still there.
+   *
+   * @param {UndoEntry} entry - The action to revert.
+   * @returns {Promise<ExecutionResult>} The outcome, as described for {@link Registry.undo}.
+   */
+  private async revert(entry: UndoEntry): Promise<ExecutionResult> {
+    const startedAt = performance.now();
+    const elapsed = () => performance.now() - startedAt;
+    const audit = this.beginAudit(
+      "undo",
+      entry.componentId,
+      entry.actionId,
+      entry.params,
+      this.requiredScopes(entry.component, entry.actionId),
+    );
+    const forbidden = this.checkUndoScope(entry);
+    if (forbidden) {
+      console.error(forbidden);
+      audit("forbidden", forbidden);
+      return { status: "forbidden", error: forbidden, durationMs: elapsed() };
+    }
+
+    const confirmed = await this.requestConfirmation(
+      entry.component,
+      entry.owner,
+      entry.actionId,
+      entry.params,
+      true,
+    );
+    if (!confirmed) {
+      const declined = `Undoing action ${entry.actionId} on component ${entry.componentId} was declined`;
+      audit("declined", declined);
+      return { status: "declined", error: declined, durationMs: elapsed() };
+    }
+    // Another call may have undone the action while it was being confirmed
+    if (entry.undone) {
+      audit("not_found", "The action was already undone");
+      return {
+        status: "not_found",
+        error: "The action was already undone",
+        durationMs: elapsed(),
+      };
+    }
+    entry.undone = true;
+    const index = this.undoStack.lastIndexOf(entry);
+    if (index !== -1) {
+      this.undoStack.splice(index, 1);
+    }
+
+    try {
+      this.emit({
+        type: "undo",
+        id: entry.componentId,
+        actionId: entry.actionId,
+        params: entry.params,
+      });
+      const result = await entry.undo();
+      this.redoStack.push(entry);
+      audit("success");
+      return { status: "success", result, durationMs: elapsed() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `Undoing action ${entry.actionId} on component ${entry.componentId} failed:`,
+        error,
+      );
+      audit("error", message);
+      return { status: "error", error: message, durationMs: elapsed() };
+    }
+  }
+
+  /**
+   * Executes the most recently undone action again, with its original parameters. The action is
+   * dispatched like {@link Registry.executeAsync}, checking the caller's scopes and asking for
+   * confirmation, so it can be undone again.
+   *
+   * @returns {Promise<ExecutionResult>} Resolves (never rejects) with the action's result, or `"not_found"` if
+   *                                     there is nothing to redo. The action is taken off the redo stack even if it
+   *                                     fails, unless it is `"forbidden"` or `"declined"`.
+   */
+  async redo(): Promise<ExecutionResult> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      return { status: "not_found", error: "Nothing to redo", durationMs: 0 };
+    }
+
+    const audit = this.beginAudit(
+      "redo",
+      entry.componentId,
+      entry.actionId,
+      entry.params,
+      this.requiredScopes(entry.component, entry.actionId),
+    );
+    const forbidden = this.checkUndoScope(entry);
+    if (forbidden) {
+      console.error(forbidden);
+      audit("forbidden", forbidden);
+      return { status: "forbidden", error: forbidden, durationMs: 0 };
+    }
+
+    const result = await this.runAction(
+      entry.componentId,
+      entry.actionId,
+      entry.params,
+      true,
+    );
+    if (result.status !== "forbidden" && result.status !== "declined") {
+      const index = this.redoStack.lastIndexOf(entry);
+      if (index !== -1) {
+        this.redoStack.splice(index, 1);
+      }
+    }
+    audit(result.status, result.error);
+    return result;
+  }
+
+  /**
+   * Checks whether the current caller may undo or redo an action: it needs the scopes of the
+   * component and of the action as they were when the action ran.
+   *
+   * @param {UndoEntry} entry - The action on the undo or redo stack.
+   * @returns {string | undefined} An error message if a scope is missing, `undefined` otherwise.
+   */
+  private checkUndoScope(entry: UndoEntry): string | undefined {
+    if (this.isGranted(this.requiredScopes(entry.component, entry.actionId))) {
+      return undefined;
+    }
+    return `Action ${entry.actionId} on component ${entry.componentId} was run with scopes that were not granted`;
+  }
+
+  /**
+   * Creates the `registerUndo` callback of an `hlas:execute` event, which puts the action on the
+   * undo stack once its handler has succeeded. A new action clears the redo stack, unless it is redone.
+   *
+   * @param {ComponentEntry} component - The component the action is executed on.
+   * @param {ComponentEntry} owner - The entry declaring the action (see {@link Registry.resolveActionOwner}).
+   * @param {string} actionId - The executed action.
+   * @param {Record<string, unknown>} params - The parameters of the action.
+   * @param {boolean} [redo=false] - `true` if the action is redone by {@link Registry.redo}.
+   * @param {(entry: UndoEntry) => void} [onUndo] - Called with the entry put on the undo stack.
+   * @returns {(undo: UndoFunction) => void} The callback.
+   */
+  private undoRecorder(
+    component: ComponentEntry,
+    owner: ComponentEntry,
+    actionId: string,
+    params: Record<string, unknown>,
+    redo: boolean = false,
+    onUndo?: (entry: UndoEntry) => void,
+  ): (undo: UndoFunction) => void {
+    return (undo) => {
+      const entry: UndoEntry = {
+        componentId: component.id,
+        component,
+        owner,
+        actionId,
+        params,
+        undo,
+      };
+      this.undoStack.push(entry);
+      onUndo?.(entry);
+      if (this.undoStack.length > MAX_UNDO_ENTRIES) {
+        this.undoStack.shift();
+      }
+      if (!redo) {
+        this.redoStack = [];
+      }
+    };
+  }
+
+  /**
+   * Replaces the handler that decides whether actions requiring confirmation may run
+   * (see {@link ActionSchema.risk}). By default, the user is asked with an in-page dialog
+   * (see {@link confirmWithDialog}).
+   *
+   * @param {ConfirmationHandler} [handler] - The new handler, e.g. one that shows the app's own dialog or
+   *                                          applies a policy. Omit it to restore the default dialog.
+   *
+   * @example
+   * ```javascript
+   * window.hlas.setConfirmationHandler(({ component, action }) =>
+   *   window.confirm(`Allow ${action.name} on ${component.name}?`),
+   * );
+   * ```
+   */
+  setConfirmationHandler(handler?: ConfirmationHandler): void {
+    this.confirmationHandler = handler || confirmWithDialog;
+  }
+
+  /**
+   * Asks the confirmation handler whether an action may run, if the action requires confirmation.
+   * Declined actions are logged; a handler that throws or rejects declines the action.
+   *
+   * @param {ComponentEntry} component - The component the action is executed on.
+   * @param {ComponentEntry} owner - The entry declaring the action (see {@link Registry.resolveActionOwner}).
+   * @param {string} actionId - The identifier of the action.
+   * @param {Record<string, unknown>} params - The validated parameters of the action.
+   * @param {boolean} [undo=false] - `true` if the action is about to be reverted by {@link Registry.undo}.
+   * @returns {boolean | Promise<boolean>} `true` if the action may run, `false` if it was declined, or a
+   *          Promise of either when the handler answers asynchronously.
+   */
+  private requestConfirmation(
+    component: ComponentEntry,
+    owner: ComponentEntry,
+    actionId: string,
+    params: Record<string, unknown>,
+    undo: boolean = false,
+  ): boolean | Promise<boolean> {
+    const action = owner.actions.find((schema) => schema.id === actionId);
+    if (!action || !needsConfirmation(action)) {
+      return true;
+    }
+
+    const declined = (error?: unknown) => {
+      if (error !== undefined) {
+        console.error(
+          `Confirmation of action ${actionId} on component ${component.id} failed:`,
+          error,
+        );
+      } else {
+        console.warn(
+          `Action ${actionId} on component ${component.id} was declined`,
+        );
+      }
+      return false;
+    };
+
+    let answer: boolean | Promise<boolean>;
+    try {
+      answer = this.confirmationHandler(
+        undo
+          ? { component, action, params, undo }
+          : { component, action, params },
+      );
+    } catch (error) {
+      return declined(error);
+    }
+
+    if (typeof answer === "boolean") {
+      return answer || declined();
+    }
+    return Promise.resolve(answer).then(
+      (confirmed) => confirmed || declined(),
+      declined,
+    );
+  }
+
+  /**
+   * Executes an action on a component and waits for its outcome.
+   *
+   * Like {@link Registry.execute}, this dispatches an `hlas:execute` event on the component's
+   * DOM element, but the event's `detail` also carries a `respond` callback (see
+   * {@link ExecuteEventDetail}). The listener installed by {@link useHlasActions} passes the
+   * action's return value to it, which is awaited here.
+   *
+   * @param {string} id - The ID of the component on which to execute the action, its short ref from an outline
+   *                      (see {@link Registry.readScreen}) or its stable ID.
+   * @param {string} actionId - The identifier of the action to be executed (e.g., "click", "setValue").
+   * @param {Record<string, unknown>} [params] - Optional parameters to pass to the action handler.
+   * @returns {Promise<ExecutionResult>} Resolves (never rejects) with the status, the action's result
+   *                                     or error message, and the time the execution took. Actions that
+   *                                     require confirmation wait for it and resolve as `"declined"` if
+   *                                     it is refused.
+   */
+  async executeAsync(
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+  ): Promise<ExecutionResult> {
+    return this.executeTracked(id, actionId, params);
+  }
+
+  /**
+   * Executes an action like {@link Registry.executeAsync}, reporting the undo entry it puts on the undo stack.
+   *
+   * @param {string} id - The ID, ref or stable ID of the component.
+   * @param {string} actionId - The identifier of the action.
+   * @param {Record<string, unknown>} [params] - The parameters supplied by the caller.
+   * @param {(entry: UndoEntry) => void} [onUndo] - Called with the undo entry, if the action is undoable.
+   * @returns {Promise<ExecutionResult>} The outcome of the execution.
+   */
+  private async executeTracked(
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+    onUndo?: (entry: UndoEntry) => void,
+  ): Promise<ExecutionResult> {
+    id = this.resolveId(id);
+    const audit = this.beginAudit("execute", id, actionId, params);
+    const result = await this.runAction(id, actionId, params, false, onUndo);
+    audit(result.status, result.error);
+    return result;
+  }
+
+  /**
+   * Executes an action for {@link Registry.executeAsync}, once its component ID is resolved.
+   *
+   * @param {string} id - The ID of the component.
+   * @param {string} actionId - The identifier of the action.
+   * @param {Record<string, unknown>} [params] - The parameters supplied by the caller.
+   * @param {boolean} [redo=false] - `true` if the action is redone by {@link Registry.redo}, which keeps the redo stack.
+   * @param {(entry: UndoEntry) => void} [onUndo] - Called with the undo entry, if the action is undoable.
+   * @returns {Promise<ExecutionResult>} The outcome of the execution.
+   */
+  private async runAction(
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+    redo: boolean = false,
+    onUndo?: (entry: UndoEntry) => void,
+  ): Promise<ExecutionResult> {
+    const startedAt = performance.now();
+    const elapsed = () => performance.now() - startedAt;
+    const component = this.getAccessibleComponent(id);
+
+    if (!component) {
+      console.error(`Component with ID ${id} not found`);
+      return {
+        status: "not_found",
+        error: `Component with ID ${id} not found`,
+        durationMs: elapsed(),
+      };
+    }
+
+    const owner = this.resolveActionOwner(component, actionId);
+    const forbidden = this.checkActionScope(owner, actionId);
+    if (forbidden) {
+      console.error(forbidden);
+      return { status: "forbidden", error: forbidden, durationMs: elapsed() };
+    }
+
+    const prepared = this.prepareParams(owner, actionId, params);
+    if (prepared.error) {
+      console.error(prepared.error);
+      return {
+        status: "invalid_params",
+        error: prepared.error,
+        durationMs: elapsed(),
+      };
+    }
+
+    const confirmed = await this.requestConfirmation(
+      component,
+      owner,
+      actionId,
+      prepared.params,
+    );
+    if (!confirmed) {
+      return {
+        status: "declined",
+        error: `Action ${actionId} on component ${id} was declined`,
+        durationMs: elapsed(),
+      };
+    }
+
+    let response: Promise<unknown> | undefined;
+    const detail: ExecuteEventDetail = {
+      id: owner.id,
+      actionId,
+      params: prepared.params,
+      respond: (result) => {
+        if (!response) {
+          response = Promise.resolve(result);
+        }
+      },
+      registerUndo: this.undoRecorder(
+        component,
+        owner,
+        actionId,
+        prepared.params,
+        redo,
+        onUndo,
+      ),
+    };
+
+    this.emit({
+      type: "beforeExecute",
+      id,
+      actionId,
+      params: prepared.params,
     });
+    component.element.dispatchEvent(
+      new CustomEvent("hlas:execute", { detail }),
+    );
+    this.emit({ type: "execute", id, actionId, params: prepared.params });
+
+    if (!response) {
+      return {
+        status: "error",
+        error: `No handler responded to action ${actionId} on component ${id}`,
+        durationMs: elapsed(),
+      };
+    }
+
+    try {
+      const result = await response;
+      return { status: "success", result, durationMs: elapsed() };
+    } catch (error) {
+      return {
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: elapsed(),
+      };
+    }
+  }
 
-    // Add data attributes to the DOM element
-    element.setAttribute("data-hlas-id", componentId);
-    element.setAttribute("data-hlas-name", name);
+  /**
+   * Executes several actions in order, e.g. `setValue` on an input and then `click` on the
+   * button that submits it. Each step is executed like {@link Registry.executeAsync}; after it
+   * succeeds, the batch waits for React to commit the resulting updates, so that the next step
+   * sees the new state and the components it rendered. The batch stops at the first step that
+   * does not succeed.
+   *
+   * @param {BatchStep[]} steps - The actions to execute: `{ id, actionId, params }`.
+   * @param {BatchOptions} [options={}] - Pass `{ rollbackOnError: true }` to undo the succeeded steps
+   *                                      when a step fails (see {@link Registry.undo}).
+   * @returns {Promise<BatchResult>} Resolves (never rejects) with `"completed"` or `"failed"` and the
+   *                                 result of each executed step.
+   *
+   * @example
+   * ```typescript
+   * const { status, steps } = await window.hlas.executeBatch([
+   *   { id: "todo-input", actionId: "setValue", params: { value: "Buy milk" } },
+   *   { id: "add-todo", actionId: "addTodo" },
+   * ]);
+   * ```
+   */
+  async executeBatch(
+    steps: BatchStep[],
+    options: BatchOptions = {},
+  ): Promise<BatchResult> {
+    const startedAt = performance.now();
+    // Scopes and the audit caller are only set synchronously (see withSession)
+    const session = this.activeSession;
+    // The undo entries of this batch's steps, so that a rollback leaves other callers' actions alone
+    const undoEntries: UndoEntry[] = [];
+    const results: BatchStepResult[] = [];
+
+    for (const [index, step] of steps.entries()) {
+      const execution = await this.withSession(session, () =>
+        this.executeTracked(step.id, step.actionId, step.params, (entry) =>
+          undoEntries.push(entry),
+        ),
+      );
+      results.push({ index, step, ...execution });
 
-    if (description) {
-      element.setAttribute("data-hlas-description", description);
+      if (execution.status !== "success") {
+        console.error(
+          `Batch stopped at step ${index} (${step.actionId} on component ${step.id}): ${execution.error}`,
+        );
+        const result: BatchResult = {
+          status: "failed",
+          steps: results,
+          durationMs: 0,
+        };
+        if (options.rollbackOnError) {
+          result.rolledBack = 0;
+          for (const entry of undoEntries.reverse()) {
+            const reverted = await this.withSession(session, () =>
+              this.revert(entry),
+            );
+            if (reverted.status === "success") {
+              result.rolledBack++;
+            }
+            await waitForCommit();
+          }
+        }
+        result.durationMs = performance.now() - startedAt;
+        return result;
+      }
+      await waitForCommit();
     }
 
-    // Add action data
-    if (actions.length > 0) {
-      element.setAttribute(
-        "data-hlas-actions",
-        actions.map((a) => a.id).join(","),
+    return {
+      status: "completed",
+      steps: results,
+      durationMs: performance.now() - startedAt,
+    };
+  }
+
+  /**
+   * Exports the actions of all registered components as JSON-Schema-based tool definitions for
+   * function-calling LLMs: one tool per component action, with the action's declared
+   * {@link ActionParameter}s as its parameter schema.
+   *
+   * @param {ToolDefinitionOptions} [options={}] - The output format (`"generic"`, `"openai"` or `"anthropic"`)
+   *                                               and whether to only export visible components.
+   * @returns {ToolDefinitionFormats[F][]} The tool definitions. Tool names are derived from the components'
+   *                                       stable IDs, so calls can be routed back with
+   *                                       {@link Registry.dispatchToolCall} after other components have been
+   *                                       registered or unregistered. Names shared by several components are
+   *                                       left out with a warning.
+   */
+  toToolDefinitions<F extends ToolFormat = "generic">(
+    options: ToolDefinitionOptions<F> = {},
+  ): ToolDefinitionFormats[F][] {
+    const format = (options.format || "generic") as F;
+    const isVisible = this.visibilityChecker();
+    const tools = this.buildAccessibleTools();
+
+    const ambiguous = findAmbiguousToolNames(tools);
+    for (const [name, sharing] of ambiguous) {
+      console.warn(
+        `Tool ${name} is left out because it would run actions of several components (${sharing
+          .map((tool) => tool.componentId)
+          .join(", ")}); give them distinct IDs`,
       );
     }
 
-    return componentId;
+    return tools
+      .filter(
+        (tool) =>
+          !ambiguous.has(tool.name) &&
+          (!options.onlyVisible ||
+            isVisible(this.components.get(tool.componentId)!)),
+      )
+      .map((tool) => formatToolDefinition(tool, format));
   }
 
   /**
-   * Unregisters a component from the HLAS system using its ID.
-   * This should be called when the component is unmounted to prevent memory leaks
-   * and stale references.
+   * Builds the tool definitions of the components accessible to the current caller, named after
+   * their stable IDs (see {@link toToolName}). Exported and dispatched names come from here, so a
+   * name keeps referring to the same component whatever is filtered, registered or unregistered.
    *
-   * @param {string} id - The ID of the component to unregister.
-   * @returns {boolean} `true` if the component was found and removed, `false` otherwise.
-   * @remarks Typically called automatically during the cleanup phase of `useEffect` in
-   *          hooks or components that use {@link Registry.register}.
+   * @returns {ToolDefinition[]} The tool definitions, in component and action order.
    */
-  unregister(id: string): boolean {
-    return this.components.delete(id);
+  private buildAccessibleTools(): ToolDefinition[] {
+    return buildToolDefinitions(
+      this.listAccessibleComponents(),
+      this.resolveStableIds(),
+    );
   }
 
   /**
-   * Finds registered components whose name or description includes the given query string.
-   * The search is case-insensitive.
+   * Runs the action behind a tool call made by a model, as exported by {@link Registry.toToolDefinitions}.
+   * The call is routed to the tool's component and action and executed like {@link Registry.execute},
+   * including parameter validation, but awaited like {@link Registry.executeAsync}.
    *
-   * @param {string} query - The string to search for within component names and descriptions.
-   * @returns {ComponentEntry[]} An array of {@link ComponentEntry} objects for components
-   *                             that match the query. Returns an empty array if no matches are found.
+   * @param {ToolCall} call - The tool call, in generic, OpenAI or Anthropic form.
+   * @returns {Promise<ToolCallResult>} The execution result, with the tool's name and the call's ID.
+   *                                    Unknown tools are reported as `"not_found"`, unparsable
+   *                                    arguments as `"invalid_params"`, and names shared by several
+   *                                    components as `"error"`.
    */
-  find(query: string): ComponentEntry[] {
-    const results: ComponentEntry[] = [];
-    const lowerQuery = query.toLowerCase();
+  async dispatchToolCall(call: ToolCall): Promise<ToolCallResult> {
+    const startedAt = performance.now();
+    const { name, params, error } = parseToolCall(call);
+    const base =
+      call.id !== undefined ? { name, toolCallId: call.id } : { name };
 
-    for (const component of this.components.values()) {
-      if (
-        component.name.toLowerCase().includes(lowerQuery) ||
-        (component.description &&
-          component.description.toLowerCase().includes(lowerQuery))
-      ) {
-        results.push(component);
-      }
+    if (error) {
+      console.error(error);
+      return {
+        ...base,
+        status: "invalid_params",
+        error,
+        durationMs: performance.now() - startedAt,
+      };
     }
 
-    return results;
+    const matches = this.buildAccessibleTools().filter(
+      (candidate) => candidate.name === name,
+    );
+    if (matches.length > 1) {
+      const message = `Tool ${name} is ambiguous: it matches actions of the components ${matches
+        .map((candidate) => candidate.componentId)
+        .join(", ")}`;
+      console.error(message);
+      return {
+        ...base,
+        status: "error",
+        error: message,
+        durationMs: performance.now() - startedAt,
+      };
+    }
+
+    const [tool] = matches;
+    if (!tool) {
+      console.error(`Unknown tool ${name}`);
+      return {
+        ...base,
+        status: "not_found",
+        error: `Unknown tool ${name}`,
+        durationMs: performance.now() - startedAt,
+      };
+    }
+
+    const result = await this.executeAsync(
+      tool.componentId,
+      tool.actionId,
+      params,
+    );
+    return { ...base, ...result };
   }
 
   /**
-   * Dispatches a custom event (`hlas:execute`) on the component's DOM element
-   * to trigger a specific action.
-   *
-   * The actual execution logic for the action is expected to be handled by an event listener
-   * set up on the component, typically by the {@link useHlasActions} hook. This method
-   * itself does not execute the action's behavior.
+   * Validates the parameters of an action call against the `parameters` declared by the
+   * component's {@link ActionSchema} for that action. Actions without declared parameters
+   * (or without a schema) receive the parameters unchanged.
    *
-   * @param {string} id - The ID of the component on which to execute the action.
-   * @param {string} actionId - The identifier of the action to be executed (e.g., "click", "setValue").
-   * @param {Record<string, unknown>} [params] - Optional parameters to pass to the action handler
-   *                                             via the event's `detail` property.
-   * @returns {boolean} `true` if the event was dispatched (i.e., the component was found),
-   *                    `false` otherwise (e.g., component not found).
+   * @param {ComponentEntry} component - The component the action is executed on.
+   * @param {string} actionId - The identifier of the action.
+   * @param {Record<string, unknown>} [params] - The parameters supplied by the caller.
+   * @returns {{ params: Record<string, unknown>; error?: string }} The parameters to dispatch, or an
+   *          error message listing every offending parameter.
    */
-  execute(
-    id: string,
+  private prepareParams(
+    component: ComponentEntry,
     actionId: string,
     params?: Record<string, unknown>,
-  ): boolean {
-    // This method dispatches a custom event that the useHlasActions hook listens for.
-    // The hook is then responsible for invoking the actual action function.
-    const component = this.components.get(id);
+  ): { params: Record<string, unknown>; error?: string } {
+    const schema = component.actions.find((action) => action.id === actionId);
 
-    if (!component) {
-      console.error(`Component with ID ${id} not found`);
-      return false;
+    if (!schema || !schema.parameters) {
+      return { params: params || {} };
     }
 
-    const event = new CustomEvent("hlas:execute", {
-      detail: {
-        id,
-        actionId,
-        params: params || {},
-      },
-    });
+    const validation = validateParameters(schema.parameters, params);
+    if (!validation.valid) {
+      return {
+        params: validation.params,
+        error: `Invalid parameters for action ${actionId} on component ${component.id}: ${validation.errors.join("; ")}`,
+      };
+    }
 
-    component.element.dispatchEvent(event);
-    return true;
+    return { params: validation.params };
   }
 
   /**
    * Sets programmatic focus on the DOM element of a registered component.
    *
-   * @param {string} id - The ID of the component to focus.
+   * @param {string} id - The ID of the component to focus, its short ref from an outline
+   *                      (see {@link Registry.readScreen}) or its stable ID.
    * @returns {boolean} `true` if the component was found and its element is an `HTMLElement`
    *                    (focus was attempted), `false` otherwise.
    * @remarks The element must be focusable in the DOM for this to have a visual effect.
    */
   focus(id: string): boolean {
-    const component = this.components.get(id);
+    id = this.resolveId(id);
+    const audit = this.beginAudit("focus", id);
+    const component = this.getAccessibleComponent(id);
 
     if (!component) {
       console.error(`Component with ID ${id} not found`);
+      audit("not_found", `Component with ID ${id} not found`);
       return false;
     }
 
     if (component.element instanceof HTMLElement) {
       component.element.focus();
+      audit("success");
       return true;
     }
 
+    audit("error", `Component with ID ${id} is not an HTML element`);
     return false;
   }
 
   /**
-   * @param {string} id - The ID of the component to highlight.
+   * @param {string} id - The ID of the component to highlight, its short ref from an outline
+   *                      (see {@link Registry.readScreen}) or its stable ID.
    * @param {number} [duration=2000] - The duration in milliseconds for the highlight to remain active.
    *                                   If 0 or negative, the highlight may persist until manually cleared
    *                                   or another highlight/tour starts.
@@ -263,10 +1832,17 @@ class Registry {
     // We don't need to destroy an active tour as we now have separate instances
     // for tour and highlight functionality
 
-    const component = this.components.get(id);
+    id = this.resolveId(id);
+    const audit = this.beginAudit("highlight", id, undefined, {
+      duration,
+      title,
+      description,
+    });
+    const component = this.getAccessibleComponent(id);
 
     if (!component) {
       console.error(`Component with ID ${id} not found`);
+      audit("not_found", `Component with ID ${id} not found`);
       return false;
     }
 
@@ -307,9 +1883,11 @@ class Registry {
         }, duration);
       }
 
+      audit("success");
       return true;
     }
 
+    audit("error", `Component with ID ${id} cannot be highlighted`);
     return false;
   }
 
@@ -325,6 +1903,9 @@ class Registry {
    * @remarks If a tour is already active, it will be destroyed before starting a new one.
    */
   startTour(steps: TourStep[], autoStart: boolean = true): boolean {
+    const audit = this.beginAudit("startTour", undefined, undefined, {
+      steps: steps.map((step) => step.id),
+    });
     try {
       // If there's already an active tour, destroy it first
       if (this.tourDriverInstance) {
@@ -336,7 +1917,7 @@ class Registry {
       const driverSteps = [];
 
       for (const step of steps) {
-        const component = this.components.get(step.id);
+        const component = this.getAccessibleComponent(this.resolveId(step.id));
         if (!component || !(component.element instanceof HTMLElement)) {
           console.warn(
             `Component with ID ${step.id} not found or not an HTML element`,
@@ -360,6 +1941,7 @@ class Registry {
 
       if (driverSteps.length === 0) {
         console.error("No valid steps found for tour");
+        audit("not_found", "No valid steps found for tour");
         return false;
       }
 
@@ -387,9 +1969,11 @@ class Registry {
         this.activeTour = true;
       }
 
+      audit("success");
       return true;
     } catch (error) {
       console.error("Error starting tour:", error);
+      audit("error", error instanceof Error ? error.message : String(error));
       return false;
     }
   }
@@ -406,41 +1990,671 @@ class Registry {
    * This method is used to provide a snapshot of the UI's interactable elements and their state
    * to an external system like an LLM.
    *
-   * @returns {ScreenComponent[]} An array of {@link ScreenComponent} objects, each describing a
-   *                              registered component. The visibility of components is not determined
-   *                              by this method by default (see {@link ScreenComponent.visible}).
+   * With `{ format: "outline" }`, the components are rendered instead as an indented outline of
+   * their nesting, similar to a browser accessibility snapshot (see {@link renderOutline}). Each
+   * component is shown with a short ref (`e1`, `e2`, …) that `execute`, `executeAsync`, `focus`,
+   * `highlight` and `startTour` accept in place of its ID.
+   *
+   * @param {ReadScreenOptions} [options={}] - Options controlling which components are returned and how.
+   * @returns {ScreenComponent[] | string} An array of {@link ScreenComponent} objects, each describing a
+   *                              registered component, with `visible` computed for each of them
+   *                              (see {@link isElementVisible}). `parentId` and `childIds` reflect
+   *                              the DOM nesting of the components (see {@link Registry.readTree}).
+   *                              With `onlyVisible`, hidden components are left out and `childIds`
+   *                              only reference returned components. The outline text with `format: "outline"`.
    */
-  readScreen(): ScreenComponent[] {
+  readScreen(options: ReadScreenOptions & { format: "outline" }): string;
+  readScreen(options?: ReadScreenOptions): ScreenComponent[];
+  readScreen(options: ReadScreenOptions = {}): ScreenComponent[] | string {
+    if (options.format === "outline") {
+      return renderOutline(
+        this.readTree(),
+        (id) => this.refFor(id),
+        options.onlyVisible,
+      );
+    }
+
     const results: ScreenComponent[] = [];
+    const relations = this.resolveRelations();
+    const stableIds = this.resolveStableIds();
+    const isVisible = this.visibilityChecker();
 
-    for (const component of this.components.values()) {
-      // Visibility is not determined by readScreen by default.
-      // If a future feature adds visibility checks, the 'visible' field in ScreenComponent can be populated.
+    for (const component of this.listAccessibleComponents()) {
+      const visible = isVisible(component);
 
-      // Extract content from data attributes if available
-      let content: unknown = undefined;
-      const contentAttr = component.element.getAttribute("data-hlas-content");
-
-      if (contentAttr) {
-        try {
-          content = JSON.parse(contentAttr);
-        } catch {
-          content = contentAttr;
-        }
+      if (options.onlyVisible && !visible) {
+        continue;
       }
 
+      // Extract content from data attributes if available
+      const content = parseContent(
+        component.element.getAttribute("data-hlas-content"),
+      );
+
+      const { parentId, childIds } = relations.get(component.id)!;
+
       results.push({
         id: component.id,
+        stableId: stableIds.get(component.id),
         name: component.name,
         description: component.description,
-        // visible property is intentionally not set here.
+        type:
+          component.element.getAttribute("data-hlas-component") || undefined,
+        visible,
         actions: component.actions,
         content,
+        parentId,
+        childIds,
       });
     }
 
+    if (options.onlyVisible) {
+      const returnedIds = new Set(results.map((component) => component.id));
+      for (const component of results) {
+        component.childIds = component.childIds!.filter((childId) =>
+          returnedIds.has(childId),
+        );
+      }
+    }
+
     return results;
   }
+
+  /**
+   * Provides the short ref of a component, assigning the next unused one on first use.
+   *
+   * @param {string} id - The ID of the component.
+   * @returns {string} The ref, e.g. `e3`.
+   */
+  private refFor(id: string): string {
+    let ref = this.refs.get(id);
+    if (!ref) {
+      ref = `e${++this.refCount}`;
+      this.refs.set(id, ref);
+      this.refTargets.set(ref, id);
+    }
+    return ref;
+  }
+
+  /**
+   * Releases the short ref of a component that is no longer registered. Components that remount
+   * usually get a new ID, so keeping their refs would leak one per mount.
+   *
+   * @param {string} id - The ID of the component.
+   */
+  private releaseRef(id: string): void {
+    const ref = this.refs.get(id);
+    if (ref !== undefined) {
+      this.refs.delete(id);
+      this.refTargets.delete(ref);
+    }
+  }
+
+  /**
+   * Resolves a short ref or a stable ID to the ID of its component. Registered IDs take
+   * precedence over refs, and refs over stable IDs. A stable ID shared by several components
+   * (see {@link findStableIdCollisions}) is not resolved, and a registered ID that another
+   * component derives as its stable ID is logged.
+   *
+   * @param {string} id - A component ID, a ref or a stable ID (see {@link ScreenComponent.stableId}).
+   * @returns {string} The component ID it refers to, or the given value unchanged.
+   */
+  private resolveId(id: string): string {
+    if (this.components.has(id)) {
+      // Only derived stable IDs can collide with a registered ID
+      const derived = Array.from(this.components.values()).some(
+        (component) => component.generatedId,
+      );
+      const shared = derived
+        ? findStableIdCollisions(this.resolveStableIds()).get(id)
+        : undefined;
+      if (shared) {
+        console.warn(
+          `ID ${id} is also the stable ID of ${shared.filter((other) => other !== id).join(", ")}; using the component registered as ${id}`,
+        );
+      }
+      return id;
+    }
+
+    const target = this.refTargets.get(id);
+    if (target !== undefined && this.components.has(target)) {
+      return target;
+    }
+
+    const matches: string[] = [];
+    for (const [componentId, stableId] of this.resolveStableIds()) {
+      if (stableId === id) {
+        matches.push(componentId);
+      }
+    }
+    if (matches.length > 1) {
+      console.warn(
+        `Stable ID ${id} is ambiguous: it matches the components ${matches.join(", ")}; use one of their IDs`,
+      );
+      return id;
+    }
+    return matches[0] ?? id;
+  }
+
+  /**
+   * Returns the recorded calls of `execute`, `executeAsync`, `dispatchToolCall`, `focus`, `highlight`
+   * and `startTour`, with their caller, component, parameters and outcome (see {@link AuditEntry}).
+   * The most recent {@link DEFAULT_AUDIT_CAPACITY} calls are kept.
+   *
+   * Callers restricted to scopes only see the calls on components and actions their scopes allow,
+   * and their own calls that did not address a component, such as tours.
+   *
+   * @param {AuditQuery} [query={}] - Filters by component, operation, caller, outcome or time, and a limit.
+   * @returns {AuditEntry[]} The matching calls, oldest first.
+   *
+   * @example
+   * ```javascript
+   * window.hlas.history({ caller: "support-agent", outcome: "forbidden" });
+   * ```
+   */
+  history(query: AuditQuery = {}): AuditEntry[] {
+    return this.auditLog.query(query, this.auditFilter());
+  }
+
+  /**
+   * Exports the recorded calls as JSON Lines, e.g. to attach them to a support ticket.
+   *
+   * @param {AuditQuery} [query={}] - The filters to apply (see {@link Registry.history}).
+   * @returns {string} One JSON object per line, oldest first.
+   */
+  exportHistory(query: AuditQuery = {}): string {
+    return this.auditLog.toJSONLines(query, this.auditFilter());
+  }
+
+  /**
+   * Creates the filter selecting the audit entries the current caller may see (see {@link Registry.history}).
+   *
+   * @returns {((entry: AuditEntry) => boolean) | undefined} The filter, or `undefined` if the caller is unrestricted.
+   */
+  private auditFilter(): ((entry: AuditEntry) => boolean) | undefined {
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    if (!scopes) {
+      return undefined;
+    }
+
+    const caller = this.activeSession?.name || "global";
+    return (entry) =>
+      entry.componentId === undefined
+        ? entry.caller === caller
+        : (this.auditScopes.get(entry) || []).every((scope) =>
+            scopes.has(scope),
+          );
+  }
+
+  /**
+   * Removes all recorded calls from the audit log.
+   */
+  clearHistory(): void {
+    this.auditLog.clear();
+  }
+
+  /**
+   * Starts recording a call in the audit log. The time, the caller and the component's name are
+   * taken when the call is made; the returned function records the call once its outcome is known.
+   *
+   * @param {AuditOperation} operation - The called method.
+   * @param {string} [componentId] - The resolved ID of the addressed component.
+   * @param {string} [actionId] - The executed action.
+   * @param {Record<string, unknown>} [params] - The parameters passed by the caller.
+   * @param {Scope[]} [scopes] - The scopes needed to see the entry (see {@link Registry.history}). Defaults to
+   *                             those of the component and the action, if the component is registered.
+   * @returns {(outcome: AuditOutcome, error?: string) => void} Records the call with its outcome.
+   */
+  private beginAudit(
+    operation: AuditOperation,
+    componentId?: string,
+    actionId?: string,
+    params?: Record<string, unknown>,
+    scopes?: Scope[],
+  ): (outcome: AuditOutcome, error?: string) => void {
+    const timestamp = Date.now();
+    const startedAt = performance.now();
+    const caller = this.activeSession?.name || "global";
+    const component =
+      componentId !== undefined ? this.components.get(componentId) : undefined;
+    const componentName = component?.name;
+    const requiredScopes = scopes || this.requiredScopes(component, actionId);
+    const recordedParams = params ? { ...params } : undefined;
+
+    return (outcome, error) => {
+      const entry: Omit<AuditEntry, "sequence"> = {
+        timestamp,
+        caller,
+        operation,
+        outcome,
+        durationMs: performance.now() - startedAt,
+      };
+      if (componentId !== undefined) entry.componentId = componentId;
+      if (componentName !== undefined) entry.componentName = componentName;
+      if (actionId !== undefined) entry.actionId = actionId;
+      if (recordedParams !== undefined) entry.params = recordedParams;
+      if (error !== undefined) entry.error = error;
+      this.auditScopes.set(this.auditLog.record(entry), requiredScopes);
+    };
+  }
+
+  /**
+   * Creates a view of the registry that only sees the components and actions whose scopes are
+   * granted (see {@link HlasSession}), to hand to an agent instead of the unrestricted `window.hlas`.
+   * Components require the `"read"` scope and actions the `"write"` scope unless they declare another one.
+   *
+   * @param {SessionOptions} options - The scopes granted to the session, and its name in the audit log.
+   * @returns {HlasSession} The session. Its methods behave like the registry's, limited to the granted scopes.
+   *
+   * @example
+   * ```javascript
+   * import { createSession } from "hlas";
+   *
+   * const session = createSession({ scopes: ["read"] });
+   * session.readScreen(); // components, without their "write" actions
+   * await session.executeAsync("todo-list", "add", { text: "Milk" }); // { status: "forbidden", ... }
+   * ```
+   */
+  createSession(options: SessionOptions): HlasSession {
+    const session = {
+      name: options.name || `session-${++this.sessionCount}`,
+      scopes: new Set(options.scopes),
+    };
+    const scoped =
+      <A extends unknown[], R>(method: (...args: A) => R) =>
+      (...args: A): R =>
+        this.withSession(session, () => method.apply(this, args));
+
+    return {
+      name: session.name,
+      scopes: Array.from(session.scopes),
+      find: scoped(this.find),
+      findBest: scoped(this.findBest),
+      readScreen: scoped(this.readScreen) as HlasSession["readScreen"],
+      readTree: scoped(this.readTree),
+      serializeScreen: scoped(this.serializeScreen),
+      execute: scoped(this.execute),
+      executeAsync: scoped(this.executeAsync),
+      executeBatch: scoped(this.executeBatch),
+      waitFor: scoped(this.waitFor),
+      waitForContent: scoped(this.waitForContent),
+      waitForGone: scoped(this.waitForGone),
+      toToolDefinitions: scoped(
+        this.toToolDefinitions,
+      ) as HlasSession["toToolDefinitions"],
+      dispatchToolCall: scoped(this.dispatchToolCall),
+      focus: scoped(this.focus),
+      highlight: scoped(this.highlight),
+      startTour: scoped(this.startTour),
+      undo: scoped(this.undo),
+      redo: scoped(this.redo),
+      history: scoped(this.history),
+      exportHistory: scoped(this.exportHistory),
+      snapshot: scoped(this.snapshot),
+      diff: scoped(this.diff),
+      subscribe: scoped(this.subscribe),
+      on: scoped(this.on) as HlasSession["on"],
+    };
+  }
+
+  /**
+   * Restricts the calls made outside of a session, e.g. through `window.hlas`, to the given scopes.
+   * Snapshots taken before are forgotten, so that {@link Registry.diff} cannot reveal what the
+   * previous scopes allowed.
+   *
+   * @param {Scope[]} [scopes] - The scopes granted by default. Omit them to lift the restriction.
+   */
+  setDefaultScopes(scopes?: Scope[]): void {
+    this.defaultScopes = scopes ? new Set(scopes) : undefined;
+    this.snapshots = [];
+  }
+
+  /**
+   * Runs a call on behalf of a session. Scopes are checked and the caller is noted for the audit
+   * log synchronously: asynchronous methods such as {@link Registry.executeAsync} resolve their
+   * component, check the action's scope and start their audit record before their first `await`.
+   *
+   * @param {{ name: string; scopes: Set<Scope> } | undefined} session - The name and scopes of the session,
+   *                                                                      or `undefined` for the global API.
+   * @param {() => T} call - The call to run.
+   * @returns {T} The result of the call.
+   */
+  private withSession<T>(
+    session: { name: string; scopes: Set<Scope> } | undefined,
+    call: () => T,
+  ): T {
+    const previous = this.activeSession;
+    this.activeSession = session;
+    try {
+      return call();
+    } finally {
+      this.activeSession = previous;
+    }
+  }
+
+  /**
+   * Reports problems with the registered components that make them unreachable or ambiguous:
+   * IDs registered for several elements, elements registered under several IDs, stable IDs shared
+   * by several components, and sibling components with the same name (see {@link DiagnosticKind}).
+   * Registrations are not changed. Only the components the caller may see are reported on
+   * (see {@link Registry.listAccessibleComponents}).
+   *
+   * @returns {RegistryDiagnostic[]} The problems found, `warning`s first. Empty if there are none.
+   *
+   * @example
+   * ```javascript
+   * for (const { severity, message } of window.hlas.diagnostics()) {
+   *   console[severity === "warning" ? "warn" : "info"](message);
+   * }
+   * ```
+   */
+  diagnostics(): RegistryDiagnostic[] {
+    const warnings: RegistryDiagnostic[] = [];
+    const infos: RegistryDiagnostic[] = [];
+    const scopes = this.activeSession?.scopes || this.defaultScopes;
+    const isAccessible = (entry: ComponentEntry) =>
+      !scopes || this.restrictToScopes(entry, scopes) !== undefined;
+    const components = this.listAccessibleComponents();
+    const accessibleIds = new Set(components.map((component) => component.id));
+
+    for (const [id, entries] of this.replacedEntries) {
+      const current = this.components.get(id);
+      const previous = entries.filter(
+        (entry) => entry.element !== current?.element && isAccessible(entry),
+      );
+      if (!accessibleIds.has(id) || previous.length === 0) continue;
+
+      warnings.push({
+        kind: "duplicate-id",
+        severity: "warning",
+        message: `Component ID ${id} was registered for ${previous.length + 1} different elements; only the last registration is reachable`,
+        ids: [id],
+      });
+    }
+
+    const idsByElement = new Map<HTMLElement, string[]>();
+    for (const component of components) {
+      if (component.fallback) continue;
+      const ids = idsByElement.get(component.element) || [];
+      idsByElement.set(component.element, [...ids, component.id]);
+    }
+    for (const ids of idsByElement.values()) {
+      if (ids.length < 2) continue;
+
+      warnings.push({
+        kind: "shared-element",
+        severity: "warning",
+        message: `One element is registered under the IDs ${ids.join(", ")} and is listed as ${ids.length} components`,
+        ids,
+      });
+    }
+
+    const relations = this.resolveRelations(components);
+    for (const [stableId, collidingIds] of findStableIdCollisions(
+      this.resolveStableIds(),
+    )) {
+      const ids = collidingIds.filter((id) => accessibleIds.has(id));
+      if (ids.length < 2) continue;
+
+      const owner = ids.includes(stableId) ? stableId : undefined;
+      warnings.push({
+        kind: "stable-id-collision",
+        severity: "warning",
+        message: owner
+          ? `Components ${ids.join(", ")} share the stable ID ${stableId}; it refers to the component registered as ${owner}`
+          : `Components ${ids.join(", ")} share the stable ID ${stableId}; it cannot be used to refer to them`,
+        ids,
+      });
+    }
+
+    const siblingGroups: string[][] = Array.from(relations.values()).map(
+      (relation) => relation.childIds,
+    );
+    siblingGroups.push(
+      Array.from(relations.entries())
+        .filter(([, relation]) => relation.parentId === undefined)
+        .map(([id]) => id),
+    );
+    for (const siblings of siblingGroups) {
+      const idsByName = new Map<string, string[]>();
+      for (const id of siblings) {
+        const name = this.components.get(id)!.name;
+        idsByName.set(name, [...(idsByName.get(name) || []), id]);
+      }
+      for (const [name, ids] of idsByName) {
+        const elements = new Set(
+          ids.map((id) => this.components.get(id)!.element),
+        );
+        // Registrations of a single element are reported as shared-element
+        if (elements.size < 2) continue;
+
+        infos.push({
+          kind: "sibling-name-collision",
+          severity: "info",
+          message: `Sibling components ${ids.join(", ")} are all named ${JSON.stringify(name)}`,
+          ids,
+        });
+      }
+    }
+
+    return [...warnings, ...infos];
+  }
+
+  /**
+   * Serializes the screen for an LLM prompt within a character or token budget, keeping
+   * visible and actionable components when something has to be left out.
+   *
+   * @param {SerializeScreenOptions} [options={}] - The format, the budget and the content limits.
+   * @returns {SerializedScreen} The serialized screen and what was left out.
+   * @see serializeComponents
+   */
+  serializeScreen(options: SerializeScreenOptions = {}): SerializedScreen {
+    return serializeComponents(
+      this.readScreen({ onlyVisible: options.onlyVisible }),
+      options,
+    );
+  }
+
+  /**
+   * Takes a versioned snapshot of the screen. The version only increases when the screen
+   * differs from the previous snapshot, so callers can cheaply tell whether anything changed.
+   * The most recent snapshots are retained for {@link Registry.diff}, separately for each session.
+   *
+   * @returns {ScreenSnapshot} The current screen state and its version.
+   */
+  snapshot(): ScreenSnapshot {
+    const snapshots = this.snapshotHistory();
+    const components = this.readScreen();
+    const latest = snapshots[snapshots.length - 1];
+
+    if (latest && isSameValue(latest.components, components)) {
+      return latest;
+    }
+
+    const snapshot: ScreenSnapshot = {
+      version: ++this.snapshotVersion,
+      components,
+    };
+    snapshots.push(snapshot);
+    if (snapshots.length > MAX_SNAPSHOTS) {
+      snapshots.shift();
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Returns the snapshot history of the current caller. Sessions keep their own, so that a diff
+   * never compares against components their scopes do not allow.
+   *
+   * @returns {ScreenSnapshot[]} The snapshots, oldest first.
+   */
+  private snapshotHistory(): ScreenSnapshot[] {
+    const session = this.activeSession;
+    if (!session) {
+      return this.snapshots;
+    }
+
+    let snapshots = this.sessionSnapshots.get(session);
+    if (!snapshots) {
+      snapshots = [];
+      this.sessionSnapshots.set(session, snapshots);
+    }
+    return snapshots;
+  }
+
+  /**
+   * Computes what changed on the screen since a previous snapshot, so that an LLM loop can send
+   * the model only the difference instead of the whole screen. Takes a new snapshot first
+   * (see {@link Registry.snapshot}); pass the returned `toVersion` to the next call.
+   *
+   * @param {number} fromVersion - The version of a snapshot previously returned by `snapshot()` or `diff()`.
+   * @returns {ScreenDiff} The added, removed and changed components. If `fromVersion` is unknown or
+   *                       no longer retained, `reset` is `true` and `added` holds the complete screen.
+   */
+  diff(fromVersion: number): ScreenDiff {
+    const current = this.snapshot();
+    const base = this.snapshotHistory().find(
+      (snapshot) => snapshot.version === fromVersion,
+    );
+
+    if (!base) {
+      return {
+        fromVersion,
+        toVersion: current.version,
+        added: current.components,
+        removed: [],
+        changed: [],
+        reset: true,
+      };
+    }
+
+    return {
+      fromVersion,
+      toVersion: current.version,
+      ...diffScreens(base.components, current.components),
+    };
+  }
+
+  /**
+   * Retrieves the registered components as a tree, nesting each component under the closest
+   * registered component whose DOM element contains it.
+   *
+   * @returns {ScreenTreeNode[]} The top-level components (those without a registered ancestor),
+   *                             in document order, each carrying its nested `children`.
+   * @see Registry.readScreen
+   */
+  readTree(): ScreenTreeNode[] {
+    const nodes = new Map<string, ScreenTreeNode>();
+    const roots: ScreenTreeNode[] = [];
+
+    for (const component of this.readScreen()) {
+      nodes.set(component.id, { ...component, children: [] });
+    }
+
+    for (const node of nodes.values()) {
+      if (node.parentId === undefined) {
+        roots.push(node);
+      }
+      for (const childId of node.childIds || []) {
+        node.children.push(nodes.get(childId)!);
+      }
+    }
+
+    return roots.sort((a, b) =>
+      compareDocumentOrder(
+        this.components.get(a.id)!.element,
+        this.components.get(b.id)!.element,
+      ),
+    );
+  }
+
+  /**
+   * Derives the stable IDs of the presented components from their nesting (see {@link deriveStableIds}).
+   * All components are taken into account, including those the caller's scopes leave out, so that
+   * a stable ID refers to the same component for every caller.
+   *
+   * @returns {Map<string, string>} The stable IDs, keyed by component ID.
+   */
+  private resolveStableIds(): Map<string, string> {
+    const components = this.listComponents();
+    const relations = this.resolveRelations(components);
+    const nodes = new Map<string, StableIdNode>();
+    const rootIds: string[] = [];
+
+    for (const component of components) {
+      const { parentId, childIds } = relations.get(component.id)!;
+      nodes.set(component.id, {
+        id: component.id,
+        name: component.name,
+        generatedId: component.generatedId,
+        childIds,
+      });
+      if (parentId === undefined) {
+        rootIds.push(component.id);
+      }
+    }
+
+    rootIds.sort((a, b) =>
+      compareDocumentOrder(
+        this.components.get(a)!.element,
+        this.components.get(b)!.element,
+      ),
+    );
+    return deriveStableIds(rootIds, nodes);
+  }
+
+  /**
+   * Derives parent/child relationships between registered components from the containment
+   * of their DOM elements. A component's parent is the closest ancestor element that is itself
+   * registered; components sharing one element are treated as siblings.
+   *
+   * @param {ComponentEntry[]} [components] - The components to relate. Defaults to the components the
+   *                                          current caller may see (see {@link Registry.listAccessibleComponents}).
+   * @returns {Map<string, { parentId?: string; childIds: string[] }>} Relations keyed by component ID.
+   *          `childIds` are sorted in document order.
+   */
+  private resolveRelations(
+    components: ComponentEntry[] = this.listAccessibleComponents(),
+  ): Map<string, { parentId?: string; childIds: string[] }> {
+    const elementIndex = new Map<HTMLElement, string>();
+    for (const component of components) {
+      if (!elementIndex.has(component.element)) {
+        elementIndex.set(component.element, component.id);
+      }
+    }
+
+    const relations = new Map<
+      string,
+      { parentId?: string; childIds: string[] }
+    >();
+    for (const component of components) {
+      relations.set(component.id, { childIds: [] });
+    }
+
+    for (const component of components) {
+      let ancestor = component.element.parentElement;
+      while (ancestor && !elementIndex.has(ancestor)) {
+        ancestor = ancestor.parentElement;
+      }
+      if (!ancestor) continue;
+
+      const parentId = elementIndex.get(ancestor)!;
+      relations.get(component.id)!.parentId = parentId;
+      relations.get(parentId)!.childIds.push(component.id);
+    }
+
+    for (const relation of relations.values()) {
+      relation.childIds.sort((a, b) =>
+        compareDocumentOrder(
+          this.components.get(a)!.element,
+          this.components.get(b)!.element,
+        ),
+      );
+    }
+
+    return relations;
+  }
 }
 
 // Create global registry instance
@@ -0,0 +1,306 @@
+/**
+ * @module core/serializer
+ * @description Serializes screen components for LLM prompts within a character or token budget.
+ *
+ * Real screens can be much larger than a prompt should be, mostly because of long content such as
+ * `Describe.List` items. The serializer shortens content arrays and strings, and when the budget is
+ * still exceeded, it first shrinks the content of the least important components and then leaves
+ * them out, keeping visible and actionable components for as long as possible. Used by
+ * {@link Registry.serializeScreen}.
+ */
+
+import {
+  ActionSchema,
+  ScreenComponent,
+  SerializedScreen,
+  SerializeScreenOptions,
+} from "./types";
+
+/**
+ * The number of characters per token assumed when a budget is given in tokens.
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * The content limits tried, in order, when a component does not fit into the remaining budget.
+ * `null` stands for the limits given in the options.
+ */
+const CONTENT_LEVELS: Array<{
+  maxItems: number;
+  maxTextLength: number;
+} | null> = [
+  null,
+  { maxItems: 3, maxTextLength: 50 },
+  { maxItems: 0, maxTextLength: 0 },
+];
+
+/**
+ * Estimates the number of tokens of a text, at {@link CHARS_PER_TOKEN} characters per token.
+ *
+ * @param {string} text - The text to measure.
+ * @returns {number} The estimated number of tokens.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Shortens content arrays and strings, recursively.
+ *
+ * @param {unknown} value - The content to shorten.
+ * @param {number} maxItems - The number of array items to keep.
+ * @param {number} maxTextLength - The number of string characters to keep.
+ * @returns {{ value: unknown; truncated: boolean }} The shortened content, with "N more items" and
+ *          "N more characters" markers, and whether anything was shortened.
+ */
+export function truncateContent(
+  value: unknown,
+  maxItems: number,
+  maxTextLength: number,
+): { value: unknown; truncated: boolean } {
+  let truncated = false;
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === "string") {
+      if (current.length <= maxTextLength) return current;
+      truncated = true;
+      return `${current.slice(0, maxTextLength)}… (${current.length - maxTextLength} more characters)`;
+    }
+    if (Array.isArray(current)) {
+      const items = current.slice(0, maxItems).map(visit);
+      if (current.length > maxItems) {
+        truncated = true;
+        items.push(`… ${current.length - maxItems} more items`);
+      }
+      return items;
+    }
+    if (typeof current === "object" && current !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, nested] of Object.entries(current)) {
+        result[key] = visit(nested);
+      }
+      return result;
+    }
+    return current;
+  };
+
+  return { value: visit(value), truncated };
+}
+
+/**
+ * Renders the signature of an action, e.g. `setValue(value: string, label?: string)`.
+ *
+ * @param {ActionSchema} action - The action.
+ * @returns {string} The action ID followed by its parameters; optional parameters are marked with `?`.
+ */
+export function formatAction(action: ActionSchema): string {
+  const parameters = (action.parameters || []).map(
+    (parameter) =>
+      `${parameter.name}${parameter.required ? "" : "?"}: ${parameter.type || "string"}`,
+  );
+  return `${action.id}(${parameters.join(", ")})`;
+}
+
+/**
+ * Renders a content value on a single line: strings as they are, anything else as compact JSON.
+ *
+ * @param {unknown} value - The value to render.
+ * @returns {string} The rendered value.
+ */
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Renders one component in the requested format.
+ *
+ * @param {ScreenComponent} component - The component, with its content already shortened.
+ * @param {SerializeScreenOptions["format"]} format - The output format.
+ * @returns {string} The rendered component.
+ */
+function renderComponent(
+  component: ScreenComponent,
+  format: SerializeScreenOptions["format"],
+): string {
+  const { content } = component;
+
+  if (format === "json") {
+    // Child IDs are implied by the parent IDs
+    const compact = { ...component };
+    delete compact.childIds;
+    return JSON.stringify(compact);
+  }
+
+  if (format === "markdown") {
+    const lines = [`### ${component.name} (\`${component.id}\`)`];
+    if (component.description) lines.push(component.description);
+    if (component.type) lines.push(`- Type: ${component.type}`);
+    if (component.visible === false) lines.push("- Hidden");
+    if (component.actions.length > 0) {
+      lines.push(
+        `- Actions: ${component.actions.map((action) => `\`${formatAction(action)}\``).join(", ")}`,
+      );
+    }
+    if (Array.isArray(content) && content.length > 0) {
+      lines.push("- Content:");
+      lines.push(...content.map((item) => `  - ${formatValue(item)}`));
+    } else if (content !== undefined) {
+      lines.push(`- Content: ${formatValue(content)}`);
+    }
+    return lines.join("\n");
+  }
+
+  const details = [component.type, component.visible === false && "hidden"]
+    .filter(Boolean)
+    .join(", ");
+  let header = `${component.name} [${component.id}]`;
+  if (details) header += ` (${details})`;
+  if (component.description) header += ` - ${component.description}`;
+
+  const lines = [header];
+  if (component.actions.length > 0) {
+    lines.push(`  Actions: ${component.actions.map(formatAction).join(", ")}`);
+  }
+  if (Array.isArray(content) && content.length > 0) {
+    lines.push("  Content:");
+    lines.push(...content.map((item) => `  - ${formatValue(item)}`));
+  } else if (content !== undefined) {
+    lines.push(`  Content: ${formatValue(content)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Joins rendered components into the complete output.
+ *
+ * @param {string[]} parts - The rendered components, followed by the omission marker if any.
+ * @param {SerializeScreenOptions["format"]} format - The output format.
+ * @returns {string} The output.
+ */
+function joinParts(
+  parts: string[],
+  format: SerializeScreenOptions["format"],
+): string {
+  if (format === "json") return `[${parts.join(",")}]`;
+  return parts.join(format === "markdown" ? "\n\n" : "\n");
+}
+
+/**
+ * Serializes screen components within a character or token budget.
+ *
+ * Content arrays and strings are first shortened to `maxItems` and `maxTextLength`. If the result
+ * exceeds the budget, components are admitted by priority (visible before hidden, actionable before
+ * purely descriptive, then in screen order), each with its content shrunk further if needed to fit,
+ * and the components that still do not fit are replaced by an "N more components" marker. The output
+ * keeps the screen order.
+ *
+ * @param {ScreenComponent[]} components - The components to serialize, e.g. from `readScreen()`.
+ * @param {SerializeScreenOptions} [options={}] - The format, the budget and the content limits.
+ * @returns {SerializedScreen} The serialized screen and what was left out.
+ *
+ * @example
+ * ```typescript
+ * const { text, omitted } = serializeComponents(window.hlas.readScreen(), { format: "markdown", maxTokens: 2000 });
+ * ```
+ */
+export function serializeComponents(
+  components: ScreenComponent[],
+  options: SerializeScreenOptions = {},
+): SerializedScreen {
+  const {
+    format = "text",
+    maxItems = 10,
+    maxTextLength = 200,
+    onlyVisible = false,
+  } = options;
+  const budgets = [
+    options.maxChars,
+    options.maxTokens === undefined
+      ? undefined
+      : options.maxTokens * CHARS_PER_TOKEN,
+  ].filter((budget): budget is number => budget !== undefined);
+  const maxChars = budgets.length > 0 ? Math.min(...budgets) : Infinity;
+  const candidates = onlyVisible
+    ? components.filter((component) => component.visible !== false)
+    : components;
+
+  // Render every component at each content level, lazily
+  const renderings = candidates.map(() => new Map<number, string>());
+  let contentTruncated = false;
+  const render = (index: number, level: number): string => {
+    const cached = renderings[index].get(level);
+    if (cached !== undefined) return cached;
+
+    const component = candidates[index];
+    const limits = CONTENT_LEVELS[level] || { maxItems, maxTextLength };
+    let rendered: ScreenComponent = component;
+    if (component.content !== undefined) {
+      const { value, truncated } = truncateContent(
+        component.content,
+        Math.min(maxItems, limits.maxItems),
+        Math.min(maxTextLength, limits.maxTextLength),
+      );
+      rendered = { ...component, content: value };
+      if (truncated && level === 0) contentTruncated = true;
+    }
+
+    const text = renderComponent(rendered, format);
+    renderings[index].set(level, text);
+    return text;
+  };
+
+  const full = candidates.map((_, index) => render(index, 0));
+  const fullText = joinParts(full, format);
+  if (fullText.length <= maxChars) {
+    return {
+      text: fullText,
+      includedIds: candidates.map((component) => component.id),
+      omitted: 0,
+      truncated: contentTruncated,
+    };
+  }
+
+  const priority = (component: ScreenComponent) =>
+    (component.visible !== false ? 2 : 0) +
+    (component.actions.length > 0 ? 1 : 0);
+  const order = candidates
+    .map((_, index) => index)
+    .sort((a, b) => priority(candidates[b]) - priority(candidates[a]) || a - b);
+
+  const marker = (count: number) =>
+    format === "json"
+      ? JSON.stringify(`… ${count} more components`)
+      : `… ${count} more components`;
+  const separatorLength = format === "markdown" ? 2 : 1;
+  // Reserve room for the wrapping brackets and the omission marker
+  let remaining =
+    maxChars -
+    (format === "json" ? 2 : 0) -
+    marker(candidates.length).length -
+    separatorLength;
+  const chosen = new Map<number, string>();
+
+  for (const index of order) {
+    for (let level = 0; level < CONTENT_LEVELS.length; level++) {
+      const text = render(index, level);
+      const cost = text.length + (chosen.size > 0 ? separatorLength : 0);
+      if (cost <= remaining) {
+        chosen.set(index, text);
+        remaining -= cost;
+        break;
+      }
+    }
+  }
+
+  const included = Array.from(chosen.keys()).sort((a, b) => a - b);
+  const omitted = candidates.length - included.length;
+  const parts = included.map((index) => chosen.get(index)!);
+  if (omitted > 0) parts.push(marker(omitted));
+
+  return {
+    text: joinParts(parts, format),
+    includedIds: included.map((index) => candidates[index].id),
+    omitted,
+    truncated: true,
+  };
+}
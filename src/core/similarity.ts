@@ -0,0 +1,237 @@
+/**
+ * @module core/similarity
+ * @description Local, dependency-free text similarity used by {@link Registry.findBest} to resolve
+ * loosely phrased references ("mark learn hlas done") to the closest registered component
+ * ("Todo Item: Learn about hlas"). Texts are compared token by token, tolerating inflections and
+ * typos through prefix and character trigram matching, and query tokens are weighted by how
+ * rarely they occur among the compared documents.
+ */
+
+/**
+ * Words that carry no meaning for matching components and are ignored.
+ */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "as",
+  "at",
+  "by",
+  "for",
+  "in",
+  "is",
+  "it",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "with",
+]);
+
+/**
+ * The minimum token similarity (see {@link tokenSimilarity}) for a token to count as
+ * occurring in a document when computing token weights.
+ */
+const OCCURRENCE_THRESHOLD = 0.8;
+
+/**
+ * The share of a field's score that comes from the trigram similarity of the whole texts;
+ * the rest comes from the weighted token coverage.
+ */
+const WHOLE_TEXT_WEIGHT = 0.15;
+
+/**
+ * @interface SimilarityField
+ * @description A text of a document compared against the query, e.g. a component's name.
+ * @property {string} text - The text of the field.
+ * @property {number} weight - The factor applied to the field's score, between `0` and `1`.
+ */
+export interface SimilarityField {
+  text: string;
+  weight: number;
+}
+
+/**
+ * @interface SimilarityMatch
+ * @description A document scored by {@link rankBySimilarity}.
+ * @property {T} item - The scored document.
+ * @property {number} score - The similarity to the query, between `0` (unrelated) and `1` (identical).
+ */
+export interface SimilarityMatch<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Splits a text into lower-case word tokens, dropping punctuation and stop words.
+ *
+ * @param {string} text - The text to split.
+ * @returns {string[]} The tokens, in order of appearance.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== "" && !STOP_WORDS.has(token));
+}
+
+/**
+ * Returns the character trigrams of a text, padded so that its start and end form trigrams too.
+ *
+ * @param {string} text - The text.
+ * @returns {string[]} The trigrams, including duplicates.
+ */
+export function trigrams(text: string): string[] {
+  const padded = `  ${text.toLowerCase()} `;
+  const result: string[] = [];
+  for (let index = 0; index < padded.length - 2; index++) {
+    result.push(padded.slice(index, index + 3));
+  }
+  return result;
+}
+
+/**
+ * Computes the Dice coefficient of the trigrams of two texts.
+ *
+ * @param {string} a - The first text.
+ * @param {string} b - The second text.
+ * @returns {number} The similarity, between `0` and `1`.
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+
+  const remaining = new Map<string, number>();
+  for (const trigram of right) {
+    remaining.set(trigram, (remaining.get(trigram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (const trigram of left) {
+    const count = remaining.get(trigram);
+    if (count) {
+      shared++;
+      remaining.set(trigram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Computes the similarity of two tokens: `1` if they are equal, `0.9` if one is a prefix of the
+ * other (at least three characters long, e.g. "learn" and "learning"), otherwise their trigram
+ * similarity, ignored below `0.4`.
+ *
+ * @param {string} a - The first token.
+ * @param {string} b - The second token.
+ * @returns {number} The similarity, between `0` and `1`.
+ */
+export function tokenSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) {
+    return 0.9;
+  }
+
+  const similarity = trigramSimilarity(a, b);
+  return similarity >= 0.4 ? similarity : 0;
+}
+
+/**
+ * Returns how well a token is matched by the best of a list of tokens.
+ *
+ * @param {string} token - The token to match.
+ * @param {string[]} candidates - The tokens to match against.
+ * @returns {number} The highest {@link tokenSimilarity}, or `0` if there are no candidates.
+ */
+function bestTokenMatch(token: string, candidates: string[]): number {
+  let best = 0;
+  for (const candidate of candidates) {
+    best = Math.max(best, tokenSimilarity(token, candidate));
+    if (best === 1) break;
+  }
+  return best;
+}
+
+/**
+ * Ranks documents by their similarity to a query.
+ *
+ * Each field scores the weighted share of query tokens it matches (see {@link tokenSimilarity}),
+ * blended with the trigram similarity of the whole texts. Query tokens are weighted by their
+ * inverse document frequency, so words that occur in every document (such as "todo" in a todo
+ * app) matter less than distinctive ones. A document scores the best of its weighted fields.
+ *
+ * @param {string} query - The text to match, e.g. a user's phrasing.
+ * @param {T[]} items - The documents to rank.
+ * @param {(item: T) => SimilarityField[]} getFields - Returns the texts of a document and their weights.
+ * @returns {SimilarityMatch<T>[]} Every document matching at least one query token, best match first.
+ *                                 Documents with equal scores keep their original order.
+ */
+export function rankBySimilarity<T>(
+  query: string,
+  items: T[],
+  getFields: (item: T) => SimilarityField[],
+): SimilarityMatch<T>[] {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (queryTokens.length === 0) {
+    return [];
+  }
+
+  const documents = items.map((item) =>
+    getFields(item).map((field) => ({
+      ...field,
+      tokens: tokenize(field.text),
+    })),
+  );
+
+  const tokenWeights = queryTokens.map((token) => {
+    const frequency = documents.filter((fields) =>
+      fields.some(
+        (field) => bestTokenMatch(token, field.tokens) >= OCCURRENCE_THRESHOLD,
+      ),
+    ).length;
+    return Math.log(1 + items.length / (1 + frequency));
+  });
+  const totalWeight = tokenWeights.reduce((sum, weight) => sum + weight, 0);
+
+  const matches: SimilarityMatch<T>[] = [];
+  documents.forEach((fields, index) => {
+    let score = 0;
+    for (const field of fields) {
+      if (field.tokens.length === 0) continue;
+
+      const coverage =
+        queryTokens.reduce(
+          (sum, token, tokenIndex) =>
+            sum +
+            tokenWeights[tokenIndex] * bestTokenMatch(token, field.tokens),
+          0,
+        ) / totalWeight;
+      const wholeText = trigramSimilarity(
+        queryTokens.join(" "),
+        field.tokens.join(" "),
+      );
+      // A field that matches none of the query's tokens is unrelated, however similar it looks
+      const fieldScore =
+        coverage === 0
+          ? 0
+          : (1 - WHOLE_TEXT_WEIGHT) * coverage + WHOLE_TEXT_WEIGHT * wholeText;
+
+      score = Math.max(score, field.weight * fieldScore);
+    }
+
+    if (score > 0) {
+      matches.push({ item: items[index], score });
+    }
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
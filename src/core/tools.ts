@@ -0,0 +1,262 @@
+/**
+ * @module core/tools
+ * @description Converts the actions of registered components into JSON-Schema-based tool
+ * definitions for function-calling LLMs, and normalizes the tool calls they make.
+ * Used by {@link Registry.toToolDefinitions} and {@link Registry.dispatchToolCall}.
+ */
+
+import {
+  ActionParameter,
+  ActionSchema,
+  ComponentEntry,
+  JsonSchema,
+  ToolCall,
+  ToolDefinition,
+  ToolDefinitionFormats,
+  ToolFormat,
+} from "./types";
+import { needsConfirmation } from "./confirm";
+
+/**
+ * The maximum length of a tool name accepted by common LLM APIs.
+ */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Separates the component part from the action part of a tool name.
+ */
+const NAME_SEPARATOR = "__";
+
+/**
+ * Replaces the characters that are not allowed in tool names with `_`.
+ *
+ * @param {string} text - The text to convert.
+ * @returns {string} The text with runs of disallowed characters replaced and surrounding `_` removed.
+ */
+function sanitize(text: string): string {
+  return text.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Hashes a text into a short, deterministic tag (32-bit FNV-1a in base 36).
+ *
+ * @param {string} text - The text to hash.
+ * @returns {string} Up to 7 lower-case letters and digits.
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Builds the name of the tool running an action of a component. The name only depends on the
+ * component's stable ID and the action's ID, not on the other components, so a name stays bound
+ * to the same component between exporting the tools and dispatching a call. Stable IDs too long
+ * for the name keep their last characters, preceded by a hash of the whole ID.
+ *
+ * @param {string} stableId - The stable ID of the component (see {@link ScreenComponent.stableId}).
+ * @param {string} actionId - The ID of the action.
+ * @returns {string} The tool name, e.g. `"todo-list_todo-item_2__toggle"`.
+ */
+export function toToolName(stableId: string, actionId: string): string {
+  const actionPart = (sanitize(actionId) || "action").slice(
+    0,
+    MAX_TOOL_NAME_LENGTH / 2,
+  );
+  const room = MAX_TOOL_NAME_LENGTH - NAME_SEPARATOR.length - actionPart.length;
+  let componentPart = sanitize(stableId) || "component";
+  if (componentPart.length > room) {
+    const hash = hashText(stableId);
+    componentPart = `${hash}_${componentPart.slice(-(room - hash.length - 1))}`;
+  }
+  return `${componentPart}${NAME_SEPARATOR}${actionPart}`;
+}
+
+/**
+ * Builds the JSON Schema describing an action's parameters. Actions without declared parameters
+ * accept any object, as their parameters are not validated either (see {@link validateParameters}).
+ *
+ * @param {ActionParameter[]} [parameters] - The parameters declared by the action.
+ * @returns {JsonSchema} An object schema.
+ */
+export function toParametersSchema(parameters?: ActionParameter[]): JsonSchema {
+  if (!parameters) {
+    return { type: "object", properties: {} };
+  }
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const parameter of parameters) {
+    const property: JsonSchema = { type: parameter.type || "string" };
+    if (parameter.description) property.description = parameter.description;
+    if (parameter.defaultValue !== undefined) {
+      property.default = parameter.defaultValue;
+    }
+    properties[parameter.name] = property;
+  }
+
+  const schema: JsonSchema = {
+    type: "object",
+    properties,
+    additionalProperties: false,
+  };
+  const required = parameters
+    .filter((parameter) => parameter.required)
+    .map((parameter) => parameter.name);
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  return schema;
+}
+
+/**
+ * Describes what a tool does: the action's name and description, followed by the component it acts on
+ * and whether the user has to confirm the action.
+ *
+ * @param {ComponentEntry} component - The component the action belongs to.
+ * @param {ActionSchema} action - The action.
+ * @returns {string} The tool description.
+ */
+function describeTool(component: ComponentEntry, action: ActionSchema): string {
+  const actionText = action.description
+    ? `${action.name}: ${action.description}`
+    : action.name;
+  const componentText = component.description
+    ? `"${component.name}" (${component.description})`
+    : `"${component.name}"`;
+  const confirmationText = needsConfirmation(action)
+    ? " Requires confirmation by the user."
+    : "";
+  return `${actionText}. Acts on ${componentText}.${confirmationText}`;
+}
+
+/**
+ * Creates one tool definition per action of the given components, named by {@link toToolName}.
+ * Distinct components normally get distinct names; use {@link findAmbiguousToolNames} to detect
+ * the rare names that are shared, e.g. by stable IDs differing only in disallowed characters.
+ *
+ * @param {ComponentEntry[]} components - The components whose actions are exported.
+ * @param {Map<string, string>} [stableIds] - The stable IDs of the components, keyed by component ID.
+ *                                            Components without one are named after their ID.
+ * @returns {ToolDefinition[]} The tool definitions, in component and action order.
+ */
+export function buildToolDefinitions(
+  components: ComponentEntry[],
+  stableIds: Map<string, string> = new Map(),
+): ToolDefinition[] {
+  const tools: ToolDefinition[] = [];
+
+  for (const component of components) {
+    const stableId = stableIds.get(component.id) || component.id;
+    for (const action of component.actions) {
+      tools.push({
+        name: toToolName(stableId, action.id),
+        description: describeTool(component, action),
+        parameters: toParametersSchema(action.parameters),
+        componentId: component.id,
+        actionId: action.id,
+      });
+    }
+  }
+
+  return tools;
+}
+
+/**
+ * Finds the names shared by several tool definitions, which cannot be routed back to one action.
+ *
+ * @param {ToolDefinition[]} tools - The tool definitions.
+ * @returns {Map<string, ToolDefinition[]>} The tools sharing each ambiguous name.
+ */
+export function findAmbiguousToolNames(
+  tools: ToolDefinition[],
+): Map<string, ToolDefinition[]> {
+  const byName = new Map<string, ToolDefinition[]>();
+  for (const tool of tools) {
+    byName.set(tool.name, [...(byName.get(tool.name) || []), tool]);
+  }
+  for (const [name, sharing] of byName) {
+    if (sharing.length < 2) byName.delete(name);
+  }
+  return byName;
+}
+
+/**
+ * Converts a tool definition into the format expected by an LLM API.
+ *
+ * @param {ToolDefinition} tool - The tool definition.
+ * @param {F} format - The target format.
+ * @returns {ToolDefinitionFormats[F]} The formatted definition.
+ */
+export function formatToolDefinition<F extends ToolFormat>(
+  tool: ToolDefinition,
+  format: F,
+): ToolDefinitionFormats[F] {
+  const formatted: ToolDefinitionFormats = {
+    generic: tool,
+    openai: {
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    },
+    anthropic: {
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    },
+  };
+  return formatted[format];
+}
+
+/**
+ * Extracts the tool name and arguments from a tool call in any of the supported formats
+ * (see {@link ToolCall}). Arguments given as a JSON string are parsed.
+ *
+ * @param {ToolCall} call - The tool call made by the model.
+ * @returns {{ name: string; params: Record<string, unknown>; error?: string }} The called tool's name
+ *          and its arguments, or an error message if the arguments are not a JSON object.
+ */
+export function parseToolCall(call: ToolCall): {
+  name: string;
+  params: Record<string, unknown>;
+  error?: string;
+} {
+  const name = call.function?.name ?? call.name ?? "";
+  let args = call.function?.arguments ?? call.arguments ?? call.input;
+
+  if (typeof args === "string") {
+    if (args.trim() === "") {
+      args = {};
+    } else {
+      try {
+        args = JSON.parse(args);
+      } catch (error) {
+        return {
+          name,
+          params: {},
+          error: `Invalid arguments for tool ${name}: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    }
+  }
+
+  if (args === undefined || args === null) {
+    return { name, params: {} };
+  }
+  if (typeof args !== "object" || Array.isArray(args)) {
+    return {
+      name,
+      params: {},
+      error: `Invalid arguments for tool ${name}: expected a JSON object`,
+    };
+  }
+
+  return { name, params: args as Record<string, unknown> };
+}
@@ -6,6 +6,8 @@
  */
 
 import { ReactNode, ElementType } from "react";
+import { AuditEntry, AuditQuery } from "./audit";
+import { TourStep } from "./registry";
 
 /**
  * @interface ActionSchema
@@ -19,6 +21,11 @@ import { ReactNode, ElementType } from "react";
  *                           if the {@link action} HOC is used.
  * @property {string} [description] - An optional detailed description of what the action does.
  * @property {ActionParameter[]} [parameters] - An optional array defining the parameters this action accepts.
+ * @property {ActionRisk} [risk] - How much harm the action can do. `"destructive"` actions must be confirmed
+ *                                 by the user before they run (see {@link Registry.setConfirmationHandler}).
+ * @property {boolean} [requiresConfirmation] - Whether the user must confirm the action before it runs.
+ *                                              Overrides the default derived from `risk`.
+ * @property {Scope} [scope="write"] - The scope a session needs to see and execute the action (see {@link HlasSession}).
  * @see action
  * @see useHlasActions
  * @see ActionParameter
@@ -28,8 +35,27 @@ export interface ActionSchema {
   name: string;
   description?: string;
   parameters?: ActionParameter[];
+  risk?: ActionRisk;
+  requiresConfirmation?: boolean;
+  scope?: Scope;
 }
 
+/**
+ * @typedef {"safe" | "moderate" | "destructive"} ActionRisk
+ * @description How much harm an action can do: `"safe"` actions only read or navigate, `"moderate"` actions
+ * change state that is easy to restore, and `"destructive"` actions delete data or cannot be undone.
+ * Only `"destructive"` actions require confirmation by default.
+ */
+export type ActionRisk = "safe" | "moderate" | "destructive";
+
+/**
+ * @typedef {"read" | "write" | "admin" | string} Scope
+ * @description A permission that a session must be granted to see a component or execute an action
+ * (see {@link HlasSession}). Components require `"read"` and actions `"write"` unless they declare
+ * another scope; any other name can be used for app-specific permissions.
+ */
+export type Scope = "read" | "write" | "admin" | (string & {});
+
 /**
  * @interface ActionParameter
  * @description Defines the structure for a single parameter that an {@link ActionSchema} can accept.
@@ -37,8 +63,11 @@ export interface ActionSchema {
  * @property {string} [description] - A human-readable description of the parameter.
  * @property {boolean} [required=false] - Whether the parameter is required for the action. Defaults to `false`.
  * @property {"string" | "number" | "boolean" | "object"} [type="string"] - The expected data type of the parameter.
- *                                                                      Defaults to "string".
+ *                                                                      Defaults to "string". Supplied values are
+ *                                                                      coerced to this type where unambiguous
+ *                                                                      (e.g. `"5"` to `5`) before dispatch.
  * @property {unknown} [defaultValue] - An optional default value for the parameter if not provided during action execution.
+ * @see validateParameters
  */
 export interface ActionParameter {
   name: string;
@@ -55,33 +84,240 @@ export interface ActionParameter {
  * @param {Record<string, unknown>} [params] - An optional object containing parameters passed during action execution.
  *                                             The structure of `params` should align with the `parameters`
  *                                             defined in the corresponding {@link ActionSchema}.
- * @returns {void}
+ * @returns {unknown | Promise<unknown>} An optional result of the action, or a Promise resolving to it.
+ *                                       The (awaited) value is reported as `result` by `window.hlas.executeAsync()`;
+ *                                       a thrown error or rejected Promise is reported as an `error`.
  * @see useHlasActions
  * @see ActionMap
  */
-export type ActionFunction = (params?: Record<string, unknown>) => void;
+export type ActionFunction = (
+  params?: Record<string, unknown>,
+) => unknown | Promise<unknown>;
+
+/**
+ * @type UndoFunction
+ * @description Reverts an action that an agent executed, as returned by {@link ActionDefinition.undo}.
+ * @returns {unknown | Promise<unknown>} Anything; a thrown error or rejected Promise reports the undo as failed.
+ * @see Registry.undo
+ */
+export type UndoFunction = () => unknown | Promise<unknown>;
+
+/**
+ * @interface ActionDefinition
+ * @description The rich form of an {@link ActionMap} entry: an action handler together with the
+ * metadata that describes it in `readScreen()`. The map key remains the action's `id`.
+ * @property {ActionFunction} handler - The function implementing the action.
+ * @property {string} [name] - A human-readable name for the action. Defaults to the action's key.
+ * @property {string} [description] - A description of what the action does.
+ * @property {ActionParameter[]} [parameters] - The parameters the action accepts. When declared, calls are
+ *                                              validated against them before dispatch.
+ * @property {ActionRisk} [risk] - How much harm the action can do (see {@link ActionSchema.risk}).
+ * @property {boolean} [requiresConfirmation] - Whether the user must confirm the action before it runs.
+ * @property {Scope} [scope="write"] - The scope a session needs to see and execute the action.
+ * @property {(params?: Record<string, unknown>) => UndoFunction | void} [undo] - Makes the action undoable with
+ *           `window.hlas.undo()`. Called with the action's parameters just before the handler runs, so that it
+ *           can capture the state the action changes (e.g. the previous value of an input), and returns the
+ *           function reverting the action. Actions that undo themselves, like a toggle, return their handler.
+ * @see ActionMap
+ * @see ActionSchema
+ */
+export interface ActionDefinition {
+  handler: ActionFunction;
+  name?: string;
+  description?: string;
+  parameters?: ActionParameter[];
+  risk?: ActionRisk;
+  requiresConfirmation?: boolean;
+  scope?: Scope;
+  undo?: (params?: Record<string, unknown>) => UndoFunction | void;
+}
 
 /**
  * @type ActionMap
  * @description A map where keys are action identifiers (strings, corresponding to `ActionSchema.id`)
- * and values are the {@link ActionFunction} implementations for those actions.
+ * and values are either the {@link ActionFunction} implementations for those actions, or
+ * {@link ActionDefinition}s carrying the handler along with a name, description and parameters.
  * This is the primary way actions are defined when using the {@link useHlasActions} hook.
  *
  * @example
  * ```typescript
  * const myActions: ActionMap = {
  *   click: () => console.log('Clicked!'),
- *   setValue: (params) => {
- *     if (params && typeof params.text === 'string') {
- *       // setText(params.text);
- *     }
- *   }
+ *   setValue: {
+ *     name: 'Set Value',
+ *     description: 'Replaces the text of the input',
+ *     parameters: [{ name: 'text', type: 'string', required: true }],
+ *     handler: (params) => {
+ *       if (params && typeof params.text === 'string') {
+ *         // setText(params.text);
+ *       }
+ *     },
+ *   },
  * };
  * ```
  * @see useHlasActions
  * @see ActionFunction
+ * @see ActionDefinition
+ */
+export type ActionMap = Record<string, ActionFunction | ActionDefinition>;
+
+/**
+ * @interface BeforeExecuteEvent
+ * @description Reported right before an action is dispatched to a component, once it has been validated and
+ * confirmed, while the screen still shows the state the action was chosen on. Followed by an {@link ExecuteEvent}.
+ * @property {"beforeExecute"} type - The event type.
+ * @property {string} id - The ID of the component the action is addressed to.
+ * @property {string} actionId - The identifier of the action.
+ * @property {Record<string, unknown>} params - The (validated) parameters.
+ */
+export interface BeforeExecuteEvent {
+  type: "beforeExecute";
+  id: string;
+  actionId: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * @interface ExecuteEventDetail
+ * @description The `detail` of the `hlas:execute` custom event dispatched by the {@link Registry}
+ * on a component's DOM element. Listeners (such as the one installed by {@link useHlasActions})
+ * run the requested action and, when `respond` is present, report its outcome through it.
+ * @property {string} id - The ID of the component the action was dispatched to.
+ * @property {string} actionId - The identifier of the action to run.
+ * @property {Record<string, unknown>} params - The parameters for the action (an empty object if none were given).
+ * @property {(result: unknown) => void} [respond] - Set by `executeAsync()`. Receives the action's return value,
+ *                                                  which may be a Promise; a rejected Promise signals failure.
+ *                                                  Only the first response is used.
+ * @property {(undo: UndoFunction) => void} [registerUndo] - Receives the function reverting the action once it has
+ *                                                          succeeded, to put it on the registry's undo stack.
+ * @see Registry.executeAsync
+ * @see Registry.undo
  */
-export type ActionMap = Record<string, ActionFunction>;
+export interface ExecuteEventDetail {
+  id: string;
+  actionId: string;
+  params: Record<string, unknown>;
+  respond?: (result: unknown) => void;
+  registerUndo?: (undo: UndoFunction) => void;
+}
+
+/**
+ * @type ExecutionStatus
+ * @description The outcome of an action executed through `window.hlas.executeAsync()`.
+ * - `"success"`: the action ran and its (awaited) return value is in `result`.
+ * - `"error"`: the action threw, rejected, does not exist, or no handler responded.
+ * - `"not_found"`: no component is registered under the given ID.
+ * - `"invalid_params"`: the parameters did not match the action's declared {@link ActionParameter}s;
+ *   `error` lists every offending parameter. The action was not dispatched.
+ * - `"declined"`: the action requires confirmation and the user (or the confirmation handler) declined it.
+ *   The action was not dispatched.
+ * - `"forbidden"`: the session executing the action was not granted the action's scope (see {@link HlasSession}).
+ *   The action was not dispatched.
+ * @see ExecutionResult
+ */
+export type ExecutionStatus =
+  | "success"
+  | "error"
+  | "not_found"
+  | "invalid_params"
+  | "declined"
+  | "forbidden";
+
+/**
+ * @interface ConfirmationRequest
+ * @description An action waiting for the user's confirmation, passed to the {@link ConfirmationHandler}.
+ * @property {ComponentEntry} component - The component the action is executed on.
+ * @property {ActionSchema} action - The schema of the action.
+ * @property {Record<string, unknown>} params - The validated parameters the action will receive.
+ * @property {boolean} [undo] - `true` if the action already ran and is about to be reverted (see `window.hlas.undo()`).
+ * @see Registry.setConfirmationHandler
+ */
+export interface ConfirmationRequest {
+  component: ComponentEntry;
+  action: ActionSchema;
+  params: Record<string, unknown>;
+  undo?: boolean;
+}
+
+/**
+ * @type ConfirmationHandler
+ * @description Decides whether an action that requires confirmation may run, e.g. by asking the user.
+ * Resolving to `false` (or throwing) declines the action.
+ * @param {ConfirmationRequest} request - The action waiting for confirmation.
+ * @returns {boolean | Promise<boolean>} Whether the action may run.
+ * @see Registry.setConfirmationHandler
+ */
+export type ConfirmationHandler = (
+  request: ConfirmationRequest,
+) => boolean | Promise<boolean>;
+
+/**
+ * @interface ExecutionResult
+ * @description The structured result of `window.hlas.executeAsync()`.
+ * @property {ExecutionStatus} status - The outcome of the execution.
+ * @property {unknown} [result] - The value returned (or resolved) by the action, on success.
+ * @property {string} [error] - A human-readable error message, when the execution did not succeed.
+ * @property {number} durationMs - The time in milliseconds between dispatching the action and its settlement.
+ * @see Registry.executeAsync
+ */
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * @interface BatchStep
+ * @description An action to execute as part of `window.hlas.executeBatch()`.
+ * @property {string} id - The ID of the component, its short ref from an outline or its stable ID.
+ * @property {string} actionId - The identifier of the action to execute.
+ * @property {Record<string, unknown>} [params] - The parameters to pass to the action.
+ */
+export interface BatchStep {
+  id: string;
+  actionId: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * @interface BatchOptions
+ * @description Options for `window.hlas.executeBatch()`.
+ * @property {boolean} [rollbackOnError=false] - Whether to undo the steps that succeeded when a later step fails.
+ *                                               Only steps whose action defines `undo` can be reverted
+ *                                               (see {@link ActionDefinition.undo}).
+ */
+export interface BatchOptions {
+  rollbackOnError?: boolean;
+}
+
+/**
+ * @interface BatchStepResult
+ * @description The outcome of one step of a batch: its {@link ExecutionResult}.
+ * @property {number} index - The position of the step in the batch.
+ * @property {BatchStep} step - The executed step.
+ */
+export interface BatchStepResult extends ExecutionResult {
+  index: number;
+  step: BatchStep;
+}
+
+/**
+ * @interface BatchResult
+ * @description The result of `window.hlas.executeBatch()`.
+ * @property {"completed" | "failed"} status - `completed` if every step succeeded.
+ * @property {BatchStepResult[]} steps - The results of the executed steps, in order. The steps after a
+ *                                       failed step are not executed and have no result.
+ * @property {number} [rolledBack] - With `rollbackOnError`, the number of succeeded steps that were undone.
+ * @property {number} durationMs - The time in milliseconds the whole batch took.
+ * @see Registry.executeBatch
+ */
+export interface BatchResult {
+  status: "completed" | "failed";
+  steps: BatchStepResult[];
+  rolledBack?: number;
+  durationMs: number;
+}
 
 /**
  * @type WrappedComponent
@@ -92,6 +328,19 @@ export type ActionMap = Record<string, ActionFunction>;
  */
 export type WrappedComponent = ElementType; // Simplified for PoC, but ElementType is quite broad and suitable.
 
+/**
+ * @interface UseHlasActionsOptions
+ * @description Additional options for {@link useHlasActions}.
+ * @property {string} [id] - A stable ID to register the component under, e.g. for saved tours and scripts.
+ *                           Defaults to an ID generated by `useId()`, which changes across reloads.
+ * @property {Scope} [scope="read"] - The scope a session needs to see the component (see {@link HlasSession}).
+ * @see useHlasActions
+ */
+export interface UseHlasActionsOptions {
+  id?: string;
+  scope?: Scope;
+}
+
 /**
  * @interface ComponentEntry
  * @description Represents the data structure stored in the {@link Registry} for each registered component.
@@ -104,6 +353,9 @@ export type WrappedComponent = ElementType; // Simplified for PoC, but ElementTy
  *                                      passed to {@link useHlasActions}.
  * @property {string} name - The human-readable name of the component.
  * @property {string} [description] - An optional description of the component.
+ * @property {boolean} [fallback] - `true` if the entry was registered as a fallback (see {@link RegisterOptions}).
+ * @property {boolean} [generatedId] - `true` if the ID was generated rather than chosen (see {@link RegisterOptions}).
+ * @property {Scope} [scope] - The scope a session needs to see the component (see {@link RegisterOptions}).
  * @see Registry
  * @see window.hlas.find
  */
@@ -113,6 +365,29 @@ export interface ComponentEntry {
   actions: ActionSchema[];
   name: string;
   description?: string;
+  fallback?: boolean;
+  generatedId?: boolean;
+  scope?: Scope;
+}
+
+/**
+ * @interface RegisterOptions
+ * @description Additional options for `registry.register()`.
+ * @property {boolean} [fallback=false] - Marks the entry as a fallback description of its element, as used by the
+ *                                        {@link action} HOC. While another entry is registered for the same element
+ *                                        (e.g. by {@link useHlasActions}), the fallback entry is hidden from `find()`
+ *                                        and `readScreen()` and its actions are merged into that entry.
+ * @property {boolean} [generatedId=false] - Marks the ID as generated for the current render (e.g. by `useId()`),
+ *                                           so that it is not stable across reloads. Such components are given a
+ *                                           path-based `stableId` derived from their names (see {@link deriveStableIds}).
+ * @property {Scope} [scope="read"] - The scope a session needs to see the component and any of its actions
+ *                                    (see {@link HlasSession}).
+ * @see Registry.register
+ */
+export interface RegisterOptions {
+  fallback?: boolean;
+  generatedId?: boolean;
+  scope?: Scope;
 }
 
 /**
@@ -120,30 +395,574 @@ export interface ComponentEntry {
  * @description Represents the information about a single component as returned by `window.hlas.readScreen()`.
  * This provides a snapshot of a component's state and capabilities.
  * @property {string} id - The unique ID of the component.
+ * @property {string} [stableId] - An ID that survives re-renders and reloads, accepted wherever component IDs are:
+ *                                 the component's ID if it was chosen explicitly (e.g. with the `hlasId` prop), otherwise
+ *                                 a path of the names of the component and its ancestors, such as `todo-list/todo-item#2`.
  * @property {string} name - The human-readable name of the component.
  * @property {string} [description] - An optional description of the component.
- * @property {boolean} [visible] - Indicates whether the component is currently considered visible on the screen.
- *                                 Note: The core `registry.readScreen()` method does not populate this by default.
- *                                 Visibility determination might be added as a future enhancement or be context-dependent.
+ * @property {string} [type] - The component type from the `data-hlas-component` attribute of its element
+ *                             (e.g. `"List"`, `"ListItem"`), if set.
+ * @property {boolean} [visible] - Indicates whether the component is currently considered visible on the screen:
+ *                                 attached, not hidden by `hidden`/`aria-hidden`/`display:none`/`visibility:hidden`
+ *                                 (on itself or an ancestor), non-zero in size, within the viewport and not
+ *                                 covered by an open modal overlay. Populated by `registry.readScreen()`.
  * @property {ActionSchema[]} actions - An array of action schemas representing the actions supported by this component.
  * @property {unknown} [content] - If the component is descriptive (e.g., `Describe.List`, `Describe.ListItem`),
  *                                 this field may contain its content (e.g., list items, item value).
  *                                 The structure of `content` can vary.
+ * @property {string} [parentId] - The ID of the closest registered component whose DOM element contains
+ *                                 this component's element. Omitted for top-level components.
+ * @property {string[]} [childIds] - The IDs of the registered components directly nested inside this one,
+ *                                   in document order.
  * @see window.hlas.readScreen
  * @see Registry.readScreen
  */
 export interface ScreenComponent {
   id: string;
+  stableId?: string;
   name: string;
   description?: string;
+  type?: string;
   visible?: boolean; // Made optional as per refinement
   actions: ActionSchema[];
   content?: unknown;
+  parentId?: string;
+  childIds?: string[];
+}
+
+/**
+ * @interface ReadScreenOptions
+ * @description Options accepted by `window.hlas.readScreen()`.
+ * @property {boolean} [onlyVisible=false] - If `true`, components that are not currently visible
+ *                                           (see {@link ScreenComponent.visible}) are omitted.
+ * @property {"components" | "outline"} [format="components"] - `"components"` returns {@link ScreenComponent}
+ *           objects; `"outline"` returns an indented text outline of the components with short refs.
+ * @see Registry.readScreen
+ */
+export interface ReadScreenOptions {
+  onlyVisible?: boolean;
+  format?: "components" | "outline";
+}
+
+/**
+ * @type ScreenFormat
+ * @description The output formats of `window.hlas.serializeScreen()`: compact `text` (one block per
+ * component), `markdown` (a heading per component) and compact `json` (an array of components).
+ * @see SerializeScreenOptions
+ */
+export type ScreenFormat = "text" | "markdown" | "json";
+
+/**
+ * @interface SerializeScreenOptions
+ * @description Options accepted by `window.hlas.serializeScreen()` and `serializeComponents()`.
+ * @property {ScreenFormat} [format="text"] - The output format.
+ * @property {number} [maxChars] - The maximum length of the output in characters.
+ * @property {number} [maxTokens] - The maximum length of the output in tokens, estimated as
+ *                                  4 characters per token. The smaller budget applies if both are given.
+ * @property {number} [maxItems=10] - The number of items shown for content arrays (e.g. `Describe.List` items);
+ *                                    the remaining items are replaced by an "N more items" marker.
+ * @property {number} [maxTextLength=200] - The number of characters shown for strings in the content.
+ * @property {boolean} [onlyVisible=false] - If `true`, components that are not currently visible are omitted.
+ * @see serializeComponents
+ */
+export interface SerializeScreenOptions {
+  onlyVisible?: boolean;
+  format?: ScreenFormat;
+  maxChars?: number;
+  maxTokens?: number;
+  maxItems?: number;
+  maxTextLength?: number;
+}
+
+/**
+ * @interface SerializedScreen
+ * @description The result of `window.hlas.serializeScreen()`.
+ * @property {string} text - The serialized screen, within the requested budget.
+ * @property {string[]} includedIds - The IDs of the serialized components, in screen order.
+ * @property {number} omitted - The number of components left out to stay within the budget.
+ * @property {boolean} truncated - `true` if components were left out or their content was shortened.
+ * @see SerializeScreenOptions
+ */
+export interface SerializedScreen {
+  text: string;
+  includedIds: string[];
+  omitted: number;
+  truncated: boolean;
+}
+
+/**
+ * @type TextMatcher
+ * @description A criterion for a text field of a {@link ComponentQuery}: a string, compared as described
+ * for each field, or a regular expression tested against the field.
+ * @see ComponentQuery
+ */
+export type TextMatcher = string | RegExp;
+
+/**
+ * @interface ComponentQuery
+ * @description A structured query accepted by `window.hlas.find()`. All given criteria must match.
+ * Results are ranked by how well they match `text` (exact name, name prefix, name, then description),
+ * with visible components ahead of hidden ones.
+ * @property {TextMatcher} [name] - The component's name. A string must equal the name (ignoring case and
+ *                                  surrounding whitespace).
+ * @property {TextMatcher} [description] - The component's description. A string must be contained in it (ignoring case).
+ * @property {TextMatcher} [text] - Free text contained in the name or description (ignoring case). This is how a plain
+ *                                  string passed to `find()` is interpreted.
+ * @property {string | string[]} [type] - The component type, as set in the `data-hlas-component` attribute by the
+ *                                        `Describe` components (e.g. `"List"`, `"ListItem"`, `"Button"`). An array
+ *                                        matches any of the listed types.
+ * @property {string | string[]} [hasAction] - The ID of an action the component must support. An array requires all of them.
+ * @property {TextMatcher | ((content: unknown) => boolean)} [content] - The component's content
+ *                                  (see {@link ScreenComponent.content}). A string must be contained in the
+ *                                  JSON-serialized content (ignoring case); a function receives the parsed content.
+ * @property {string | ComponentQuery} [within] - A component, by ID or by query, whose DOM element must contain
+ *                                               the component's element.
+ * @property {boolean} [visible] - Whether the component must (or must not) be currently visible
+ *                                 (see {@link ScreenComponent.visible}).
+ * @see Registry.find
+ */
+export interface ComponentQuery {
+  name?: TextMatcher;
+  description?: TextMatcher;
+  text?: TextMatcher;
+  type?: string | string[];
+  hasAction?: string | string[];
+  content?: TextMatcher | ((content: unknown) => boolean);
+  within?: string | ComponentQuery;
+  visible?: boolean;
+}
+
+/**
+ * @interface FindBestOptions
+ * @description Options accepted by `window.hlas.findBest()`.
+ * @property {number} [limit=5] - The maximum number of matches to return.
+ * @property {number} [minScore=0.1] - The minimum score (between `0` and `1`) a match must reach.
+ * @see Registry.findBest
+ */
+export interface FindBestOptions {
+  limit?: number;
+  minScore?: number;
+}
+
+/**
+ * @interface WaitOptions
+ * @description Options accepted by `window.hlas.waitFor()`, `waitForContent()`, `waitForGone()` and `waitUntil()`.
+ * @property {number} [timeout=5000] - How long to wait, in milliseconds. `Infinity` waits until the condition is met.
+ * @see Registry.waitUntil
+ */
+export interface WaitOptions {
+  timeout?: number;
+}
+
+/**
+ * @interface ComponentMatch
+ * @description A component returned by `window.hlas.findBest()`, with its similarity to the searched text.
+ * @property {ComponentEntry} component - The matching component.
+ * @property {number} score - The similarity, between `0` (unrelated) and `1` (identical).
+ * @see Registry.findBest
+ */
+export interface ComponentMatch {
+  component: ComponentEntry;
+  score: number;
+}
+
+/**
+ * @typedef {"duplicate-id" | "shared-element" | "stable-id-collision" | "sibling-name-collision"} DiagnosticKind
+ * @description The kinds of registration problems reported by `window.hlas.diagnostics()`:
+ * - `duplicate-id`: An ID was registered for another element while its previous element was still registered.
+ *   Only the last registration can be reached.
+ * - `shared-element`: One element is registered under several IDs (e.g. by both {@link useHlasActions} and a
+ *   `Describe` component), so it shows up as several components. Fallback entries of the {@link action} HOC
+ *   are merged instead and not reported.
+ * - `stable-id-collision`: Several components have the same stable ID, e.g. a derived path equal to another
+ *   component's explicit ID. The stable ID then refers to the component registered under it, or to none.
+ * - `sibling-name-collision`: Sibling components have the same name, so they cannot be told apart by name.
+ */
+export type DiagnosticKind =
+  | "duplicate-id"
+  | "shared-element"
+  | "stable-id-collision"
+  | "sibling-name-collision";
+
+/**
+ * @interface RegistryDiagnostic
+ * @description A problem with the registered components, as reported by `window.hlas.diagnostics()`.
+ * @property {DiagnosticKind} kind - The kind of problem.
+ * @property {"warning" | "info"} severity - `warning` if components cannot be reached as intended,
+ *                                           `info` if they are only ambiguous.
+ * @property {string} message - A human-readable explanation.
+ * @property {string[]} ids - The IDs of the components involved.
+ * @see Registry.diagnostics
+ */
+export interface RegistryDiagnostic {
+  kind: DiagnosticKind;
+  severity: "warning" | "info";
+  message: string;
+  ids: string[];
 }
 
+/**
+ * @interface JsonSchema
+ * @description The subset of JSON Schema used to describe action parameters in tool definitions.
+ * @property {string} type - The JSON type (`"object"`, `"string"`, `"number"`, `"boolean"`).
+ * @property {string} [description] - A description of the value.
+ * @property {Record<string, JsonSchema>} [properties] - The properties of an object.
+ * @property {string[]} [required] - The required properties of an object.
+ * @property {boolean} [additionalProperties] - Whether an object may have undeclared properties.
+ * @property {unknown} [default] - The default value.
+ * @see ToolDefinition
+ */
+export interface JsonSchema {
+  type: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+}
+
+/**
+ * @interface ToolDefinition
+ * @description A function-calling tool describing one action of one registered component,
+ * as returned by `window.hlas.toToolDefinitions()`.
+ * @property {string} name - The tool name, derived from the component's stable ID and the action's ID
+ *                           (e.g. `"todo-input__setValue"` or `"todo-list_todo-item_2__toggle"`). Names are
+ *                           unique, at most 64 characters long and only contain letters, digits, `_` and `-`.
+ * @property {string} description - What the action does and which component it acts on.
+ * @property {JsonSchema} parameters - The JSON Schema of the action's parameters.
+ * @property {string} componentId - The ID of the component the tool acts on.
+ * @property {string} actionId - The ID of the action the tool runs.
+ * @see Registry.toToolDefinitions
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  componentId: string;
+  actionId: string;
+}
+
+/**
+ * @interface OpenAIToolDefinition
+ * @description A tool definition in the format of the OpenAI Chat Completions `tools` parameter.
+ * @see Registry.toToolDefinitions
+ */
+export interface OpenAIToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+/**
+ * @interface AnthropicToolDefinition
+ * @description A tool definition in the format of the Anthropic Messages API `tools` parameter.
+ * @see Registry.toToolDefinitions
+ */
+export interface AnthropicToolDefinition {
+  name: string;
+  description: string;
+  input_schema: JsonSchema;
+}
+
+/**
+ * @interface ToolDefinitionFormats
+ * @description Maps each {@link ToolFormat} to the shape of the tool definitions produced for it.
+ */
+export interface ToolDefinitionFormats {
+  generic: ToolDefinition;
+  openai: OpenAIToolDefinition;
+  anthropic: AnthropicToolDefinition;
+}
+
+/**
+ * @type ToolFormat
+ * @description The formats `window.hlas.toToolDefinitions()` can produce.
+ */
+export type ToolFormat = keyof ToolDefinitionFormats;
+
+/**
+ * @interface ToolDefinitionOptions
+ * @description Options accepted by `window.hlas.toToolDefinitions()`.
+ * @property {ToolFormat} [format="generic"] - The format of the definitions.
+ * @property {boolean} [onlyVisible=false] - If `true`, only actions of currently visible components are exported.
+ * @see Registry.toToolDefinitions
+ */
+export interface ToolDefinitionOptions<F extends ToolFormat = ToolFormat> {
+  format?: F;
+  onlyVisible?: boolean;
+}
+
+/**
+ * @interface ToolCall
+ * @description A tool call made by a model, as accepted by `window.hlas.dispatchToolCall()`. The generic
+ * `{ name, arguments }` form, OpenAI tool calls (`{ id, type: "function", function: { name, arguments } }`)
+ * and Anthropic `tool_use` blocks (`{ id, type: "tool_use", name, input }`) are all understood.
+ * Arguments may be an object or a JSON string.
+ * @property {string} [id] - The ID of the tool call, reported back in the result.
+ * @property {string} [name] - The name of the called tool.
+ * @property {string | Record<string, unknown>} [arguments] - The arguments of the call.
+ * @property {Record<string, unknown>} [input] - The arguments of an Anthropic `tool_use` block.
+ * @property {{ name: string; arguments?: string | Record<string, unknown> }} [function] - The called function of an OpenAI tool call.
+ * @see Registry.dispatchToolCall
+ */
+export interface ToolCall {
+  id?: string;
+  type?: string;
+  name?: string;
+  arguments?: string | Record<string, unknown>;
+  input?: Record<string, unknown>;
+  function?: {
+    name: string;
+    arguments?: string | Record<string, unknown>;
+  };
+}
+
+/**
+ * @interface ToolCallResult
+ * @description The outcome of `window.hlas.dispatchToolCall()`: the {@link ExecutionResult} of the action
+ * together with the tool call it answers.
+ * @property {string} name - The name of the called tool.
+ * @property {string} [toolCallId] - The ID of the tool call, if it had one.
+ * @see Registry.dispatchToolCall
+ */
+export interface ToolCallResult extends ExecutionResult {
+  name: string;
+  toolCallId?: string;
+}
+
+/**
+ * @interface ScreenTreeNode
+ * @description A {@link ScreenComponent} together with its nested components, as returned by
+ * `window.hlas.readTree()`. Nesting is derived from DOM containment of the registered elements,
+ * so a `Describe.ListItem` appears under its `Describe.List` and a button inside the item
+ * appears under the item.
+ * @property {ScreenTreeNode[]} children - The directly nested components, in document order.
+ * @see window.hlas.readTree
+ * @see Registry.readTree
+ */
+export interface ScreenTreeNode extends ScreenComponent {
+  children: ScreenTreeNode[];
+}
+
+/**
+ * @interface ScreenSnapshot
+ * @description A versioned copy of the screen state, as returned by `window.hlas.snapshot()`.
+ * @property {number} version - The version of the screen state. It increases by one each time a snapshot
+ *                              differs from the previous one, so equal versions denote equal screens.
+ * @property {ScreenComponent[]} components - The screen state, as returned by `readScreen()`.
+ * @see Registry.snapshot
+ */
+export interface ScreenSnapshot {
+  version: number;
+  components: ScreenComponent[];
+}
+
+/**
+ * @interface ContentItemChange
+ * @description An item of a list's content that is present in both versions but was modified.
+ * @property {unknown} previous - The item before the change.
+ * @property {unknown} current - The item after the change.
+ * @see ContentDiff
+ */
+export interface ContentItemChange {
+  previous: unknown;
+  current: unknown;
+}
+
+/**
+ * @interface ContentDiff
+ * @description The item-level difference between two array contents, e.g. the `items` of a `Describe.List`.
+ * Object items carrying an `id` property are matched by it, other items by value.
+ * @property {unknown[]} added - Items only present in the current content.
+ * @property {unknown[]} removed - Items only present in the previous content.
+ * @property {ContentItemChange[]} changed - Items matched by `id` whose value changed.
+ * @see ComponentChange
+ */
+export interface ContentDiff {
+  added: unknown[];
+  removed: unknown[];
+  changed: ContentItemChange[];
+}
+
+/**
+ * @interface ComponentChange
+ * @description A component present in both versions of a {@link ScreenDiff} whose state differs.
+ * @property {string} id - The ID of the component.
+ * @property {ScreenComponent} component - The current state of the component.
+ * @property {Array<keyof ScreenComponent>} changedFields - The fields whose values differ (e.g. `"content"`, `"visible"`).
+ * @property {ContentDiff} [contentDiff] - The item-level difference of the content, when both the previous
+ *                                         and the current content are arrays.
+ * @see ScreenDiff
+ */
+export interface ComponentChange {
+  id: string;
+  component: ScreenComponent;
+  changedFields: Array<keyof ScreenComponent>;
+  contentDiff?: ContentDiff;
+}
+
+/**
+ * @interface ScreenDiff
+ * @description The difference between two versions of the screen, as returned by `window.hlas.diff()`.
+ * @property {number} fromVersion - The version the difference is computed from.
+ * @property {number} toVersion - The current version of the screen.
+ * @property {ScreenComponent[]} added - Components that were registered since `fromVersion`.
+ * @property {ScreenComponent[]} removed - Components that were unregistered since `fromVersion`, in their last known state.
+ * @property {ComponentChange[]} changed - Components whose state changed since `fromVersion`.
+ * @property {boolean} [reset] - `true` if `fromVersion` is unknown or no longer retained. `added` then holds the
+ *                               complete current screen, which should replace the caller's copy.
+ * @see Registry.diff
+ */
+export interface ScreenDiff {
+  fromVersion: number;
+  toVersion: number;
+  added: ScreenComponent[];
+  removed: ScreenComponent[];
+  changed: ComponentChange[];
+  reset?: boolean;
+}
+
+/**
+ * @type RegistryEventType
+ * @description The kinds of changes reported to subscribers of the {@link Registry}.
+ * - `"register"`: a component was registered.
+ * - `"unregister"`: a component was unregistered.
+ * - `"contentChange"`: the `data-hlas-content` attribute of a registered component's element changed.
+ * - `"beforeExecute"`: an action is about to be dispatched to a component.
+ * - `"execute"`: an action was dispatched to a component.
+ * - `"undo"`: an action is being undone.
+ * @see Registry.subscribe
+ */
+export type RegistryEventType =
+  | "register"
+  | "unregister"
+  | "contentChange"
+  | "beforeExecute"
+  | "execute"
+  | "undo";
+
+/**
+ * @interface RegisterEvent
+ * @description Reported when a component is registered.
+ * @property {"register"} type - The event type.
+ * @property {string} id - The ID of the registered component.
+ * @property {ComponentEntry} component - The registered component.
+ */
+export interface RegisterEvent {
+  type: "register";
+  id: string;
+  component: ComponentEntry;
+}
+
+/**
+ * @interface UnregisterEvent
+ * @description Reported when a component is unregistered.
+ * @property {"unregister"} type - The event type.
+ * @property {string} id - The ID of the unregistered component.
+ * @property {ComponentEntry} component - The component as it was registered.
+ */
+export interface UnregisterEvent {
+  type: "unregister";
+  id: string;
+  component: ComponentEntry;
+}
+
+/**
+ * @interface ContentChangeEvent
+ * @description Reported when the `data-hlas-content` attribute of a registered component's element changes,
+ * e.g. when the `items` of a `Describe.List` or the `value` of a `Describe.ListItem` are updated.
+ * @property {"contentChange"} type - The event type.
+ * @property {string} id - The ID of the component whose content changed.
+ * @property {unknown} content - The new content, parsed as in {@link ScreenComponent.content}.
+ *                               `undefined` if the attribute was removed.
+ * @property {unknown} previousContent - The content before the change. `undefined` if there was none.
+ */
+export interface ContentChangeEvent {
+  type: "contentChange";
+  id: string;
+  content: unknown;
+  previousContent: unknown;
+}
+
+/**
+ * @interface BeforeExecuteEvent
+ * @description Reported right before an action is dispatched to a component, once it has been validated and
+ * confirmed, while the screen still shows the state the action was chosen on. Followed by an {@link ExecuteEvent}.
+ * @property {"beforeExecute"} type - The event type.
+ * @property {string} id - The ID of the component the action is addressed to.
+ * @property {string} actionId - The identifier of the action.
+ * @property {Record<string, unknown>} params - The (validated) parameters.
+ */
+export interface BeforeExecuteEvent {
+  type: "beforeExecute";
+  id: string;
+  actionId: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * @interface ExecuteEvent
+ * @description Reported when an action is dispatched to a component through `execute()` or `executeAsync()`.
+ * Calls rejected before dispatch (unknown component, invalid parameters) are not reported.
+ * @property {"execute"} type - The event type.
+ * @property {string} id - The ID of the component the action was addressed to.
+ * @property {string} actionId - The identifier of the dispatched action.
+ * @property {Record<string, unknown>} params - The dispatched (validated) parameters.
+ */
+export interface ExecuteEvent {
+  type: "execute";
+  id: string;
+  actionId: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * @interface UndoEvent
+ * @description Reported when an action is undone through `undo()` (or the rollback of `executeBatch()`), right
+ * before its undo callback runs. Redoing an action is reported like executing it.
+ * @property {"undo"} type - The event type.
+ * @property {string} id - The ID of the component the undone action was addressed to.
+ * @property {string} actionId - The identifier of the undone action.
+ * @property {Record<string, unknown>} params - The parameters the action had received.
+ */
+export interface UndoEvent {
+  type: "undo";
+  id: string;
+  actionId: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * @type RegistryEvent
+ * @description A change reported to subscribers of the {@link Registry}, discriminated by `type`.
+ * @see Registry.subscribe
+ * @see window.hlas.on
+ */
+export type RegistryEvent =
+  | RegisterEvent
+  | UnregisterEvent
+  | ContentChangeEvent
+  | BeforeExecuteEvent
+  | ExecuteEvent
+  | UndoEvent;
+
+/**
+ * @type RegistryListener
+ * @description A callback receiving {@link RegistryEvent}s.
+ * @param {RegistryEvent} event - The reported change.
+ * @see Registry.subscribe
+ */
+export type RegistryListener = (event: RegistryEvent) => void;
+
 /**
  * @interface DescribeProps
  * @description Base props for the `Describe` family of components (`Describe.Base`, `Describe.List`, `Describe.ListItem`).
+ * @property {string} [hlasId] - A stable ID to register the element under, e.g. for saved tours and scripts.
+ *                               Defaults to an ID generated by `useId()`, which changes across reloads.
+ * @property {Scope} [hlasScope="read"] - The scope a session needs to see the element (see {@link HlasSession}).
  * @property {string} [name] - A human-readable name for the described UI element or section.
  * @property {string} [description] - A more detailed description of the element's purpose or content.
  * @property {ReactNode} [children] - The child elements to be wrapped and described.
@@ -152,6 +971,8 @@ export interface ScreenComponent {
  * @see Describe.ListItem
  */
 export interface DescribeProps {
+  hlasId?: string;
+  hlasScope?: Scope;
   name?: string;
   description?: string;
   children?: ReactNode;
@@ -183,3 +1004,94 @@ export interface ListProps extends DescribeProps {
 export interface ListItemProps extends DescribeProps {
   value?: unknown;
 }
+
+/**
+ * @interface SessionOptions
+ * @description Options for `window.hlas.createSession()`.
+ * @property {Scope[]} scopes - The scopes granted to the session, e.g. `["read"]` for an agent that may only look.
+ * @property {string} [name] - Identifies the session's calls in the audit log (see `window.hlas.history()`).
+ *                             Defaults to `session-1`, `session-2`, ….
+ * @see Registry.createSession
+ */
+export interface SessionOptions {
+  scopes: Scope[];
+  name?: string;
+}
+
+/**
+ * @interface HlasSession
+ * @description A view of the registry limited to the scopes granted to it, to hand to an agent instead of
+ * `window.hlas`. Components whose scope was not granted are left out as if they were not registered, and
+ * actions whose scope was not granted are left out of the components' actions and tool definitions.
+ * Executing, undoing or redoing them resolves as `"forbidden"`. Events, the call history and screen
+ * diffs are limited in the same way.
+ * @property {string} name - The name of the session in the audit log.
+ * @property {Scope[]} scopes - The granted scopes.
+ * @see Registry.createSession
+ */
+export interface HlasSession {
+  readonly name: string;
+  readonly scopes: Scope[];
+  find(query: string | ComponentQuery): ComponentEntry[];
+  findBest(text: string, options?: FindBestOptions): ComponentMatch[];
+  readScreen: {
+    (options: ReadScreenOptions & { format: "outline" }): string;
+    (options?: ReadScreenOptions): ScreenComponent[];
+  };
+  readTree(): ScreenTreeNode[];
+  serializeScreen(options?: SerializeScreenOptions): SerializedScreen;
+  execute(
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+  ): boolean;
+  executeAsync(
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+  ): Promise<ExecutionResult>;
+  executeBatch(
+    steps: BatchStep[],
+    options?: BatchOptions,
+  ): Promise<BatchResult>;
+  waitFor(
+    query: string | ComponentQuery,
+    options?: WaitOptions,
+  ): Promise<ComponentEntry | undefined>;
+  waitForContent(
+    id: string,
+    predicate: (content: unknown) => boolean,
+    options?: WaitOptions,
+  ): Promise<boolean>;
+  waitForGone(id: string, options?: WaitOptions): Promise<boolean>;
+  toToolDefinitions<F extends ToolFormat = "generic">(
+    options?: ToolDefinitionOptions<F>,
+  ): ToolDefinitionFormats[F][];
+  dispatchToolCall(call: ToolCall): Promise<ToolCallResult>;
+  focus(id: string): boolean;
+  highlight(
+    id: string,
+    duration?: number,
+    title?: string,
+    description?: string,
+  ): boolean;
+  startTour(steps: TourStep[], autoStart?: boolean): boolean;
+  undo(): Promise<ExecutionResult>;
+  redo(): Promise<ExecutionResult>;
+  history(query?: AuditQuery): AuditEntry[];
+  exportHistory(query?: AuditQuery): string;
+  snapshot(): ScreenSnapshot;
+  diff(fromVersion: number): ScreenDiff;
+  subscribe(listener: RegistryListener): () => void;
+  on<T extends RegistryEventType>(
+    type: T,
+    listener: (event: Extract<RegistryEvent, { type: T }>) => void,
+  ): () => void;
+}
+
+/**
+ * @type RegistryView
+ * @description The methods shared by the registry and its sessions (see {@link HlasSession}). `AgentLoop`,
+ * `runCommands` and `McpBridge` drive the UI through a view, so that they can be limited to a session's scopes.
+ */
+export type RegistryView = Omit<HlasSession, "name" | "scopes">;
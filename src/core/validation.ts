@@ -0,0 +1,139 @@
+/**
+ * @module core/validation
+ * @description Validates and normalizes action parameters against the {@link ActionParameter}
+ * declarations of an {@link ActionSchema} before an action is dispatched. Parameters produced by
+ * LLMs are frequently misnamed or given as strings, so values of simple types are coerced and every
+ * problem is reported in one descriptive message.
+ */
+
+import { ActionParameter } from "./types";
+
+/**
+ * @interface ParameterValidationResult
+ * @description The outcome of {@link validateParameters}.
+ * @property {boolean} valid - `true` if no problems were found.
+ * @property {Record<string, unknown>} params - The coerced parameters, with declared defaults filled in.
+ * @property {string[]} errors - One message per offending parameter. Empty when `valid` is `true`.
+ */
+export interface ParameterValidationResult {
+  valid: boolean;
+  params: Record<string, unknown>;
+  errors: string[];
+}
+
+/**
+ * Coerces a value to the declared parameter type where the conversion is unambiguous
+ * (e.g. `"5"` to `5` for `number`, `"true"` to `true` for `boolean`, a JSON string to an object
+ * for `object`). Values that cannot be converted are returned unchanged.
+ *
+ * @param {unknown} value - The value supplied by the caller.
+ * @param {ActionParameter["type"]} type - The declared type. Defaults to `"string"`.
+ * @returns {unknown} The coerced value.
+ */
+function coerce(value: unknown, type: ActionParameter["type"]): unknown {
+  switch (type) {
+    case "number":
+      if (typeof value === "string" && value.trim() !== "") {
+        const parsed = Number(value);
+        return Number.isNaN(parsed) ? value : parsed;
+      }
+      return value;
+    case "boolean":
+      if (typeof value === "string") {
+        const normalized = value.trim().toLowerCase();
+        if (normalized === "true") return true;
+        if (normalized === "false") return false;
+      }
+      return value;
+    case "object":
+      if (typeof value === "string" && /^\s*[[{]/.test(value)) {
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      }
+      return value;
+    default:
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      return value;
+  }
+}
+
+/**
+ * Checks whether a (coerced) value matches the declared parameter type.
+ *
+ * @param {unknown} value - The value to check.
+ * @param {ActionParameter["type"]} type - The declared type. Defaults to `"string"`.
+ * @returns {boolean} `true` if the value has the declared type.
+ */
+function matchesType(value: unknown, type: ActionParameter["type"]): boolean {
+  switch (type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return typeof value === "object" && value !== null;
+    default:
+      return typeof value === "string";
+  }
+}
+
+/**
+ * Validates parameters against an action's declared {@link ActionParameter} list.
+ *
+ * - Parameters that are not declared are rejected, listing the declared names.
+ * - Missing parameters receive their `defaultValue`; missing `required` parameters without one are rejected.
+ * - Values are coerced to the declared `type` (see {@link coerce}) and rejected if they still do not match it.
+ *
+ * @param {ActionParameter[]} parameters - The parameters declared by the action's schema.
+ * @param {Record<string, unknown>} [params={}] - The parameters supplied by the caller.
+ * @returns {ParameterValidationResult} The normalized parameters and any validation errors.
+ */
+export function validateParameters(
+  parameters: ActionParameter[],
+  params: Record<string, unknown> = {},
+): ParameterValidationResult {
+  const errors: string[] = [];
+  const normalized: Record<string, unknown> = {};
+  const declaredNames = parameters.map((parameter) => parameter.name);
+
+  for (const name of Object.keys(params)) {
+    if (!declaredNames.includes(name)) {
+      errors.push(
+        declaredNames.length > 0
+          ? `unknown parameter "${name}" (expected one of: ${declaredNames.join(", ")})`
+          : `unknown parameter "${name}" (the action takes no parameters)`,
+      );
+    }
+  }
+
+  for (const parameter of parameters) {
+    const type = parameter.type || "string";
+    let value = params[parameter.name];
+
+    if (value === undefined) {
+      if (parameter.defaultValue !== undefined) {
+        normalized[parameter.name] = parameter.defaultValue;
+      } else if (parameter.required) {
+        errors.push(`missing required parameter "${parameter.name}"`);
+      }
+      continue;
+    }
+
+    value = coerce(value, type);
+    if (!matchesType(value, type)) {
+      errors.push(
+        `parameter "${parameter.name}" must be of type ${type} (received ${JSON.stringify(value)})`,
+      );
+      continue;
+    }
+
+    normalized[parameter.name] = value;
+  }
+
+  return { valid: errors.length === 0, params: normalized, errors };
+}
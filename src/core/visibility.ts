@@ -0,0 +1,207 @@
+/**
+ * @module core/visibility
+ * @description Determines whether the DOM element of a registered component can currently be
+ * perceived by the user. Used by {@link Registry.readScreen} to populate
+ * {@link ScreenComponent.visible} and to honour `readScreen({ onlyVisible: true })`.
+ */
+
+/**
+ * Selector matching elements that behave as modal overlays. While one of these is open,
+ * content outside of it is considered occluded. Dialogs opened with `show()` are not modal.
+ */
+const MODAL_SELECTOR = 'dialog:modal, [aria-modal="true"]';
+
+/**
+ * The modal overlays recognized by engines that do not support `:modal` (e.g. jsdom).
+ */
+const FALLBACK_MODAL_SELECTOR = '[aria-modal="true"]';
+
+/**
+ * Checks whether the element or one of its ancestors removes it from the rendered or
+ * accessible output: the `hidden` attribute, `aria-hidden="true"`, `display: none`,
+ * or a computed `visibility` of `hidden`/`collapse` on the element itself
+ * (`visibility` is inherited, so the element's own computed value accounts for its ancestors).
+ *
+ * @param {HTMLElement} element - The element to inspect.
+ * @returns {boolean} `true` if the element is hidden by markup or styles, `false` otherwise.
+ */
+export function isHiddenByStyle(element: HTMLElement): boolean {
+  const visibility = window.getComputedStyle(element).visibility;
+  if (visibility === "hidden" || visibility === "collapse") {
+    return true;
+  }
+
+  let current: HTMLElement | null = element;
+  while (current) {
+    if (
+      current.hidden ||
+      current.getAttribute("aria-hidden") === "true" ||
+      window.getComputedStyle(current).display === "none"
+    ) {
+      return true;
+    }
+    current = current.parentElement;
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether a bounding box overlaps the viewport.
+ *
+ * @param {DOMRect} rect - The bounding box, as returned by `getBoundingClientRect()`.
+ * @returns {boolean} `true` if at least part of the box lies within the viewport.
+ */
+export function isRectInViewport(rect: DOMRect): boolean {
+  const viewportHeight =
+    window.innerHeight || document.documentElement.clientHeight;
+  const viewportWidth =
+    window.innerWidth || document.documentElement.clientWidth;
+
+  return (
+    rect.bottom > 0 &&
+    rect.right > 0 &&
+    rect.top < viewportHeight &&
+    rect.left < viewportWidth
+  );
+}
+
+/**
+ * Finds the open modal overlays of a document: dialogs opened with `showModal()` and shown
+ * `[aria-modal="true"]` elements. Callers checking many elements query them once and pass them
+ * to {@link isOccludedByModal} or {@link isElementVisible}.
+ *
+ * @param {Document} [root=document] - The document to search.
+ * @returns {HTMLElement[]} The open modals, in document order.
+ */
+export function findOpenModals(root: Document = document): HTMLElement[] {
+  let candidates: NodeListOf<HTMLElement>;
+  try {
+    candidates = root.querySelectorAll<HTMLElement>(MODAL_SELECTOR);
+  } catch {
+    candidates = root.querySelectorAll<HTMLElement>(FALLBACK_MODAL_SELECTOR);
+  }
+  return Array.from(candidates).filter((modal) => !isHiddenByStyle(modal));
+}
+
+/**
+ * Checks whether the element is covered by an open modal overlay (see {@link findOpenModals}).
+ * Only the last open modal in document order is considered to be on top; elements inside it,
+ * or elements that contain it, are not occluded.
+ *
+ * @param {HTMLElement} element - The element to inspect.
+ * @param {HTMLElement[]} [modals] - The open modals, if already known. Queried when omitted.
+ * @returns {boolean} `true` if another open modal covers the element.
+ */
+export function isOccludedByModal(
+  element: HTMLElement,
+  modals: HTMLElement[] = findOpenModals(element.ownerDocument),
+): boolean {
+  const topModal = modals[modals.length - 1];
+  if (!topModal) {
+    return false;
+  }
+
+  return !topModal.contains(element) && !element.contains(topModal);
+}
+
+/**
+ * Computes whether an element is visible to the user. An element is visible when it is
+ * attached to the document, not hidden by markup or styles, has a non-zero size, lies
+ * within the viewport and is not occluded by an open modal overlay.
+ *
+ * @param {HTMLElement} element - The element to inspect.
+ * @param {boolean} [intersecting] - The last known intersection reported by a {@link VisibilityTracker}.
+ *                                   Elements that are not rendered (`display: none`) or have no size
+ *                                   never intersect, so only `hidden`/`aria-hidden` markup and the
+ *                                   element's own `visibility` are checked on top of it. When omitted,
+ *                                   the ancestors' styles and the element's bounding box are read.
+ * @param {HTMLElement[]} [modals] - The open modals (see {@link findOpenModals}). Queried when omitted.
+ * @returns {boolean} `true` if the element is considered visible.
+ */
+export function isElementVisible(
+  element: HTMLElement,
+  intersecting?: boolean,
+  modals?: HTMLElement[],
+): boolean {
+  if (!element.isConnected) {
+    return false;
+  }
+
+  if (intersecting !== undefined) {
+    const visibility = window.getComputedStyle(element).visibility;
+    if (
+      !intersecting ||
+      element.closest('[hidden], [aria-hidden="true"]') ||
+      visibility === "hidden" ||
+      visibility === "collapse"
+    ) {
+      return false;
+    }
+  } else {
+    if (isHiddenByStyle(element)) {
+      return false;
+    }
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0 || !isRectInViewport(rect)) {
+      return false;
+    }
+  }
+
+  return !isOccludedByModal(element, modals);
+}
+
+/**
+ * @class VisibilityTracker
+ * @description Keeps track of which observed elements are rendered with a size and intersect the
+ * viewport, using a single shared `IntersectionObserver`, so that visibility checks for hundreds of
+ * components do not read each component's layout and ancestor styles. In environments without `IntersectionObserver`
+ * (e.g. server rendering or older test environments), {@link VisibilityTracker.isIntersecting}
+ * always returns `undefined` and callers fall back to bounding box checks.
+ */
+export class VisibilityTracker {
+  private observer: IntersectionObserver | undefined;
+  private intersections: WeakMap<Element, boolean> = new WeakMap();
+
+  constructor() {
+    if (typeof IntersectionObserver !== "undefined") {
+      this.observer = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+          const { width, height } = entry.boundingClientRect;
+          this.intersections.set(
+            entry.target,
+            entry.isIntersecting && width > 0 && height > 0,
+          );
+        }
+      });
+    }
+  }
+
+  /**
+   * Starts tracking the viewport intersection of an element.
+   * @param {HTMLElement} element - The element to observe.
+   */
+  observe(element: HTMLElement): void {
+    this.observer?.observe(element);
+  }
+
+  /**
+   * Stops tracking an element and forgets its last known intersection.
+   * @param {HTMLElement} element - The element to stop observing.
+   */
+  unobserve(element: HTMLElement): void {
+    this.observer?.unobserve(element);
+    this.intersections.delete(element);
+  }
+
+  /**
+   * Returns the last intersection reported for an element.
+   * @param {HTMLElement} element - The observed element.
+   * @returns {boolean | undefined} Whether the element has a size and intersects the viewport, or
+   *                                `undefined` if no observation has been reported yet.
+   */
+  isIntersecting(element: HTMLElement): boolean | undefined {
+    return this.intersections.get(element);
+  }
+}
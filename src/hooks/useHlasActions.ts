@@ -5,9 +5,51 @@
  */
 
 import { useRef, useEffect, RefObject, useId } from "react";
-import { ActionMap, ActionSchema } from "../core/types";
+import {
+  ActionFunction,
+  ActionMap,
+  ActionSchema,
+  ExecuteEventDetail,
+  UseHlasActionsOptions,
+} from "../core/types";
 import registry from "../core/registry";
 
+/**
+ * Returns the handler of an {@link ActionMap} entry, which is either the function itself
+ * or the `handler` of an {@link ActionDefinition}.
+ *
+ * @param {ActionMap[string]} entry - The action map entry.
+ * @returns {ActionFunction} The function implementing the action.
+ */
+function getHandler(entry: ActionMap[string]): ActionFunction {
+  return typeof entry === "function" ? entry : entry.handler;
+}
+
+/**
+ * Builds the {@link ActionSchema} registered for an {@link ActionMap} entry. Plain functions
+ * are described by their key only; {@link ActionDefinition}s contribute their name,
+ * description, parameters, confirmation policy (`risk`, `requiresConfirmation`) and `scope`.
+ *
+ * @param {string} id - The action's key in the map.
+ * @param {ActionMap[string]} entry - The action map entry.
+ * @returns {ActionSchema} The schema describing the action.
+ */
+function toActionSchema(id: string, entry: ActionMap[string]): ActionSchema {
+  if (typeof entry === "function") {
+    return { id, name: id };
+  }
+
+  const schema: ActionSchema = { id, name: entry.name || id };
+  if (entry.description) schema.description = entry.description;
+  if (entry.parameters) schema.parameters = entry.parameters;
+  if (entry.risk) schema.risk = entry.risk;
+  if (entry.requiresConfirmation !== undefined) {
+    schema.requiresConfirmation = entry.requiresConfirmation;
+  }
+  if (entry.scope) schema.scope = entry.scope;
+  return schema;
+}
+
 /**
  * A React hook that registers a component with the HLAS (Human-Like Autonomous System) registry,
  * allowing it to be discovered and interacted with programmatically. It also sets up event listeners
@@ -18,12 +60,18 @@ import registry from "../core/registry";
  * and listens for `hlas:execute` custom events dispatched on the component's DOM element to trigger actions.
  *
  * @param {ActionMap} actions - An object where keys are action identifiers (e.g., "click", "setValue")
- *                              and values are the corresponding functions to execute. These functions
- *                              will receive a `params` object if provided during action execution.
+ *                              and values are the corresponding functions to execute, or
+ *                              {@link ActionDefinition} objects (`{ handler, name, description, parameters, risk }`)
+ *                              that also describe the action. Handlers will receive a `params` object
+ *                              if provided during action execution. Definitions with `undo` can be
+ *                              reverted with `window.hlas.undo()` once their handler has succeeded.
  * @param {string} name - A human-readable name for the component (e.g., "Submit Button", "Username Input").
  *                        This name is used for discovery via `window.hlas.find()`.
  * @param {string} [description] - An optional detailed description of the component's purpose or behavior.
  *                                 This is also used for discovery.
+ * @param {UseHlasActionsOptions} [options={}] - Pass `{ id }` to register the component under a stable ID
+ *                                               instead of one generated by `useId()`, and `{ scope }` to
+ *                                               require a scope other than `"read"` to see it.
  * @returns {RefObject<HTMLElement>} A React ref object that must be attached to the main interactive
  *                                   HTML element of the component. This allows the hook to access the
  *                                   DOM element for registration and event listening.
@@ -70,19 +118,27 @@ import registry from "../core/registry";
  * };
  * ```
  * @remarks
- * - The hook uses `React.useId()` to generate a stable, unique ID for the component's registration.
- * - Action schemas for registration are derived from the keys of the `actions` map. The `name` for each
- *   registered `ActionSchema` will be the action's key (e.g., "highlight", "setValue").
+ * - The hook uses `React.useId()` to generate a unique ID for the component's registration, unless an `id`
+ *   is given. Generated IDs change across reloads; the registry then identifies the component by a
+ *   path-based `stableId` derived from its name (see {@link ScreenComponent.stableId}).
+ * - Action schemas for registration are derived from the `actions` map. For plain functions, the `name`
+ *   of the registered `ActionSchema` is the action's key (e.g., "highlight", "setValue"); rich
+ *   {@link ActionDefinition} entries provide their own `name`, `description` and `parameters`.
+ *   The component is re-registered whenever these schemas change.
  * - When an action is triggered via `window.hlas.execute(componentId, actionId, params)`, the
  *   `handleExecute` function within this hook will look up `actionId` in the `actions` map and call it.
+ * - When triggered via `window.hlas.executeAsync()`, the action's return value (or the Promise it returns)
+ *   is reported back to the caller; thrown errors and unknown actions are reported as failures.
  */
 export function useHlasActions(
   actions: ActionMap,
   name: string,
   description?: string,
+  options: UseHlasActionsOptions = {},
 ): RefObject<HTMLElement> {
-  // Generate stable component ID using React's useId
+  // Generate a component ID using React's useId unless one is given
   const reactId = useId();
+  const registrationId = options.id || reactId;
   const elementRef = useRef<HTMLElement>(null);
   const actionsRef = useRef(actions);
   const componentIdRef = useRef<string | null>(null);
@@ -92,42 +148,77 @@ export function useHlasActions(
     actionsRef.current = actions;
   }, [actions]);
 
+  // Create action schemas from the actions map. Handlers usually change on every render,
+  // so the serialized schemas decide when the component has to be re-registered.
+  const actionSchemas: ActionSchema[] = Object.entries(actions).map(
+    ([id, entry]) => toActionSchema(id, entry),
+  );
+  const schemaKey = JSON.stringify(actionSchemas);
+
   // Register component and set up action execution
   useEffect(() => {
     const element = elementRef.current;
     if (!element) return;
 
-    // Create action schemas from the actions map
-    const actionSchemas: ActionSchema[] = Object.entries(actions).map(
-      ([id]) => ({
-        // Removed the unused second parameter
-        id,
-        name: id, // For simplicity in PoC, just use ID as name
-      }),
-    );
-
-    // Register the component with the registry using the stable React ID
+    // Register the component with the registry
     const componentId = registry.register(
-      reactId,
+      registrationId,
       element,
       name,
       actionSchemas,
       description,
+      { generatedId: !options.id, scope: options.scope },
     );
 
     componentIdRef.current = componentId;
 
     // Set up event listener for action execution
     const handleExecute = (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const { actionId, params } = customEvent.detail;
-
-      if (actionsRef.current[actionId]) {
-        actionsRef.current[actionId](params);
-      } else {
-        console.error(
-          `Action ${actionId} not found on component ${componentId}`,
-        );
+      const customEvent = event as CustomEvent<ExecuteEventDetail>;
+      const { id, actionId, params, respond, registerUndo } =
+        customEvent.detail;
+
+      // Actions resolved to another registration of this element (e.g. by the action() HOC)
+      if (id && id !== componentId) return;
+
+      const entry = actionsRef.current[actionId];
+
+      if (!entry) {
+        const message = `Action ${actionId} not found on component ${componentId}`;
+        console.error(message);
+        respond?.(Promise.reject(new Error(message)));
+        return;
+      }
+
+      // Report the action's result (or failure) to executeAsync callers
+      try {
+        // Capture how to revert the action before it changes anything
+        const undo =
+          typeof entry === "function" ? undefined : entry.undo?.(params);
+        const result = getHandler(entry)(params);
+        if (!respond && result instanceof Promise) {
+          // Nobody awaits actions run with execute(), so report their failure here
+          result.catch((error) =>
+            console.error(
+              `Action ${actionId} on component ${componentId} failed:`,
+              error,
+            ),
+          );
+        }
+        if (undo && registerUndo) {
+          if (result instanceof Promise) {
+            result.then(
+              () => registerUndo(undo),
+              () => {},
+            );
+          } else {
+            registerUndo(undo);
+          }
+        }
+        respond?.(result);
+      } catch (error) {
+        if (!respond) throw error;
+        respond(Promise.reject(error));
       }
     };
 
@@ -137,11 +228,11 @@ export function useHlasActions(
     return () => {
       element.removeEventListener("hlas:execute", handleExecute);
       if (componentIdRef.current) {
-        registry.unregister(componentIdRef.current);
+        registry.unregister(componentIdRef.current, element);
         componentIdRef.current = null;
       }
     };
-  }, [name, description]);
+  }, [registrationId, name, description, schemaKey, options.scope]);
 
   return elementRef;
 }
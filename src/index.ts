@@ -9,7 +9,38 @@ import { action } from "./core/action";
 import { useHlasActions } from "./hooks/useHlasActions";
 import Describe from "./components/Describe";
 import registry from "./core/registry";
-import { ComponentEntry, ScreenComponent } from "./core/types";
+import { AuditEntry, AuditQuery } from "./core/audit";
+import {
+  BatchOptions,
+  BatchResult,
+  BatchStep,
+  ComponentEntry,
+  ComponentMatch,
+  ComponentQuery,
+  ConfirmationHandler,
+  ExecutionResult,
+  FindBestOptions,
+  HlasSession,
+  ReadScreenOptions,
+  RegistryDiagnostic,
+  RegistryEvent,
+  RegistryEventType,
+  RegistryListener,
+  Scope,
+  ScreenComponent,
+  ScreenDiff,
+  ScreenSnapshot,
+  ScreenTreeNode,
+  SerializedScreen,
+  SerializeScreenOptions,
+  SessionOptions,
+  ToolCall,
+  ToolCallResult,
+  ToolDefinitionFormats,
+  ToolDefinitionOptions,
+  ToolFormat,
+  WaitOptions,
+} from "./core/types";
 
 /**
  * @interface TourStep
@@ -35,6 +66,71 @@ export { action, useHlasActions, Describe };
 // Export types
 export * from "./core/types";
 
+// Export the command language parser and interpreter
+export * from "./core/commands";
+
+// Export the budgeted screen serializer
+export { serializeComponents, estimateTokens } from "./core/serializer";
+
+// Export the provider-agnostic agent loop
+export * from "./core/agent";
+
+// Export the MCP bridge and its transports
+export * from "./core/mcp";
+
+// Export the audit log
+export * from "./core/audit";
+
+// Export the interaction recorder and replay
+export * from "./core/recorder";
+
+// Export the default confirmation dialog, for handlers that only confirm some actions themselves
+export { confirmWithDialog, needsConfirmation } from "./core/confirm";
+
+/**
+ * Replaces the handler that decides whether actions marked `risk: "destructive"` or `requiresConfirmation: true`
+ * may run. By default the user is asked with an in-page dialog; declined actions resolve as `"declined"`.
+ * Only the host application can install a handler: it is not part of `window.hlas`, so an agent driving the
+ * page cannot approve its own actions.
+ *
+ * @param {ConfirmationHandler} [handler] - Receives the component, the action and its parameters and returns
+ *                                          (a Promise of) whether the action may run. Omit it to restore the dialog.
+ */
+export function setConfirmationHandler(handler?: ConfirmationHandler): void {
+  registry.setConfirmationHandler(handler);
+}
+
+/**
+ * Creates a view of the registry limited to the granted scopes, to hand to an agent instead of `window.hlas`.
+ * Components require the `"read"` scope and actions the `"write"` scope unless they declare another one.
+ * Pass the session to {@link AgentLoop}, {@link runCommands} or {@link McpBridge} to limit them to its scopes.
+ * Only the host application can create sessions: `window.hlas` offers no way to widen its own scopes.
+ *
+ * @param {SessionOptions} options - The `scopes` granted to the session, e.g. `["read"]`, and its name in the audit log.
+ * @returns {HlasSession} The methods of `window.hlas` that agents use, only seeing what the scopes allow.
+ *                        Actions outside of them resolve as `"forbidden"`.
+ */
+export function createSession(options: SessionOptions): HlasSession {
+  return registry.createSession(options);
+}
+
+/**
+ * Restricts the calls made outside of a session, including those through `window.hlas`, to the given scopes.
+ *
+ * @param {Scope[]} [scopes] - The scopes granted by default. Omit them to lift the restriction.
+ */
+export function setDefaultScopes(scopes?: Scope[]): void {
+  registry.setDefaultScopes(scopes);
+}
+
+/**
+ * Removes all recorded calls from the audit log (see {@link HlasInterface.history}). Only the host application
+ * can clear the log: it is not part of `window.hlas`, so an agent cannot erase the record of what it did.
+ */
+export function clearHistory(): void {
+  registry.clearHistory();
+}
+
 /**
  * @interface HlasInterface
  * @description Defines the global API exposed on `window.hlas` for interacting with registered UI components.
@@ -43,12 +139,23 @@ export * from "./core/types";
  */
 interface HlasInterface {
   /**
-   * Finds registered UI components based on a query string.
-   * The query is typically matched against component names and descriptions.
-   * @param {string} query - The search string to find components.
-   * @returns {ComponentEntry[]} An array of components that match the query.
+   * Finds registered UI components based on a query string or a structured query.
+   * A string is matched against component names and descriptions. A {@link ComponentQuery} can
+   * require an exact name or regular expression, a component type, supported actions, content,
+   * an enclosing component and visibility.
+   * @param {string | ComponentQuery} query - The search string or structured query.
+   * @returns {ComponentEntry[]} The components that match the query, best match first.
+   */
+  find: (query: string | ComponentQuery) => ComponentEntry[];
+
+  /**
+   * Finds the components closest to a loosely phrased text, e.g. "learn hlas" for "Todo Item: Learn about hlas".
+   * Names, descriptions and content are scored locally with token and character trigram similarity.
+   * @param {string} text - The text to match.
+   * @param {FindBestOptions} [options] - `limit` (default 5) and `minScore` (default 0.1) of the results.
+   * @returns {ComponentMatch[]} The best matches with their `score` between 0 and 1, best match first.
    */
-  find: (query: string) => ComponentEntry[];
+  findBest: (text: string, options?: FindBestOptions) => ComponentMatch[];
 
   /**
    * Executes a specified action on a component.
@@ -56,8 +163,10 @@ interface HlasInterface {
    * @param {string} id - The ID of the component to act upon.
    * @param {string} actionId - The ID of the action to execute (e.g., "click", "setValue").
    * @param {Record<string, unknown>} [params] - Optional parameters for the action.
-   * @returns {boolean} `true` if the action was dispatched, `false` if the component was not found.
+   * @returns {boolean} `true` if the action was dispatched, `false` if the component was not found
+   *                    or the parameters do not match the action's declared parameters.
    * @remarks The actual execution of the action is handled by the component itself, typically via the `useHlasActions` hook.
+   *          Declared parameters are coerced to their types and completed with their default values before dispatch.
    */
   execute: (
     id: string,
@@ -65,6 +174,91 @@ interface HlasInterface {
     params?: Record<string, unknown>,
   ) => boolean;
 
+  /**
+   * Executes a specified action on a component and resolves with its outcome once the action settles.
+   * Actions registered through `useHlasActions` may return a value or a Promise, which is reported as `result`.
+   * @param {string} id - The ID of the component to act upon.
+   * @param {string} actionId - The ID of the action to execute.
+   * @param {Record<string, unknown>} [params] - Optional parameters for the action.
+   * @returns {Promise<ExecutionResult>} A Promise resolving to `{ status, result, error, durationMs }`.
+   */
+  executeAsync: (
+    id: string,
+    actionId: string,
+    params?: Record<string, unknown>,
+  ) => Promise<ExecutionResult>;
+
+  /**
+   * Executes several actions in order, waiting for React to render each step's updates before the next one.
+   * @param {BatchStep[]} steps - The actions to execute: `{ id, actionId, params }`.
+   * @param {BatchOptions} [options] - `rollbackOnError`: undo the succeeded steps when a step fails.
+   * @returns {Promise<BatchResult>} `{ status, steps, rolledBack, durationMs }`; the batch stops at the first failed step.
+   */
+  executeBatch: (
+    steps: BatchStep[],
+    options?: BatchOptions,
+  ) => Promise<BatchResult>;
+
+  /**
+   * Waits until a component matching a query is registered, without polling.
+   * @param {string | ComponentQuery} query - The search string or structured query, as for `find()`.
+   * @param {WaitOptions} [options] - `timeout`: how long to wait, in milliseconds (default 5000).
+   * @returns {Promise<ComponentEntry | undefined>} The best match, or `undefined` after the timeout.
+   */
+  waitFor: (
+    query: string | ComponentQuery,
+    options?: WaitOptions,
+  ) => Promise<ComponentEntry | undefined>;
+
+  /**
+   * Waits until the content of a component satisfies a predicate, e.g. until a list contains an item.
+   * @param {string} id - The ID of the component, its ref or its stable ID.
+   * @param {(content: unknown) => boolean} predicate - Receives the parsed `data-hlas-content`.
+   * @param {WaitOptions} [options] - How long to wait.
+   * @returns {Promise<boolean>} `true` once the predicate holds, `false` after the timeout.
+   */
+  waitForContent: (
+    id: string,
+    predicate: (content: unknown) => boolean,
+    options?: WaitOptions,
+  ) => Promise<boolean>;
+
+  /**
+   * Waits until a component is unregistered.
+   * @param {string} id - The ID of the component, its ref or its stable ID.
+   * @param {WaitOptions} [options] - How long to wait.
+   * @returns {Promise<boolean>} `true` once the component is gone, `false` after the timeout.
+   */
+  waitForGone: (id: string, options?: WaitOptions) => Promise<boolean>;
+
+  /**
+   * Waits until a condition returns a truthy value, checking it whenever the registry or the document changes.
+   * @param {() => T} condition - The condition to check.
+   * @param {WaitOptions} [options] - How long to wait.
+   * @returns {Promise<T | undefined>} The condition's first truthy value, or `undefined` after the timeout.
+   */
+  waitUntil: <T>(
+    condition: () => T,
+    options?: WaitOptions,
+  ) => Promise<T | undefined>;
+
+  /**
+   * Exports the actions of all registered components as JSON-Schema tool definitions for function-calling LLMs.
+   * @param {ToolDefinitionOptions} [options] - `format`: `"generic"` (default), `"openai"` or `"anthropic"`;
+   *                                            `onlyVisible`: only export actions of visible components.
+   * @returns {ToolDefinitionFormats[F][]} One tool per component action.
+   */
+  toToolDefinitions: <F extends ToolFormat = "generic">(
+    options?: ToolDefinitionOptions<F>,
+  ) => ToolDefinitionFormats[F][];
+
+  /**
+   * Runs the action behind a tool call made by a model (generic `{ name, arguments }`, OpenAI or Anthropic form).
+   * @param {ToolCall} call - The tool call.
+   * @returns {Promise<ToolCallResult>} The execution result, with the tool name and the tool call ID.
+   */
+  dispatchToolCall: (call: ToolCall) => Promise<ToolCallResult>;
+
   /**
    * Sets focus to a specified component's underlying DOM element.
    * The component must be registered and its element must be focusable.
@@ -82,7 +276,12 @@ interface HlasInterface {
    * @param {string} [description] - An optional description for a popover accompanying the highlight.
    * @returns {boolean} `true` if the highlight was applied, `false` if the component was not found.
    */
-  highlight: (id: string, duration?: number, title?: string, description?: string) => boolean;
+  highlight: (
+    id: string,
+    duration?: number,
+    title?: string,
+    description?: string,
+  ) => boolean;
   // Note: The actual signature in registry.highlight has title then description. This matches the registry.
   // The original HlasInterface had 'tooltip' as the third param. Changed to match implementation.
 
@@ -97,9 +296,102 @@ interface HlasInterface {
   /**
    * Reads and returns a representation of the current screen state, including all registered components.
    * This is used to provide context to an LLM or other systems.
-   * @returns {ScreenComponent[]} An array of objects representing the state of registered UI components.
+   * @param {ReadScreenOptions} [options] - Pass `{ onlyVisible: true }` to omit components that are not currently visible,
+   *                                        and `{ format: "outline" }` to get an indented outline with short refs
+   *                                        (`e1`, `e2`, …) that can be used in place of component IDs.
+   * @returns {ScreenComponent[] | string} An array of objects representing the state of registered UI components,
+   *                                       or the outline text.
+   */
+  readScreen: {
+    (options: ReadScreenOptions & { format: "outline" }): string;
+    (options?: ReadScreenOptions): ScreenComponent[];
+  };
+
+  /**
+   * Reads the registered components as a tree that mirrors their nesting in the DOM,
+   * e.g. list items under their list and buttons under the list item that contains them.
+   * @returns {ScreenTreeNode[]} The top-level components, each with its nested `children`.
+   */
+  readTree: () => ScreenTreeNode[];
+
+  /**
+   * Serializes the screen for an LLM prompt as compact text, Markdown or JSON within a character or token
+   * budget. Long content is shortened with "N more items" markers, and when components have to be left out,
+   * visible and actionable ones are kept first.
+   * @param {SerializeScreenOptions} [options] - The `format`, the `maxChars`/`maxTokens` budget and the content limits.
+   * @returns {SerializedScreen} The serialized `text`, the IDs of the included components and the number omitted.
+   */
+  serializeScreen: (options?: SerializeScreenOptions) => SerializedScreen;
+
+  /**
+   * Returns the recorded calls of `execute`, `executeAsync`, `dispatchToolCall`, `focus`, `highlight` and `startTour`:
+   * when they were made, by which session, on which component, with which parameters and outcome.
+   * @param {AuditQuery} [query] - Filters by `componentId`, `operation`, `caller`, `outcome` or `since`, and a `limit`.
+   * @returns {AuditEntry[]} The matching calls, oldest first. Only the most recent 500 calls are kept.
+   */
+  history: (query?: AuditQuery) => AuditEntry[];
+
+  /**
+   * Exports the recorded calls as JSON Lines, e.g. to attach them to a support ticket.
+   * @param {AuditQuery} [query] - The filters to apply (see {@link HlasInterface.history}).
+   * @returns {string} One JSON object per call, oldest first.
    */
-  readScreen: () => ScreenComponent[];
+  exportHistory: (query?: AuditQuery) => string;
+
+  /**
+   * Reverts the most recent action executed through `window.hlas` whose definition provides `undo`.
+   * @returns {Promise<ExecutionResult>} `"success"` once reverted, or `"not_found"` if there is nothing to undo.
+   */
+  undo: () => Promise<ExecutionResult>;
+
+  /**
+   * Executes the most recently undone action again.
+   * @returns {Promise<ExecutionResult>} The action's result, or `"not_found"` if there is nothing to redo.
+   */
+  redo: () => Promise<ExecutionResult>;
+
+  /**
+   * Reports registration problems: IDs registered for several elements, elements registered under several
+   * IDs (e.g. by both `useHlasActions` and a `Describe` component) and sibling components with the same name.
+   * @returns {RegistryDiagnostic[]} The problems found, with a `kind`, a `severity` and the `ids` involved.
+   */
+  diagnostics: () => RegistryDiagnostic[];
+
+  /**
+   * Takes a versioned snapshot of the screen. The version only increases when the screen has changed.
+   * @returns {ScreenSnapshot} The current screen state (as returned by `readScreen()`) and its version.
+   */
+  snapshot: () => ScreenSnapshot;
+
+  /**
+   * Returns the components that were added, removed or changed since a previous snapshot, including
+   * item-level differences of list contents. Useful for sending an LLM only what changed since its last turn.
+   * @param {number} fromVersion - The `version` of a previous snapshot, or the `toVersion` of a previous diff.
+   * @returns {ScreenDiff} The difference up to the current version (`toVersion`). If `fromVersion` is no
+   *                       longer known, `reset` is `true` and `added` holds the complete screen.
+   */
+  diff: (fromVersion: number) => ScreenDiff;
+
+  /**
+   * Subscribes to changes of a single type, so that callers can react when the UI changes
+   * instead of polling `readScreen()`.
+   * @param {RegistryEventType} type - `"register"`, `"unregister"`, `"contentChange"` (the `data-hlas-content`
+   *                                   of a component changed), `"beforeExecute"` and `"execute"` (an action is
+   *                                   about to be / was dispatched) or `"undo"` (an action is being undone).
+   * @param {(event: RegistryEvent) => void} listener - Called with each event of the given type.
+   * @returns {() => void} A function that removes the listener.
+   */
+  on: <T extends RegistryEventType>(
+    type: T,
+    listener: (event: Extract<RegistryEvent, { type: T }>) => void,
+  ) => () => void;
+
+  /**
+   * Subscribes to all registry changes. See {@link HlasInterface.on}.
+   * @param {RegistryListener} listener - Called with each {@link RegistryEvent}.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe: (listener: RegistryListener) => () => void;
 }
 
 // Register global hlas object on window
@@ -118,6 +410,14 @@ if (typeof window !== "undefined") {
    * ```typescript
    * // Find a button by its name
    * const buttons = window.hlas.find("Submit Button");
+   *
+   * // Find the visible item of a specific list that can be toggled
+   * const [item] = window.hlas.find({
+   *   type: "ListItem",
+   *   within: { name: "Todo List" },
+   *   hasAction: "toggle",
+   *   visible: true,
+   * });
    * if (buttons.length > 0) {
    *   // Execute its default action (if 'click' is defined for it)
    *   window.hlas.execute(buttons[0].id, "click");
@@ -136,19 +436,43 @@ if (typeof window !== "undefined") {
    *   { id: "profile-icon", description: "Click here to view your profile." },
    *   { id: "settings-menu", description: "Then, open settings." }
    * ]);
+   *
+   * // Re-read the screen only when the list content changes
+   * const unsubscribe = window.hlas.on("contentChange", (event) => {
+   *   console.log(`Content of ${event.id} changed`, event.content);
+   * });
    * ```
    */
   (window as Window & typeof globalThis & { hlas?: HlasInterface }).hlas = {
-    find: registry.find,
-    execute: registry.execute,
-    focus: registry.focus,
-    highlight: registry.highlight,
-    startTour: registry.startTour,
-    readScreen: registry.readScreen,
+    find: registry.find.bind(registry),
+    findBest: registry.findBest.bind(registry),
+    execute: registry.execute.bind(registry),
+    executeAsync: registry.executeAsync.bind(registry),
+    executeBatch: registry.executeBatch.bind(registry),
+    waitFor: registry.waitFor.bind(registry),
+    waitForContent: registry.waitForContent.bind(registry),
+    waitForGone: registry.waitForGone.bind(registry),
+    waitUntil: registry.waitUntil.bind(registry),
+    toToolDefinitions: registry.toToolDefinitions.bind(registry),
+    dispatchToolCall: registry.dispatchToolCall.bind(registry),
+    focus: registry.focus.bind(registry),
+    highlight: registry.highlight.bind(registry),
+    startTour: registry.startTour.bind(registry),
+    readScreen: registry.readScreen.bind(registry),
+    readTree: registry.readTree.bind(registry),
+    serializeScreen: registry.serializeScreen.bind(registry),
+    diagnostics: registry.diagnostics.bind(registry),
+    history: registry.history.bind(registry),
+    exportHistory: registry.exportHistory.bind(registry),
+    undo: registry.undo.bind(registry),
+    redo: registry.redo.bind(registry),
+    snapshot: registry.snapshot.bind(registry),
+    diff: registry.diff.bind(registry),
+    on: registry.on.bind(registry),
+    subscribe: registry.subscribe.bind(registry),
   };
 }
 
-
 /**
  * @namespace HlasExports
  * @description Default export containing the primary building blocks of the hlas library.
@@ -1,17 +1,84 @@
-import { ComponentEntry, ScreenComponent } from "../core/types";
+import {
+  BatchOptions,
+  BatchResult,
+  BatchStep,
+  ComponentEntry,
+  ComponentMatch,
+  ComponentQuery,
+  ExecutionResult,
+  FindBestOptions,
+  ReadScreenOptions,
+  RegistryDiagnostic,
+  RegistryEvent,
+  RegistryEventType,
+  RegistryListener,
+  ScreenComponent,
+  ScreenDiff,
+  ScreenSnapshot,
+  ScreenTreeNode,
+  SerializedScreen,
+  SerializeScreenOptions,
+  ToolCall,
+  ToolCallResult,
+  ToolDefinitionFormats,
+  ToolDefinitionOptions,
+  ToolFormat,
+  WaitOptions,
+} from "../core/types";
 import { TourStep } from "../core/registry";
+import { AuditEntry, AuditQuery } from "../core/audit";
 
 declare global {
   interface Window {
     hlas: {
-      find: (query: string) => ComponentEntry[];
+      find: (query: string | ComponentQuery) => ComponentEntry[];
+      findBest: (text: string, options?: FindBestOptions) => ComponentMatch[];
       execute: (
         id: string,
         actionId: string,
         params?: Record<string, unknown>,
       ) => boolean;
+      executeAsync: (
+        id: string,
+        actionId: string,
+        params?: Record<string, unknown>,
+      ) => Promise<ExecutionResult>;
+      executeBatch: (
+        steps: BatchStep[],
+        options?: BatchOptions,
+      ) => Promise<BatchResult>;
+      waitFor: (
+        query: string | ComponentQuery,
+        options?: WaitOptions,
+      ) => Promise<ComponentEntry | undefined>;
+      waitForContent: (
+        id: string,
+        predicate: (content: unknown) => boolean,
+        options?: WaitOptions,
+      ) => Promise<boolean>;
+      waitForGone: (id: string, options?: WaitOptions) => Promise<boolean>;
+      waitUntil: <T>(
+        condition: () => T,
+        options?: WaitOptions,
+      ) => Promise<T | undefined>;
+      toToolDefinitions: <F extends ToolFormat = "generic">(
+        options?: ToolDefinitionOptions<F>,
+      ) => ToolDefinitionFormats[F][];
+      dispatchToolCall: (call: ToolCall) => Promise<ToolCallResult>;
       focus: (id: string) => boolean;
-      readScreen: () => ScreenComponent[];
+      readScreen: {
+        (options: ReadScreenOptions & { format: "outline" }): string;
+        (options?: ReadScreenOptions): ScreenComponent[];
+      };
+      readTree: () => ScreenTreeNode[];
+      serializeScreen: (options?: SerializeScreenOptions) => SerializedScreen;
+      diagnostics: () => RegistryDiagnostic[];
+      history: (query?: AuditQuery) => AuditEntry[];
+      exportHistory: (query?: AuditQuery) => string;
+      undo: () => Promise<ExecutionResult>;
+      redo: () => Promise<ExecutionResult>;
+      snapshot: () => ScreenSnapshot;
+      diff: (fromVersion: number) => ScreenDiff;
       highlight: (
         id: string,
         duration: number = 2000,
@@ -19,6 +86,11 @@ declare global {
         description?: string,
       ) => boolean;
       startTour: (steps: TourStep[], autoStart: boolean = true) => boolean;
+      on: <T extends RegistryEventType>(
+        type: T,
+        listener: (event: Extract<RegistryEvent, { type: T }>) => void,
+      ) => () => void;
+      subscribe: (listener: RegistryListener) => () => void;
     };
   }
 }
@@ -86,7 +86,7 @@ describe("Describe Components", () => {
 
           const registeredId = getRegisteredId(defaultProps["data-testid"]);
           unmount();
-          expect(registryInstance.unregister).toHaveBeenCalledWith(registeredId);
+          expect(registryInstance.unregister).toHaveBeenCalledWith(registeredId, expect.any(HTMLElement));
         });
       });
 
@@ -107,7 +107,7 @@ describe("Describe Components", () => {
           expect(registryInstance.register).toHaveBeenCalledTimes(1);
           const registeredId = getRegisteredId(testId);
           unmount();
-          expect(registryInstance.unregister).toHaveBeenCalledWith(registeredId);
+          expect(registryInstance.unregister).toHaveBeenCalledWith(registeredId, expect.any(HTMLElement));
         });
 
         it(`forwards refs correctly when using 'as="${asPropTestTag}"'`, () => {
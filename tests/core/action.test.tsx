@@ -1,9 +1,11 @@
 import React, { forwardRef, useRef, useEffect } from "react";
-import { render, screen, cleanup } from "@testing-library/react";
+import { render, screen, cleanup, act } from "@testing-library/react";
 import "@testing-library/jest-dom";
 
 import { action } from "../../src/core/action";
 import { ActionSchema } from "../../src/core/types";
+import registry from "../../src/core/registry";
+import { useHlasActions } from "../../src/hooks/useHlasActions";
 
 describe("action HOC", () => {
   const mockSchema: ActionSchema = {
@@ -153,4 +155,95 @@ describe("action HOC", () => {
     expect(div).toHaveAttribute("data-state", "1"); // Check component's own logic ran
   });
 
+  describe("registry integration", () => {
+    const clickSchema: ActionSchema = { id: "click", name: "Click", description: "Trigger a button click" };
+
+    it("should register the wrapped element and unregister it on unmount", () => {
+      const WrappedComponent = action(clickSchema, SimpleButton);
+      const { unmount } = render(<WrappedComponent data-testid="registered-button" />);
+
+      const [entry] = registry.find("Click");
+      expect(entry.element).toBe(screen.getByTestId("registered-button"));
+      expect(entry.actions).toEqual([clickSchema]);
+
+      unmount();
+      expect(registry.find("Click")).toEqual([]);
+    });
+
+    it("should click buttons natively when the schema's action is executed", async () => {
+      const onClick = jest.fn();
+      const WrappedComponent = action(clickSchema, SimpleButton);
+      render(<WrappedComponent onClick={onClick} />);
+
+      const [entry] = registry.find("Click");
+      expect(registry.execute(entry.id, "click")).toBe(true);
+      expect(onClick).toHaveBeenCalledTimes(1);
+
+      const result = await registry.executeAsync(entry.id, "click");
+      expect(result.status).toBe("success");
+      expect(onClick).toHaveBeenCalledTimes(2);
+    });
+
+    it("should set the value of inputs so that onChange handlers observe it", async () => {
+      const onChange = jest.fn();
+      const Input = forwardRef<HTMLInputElement, React.InputHTMLAttributes<HTMLInputElement>>(
+        (props, ref) => <input ref={ref} {...props} />,
+      );
+      Input.displayName = "Input";
+      const WrappedInput = action(
+        { id: "setValue", name: "Set Value", parameters: [{ name: "text" }] },
+        Input,
+      );
+      const StatefulInput = () => {
+        const [value, setValue] = React.useState("");
+        return (
+          <WrappedInput
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              setValue(e.target.value);
+            }}
+          />
+        );
+      };
+      render(<StatefulInput />);
+
+      const [entry] = registry.find("Set Value");
+      let result;
+      await act(async () => {
+        result = await registry.executeAsync(entry.id, "setValue", { text: "Buy milk" });
+      });
+      expect(result).toEqual(expect.objectContaining({ status: "success", result: "Buy milk" }));
+      expect(onChange).toHaveBeenCalledWith("Buy milk");
+    });
+
+    it("should merge into the entry registered by useHlasActions for the same element", () => {
+      const save = jest.fn();
+      const onClick = jest.fn();
+      const WrappedComponent = action(clickSchema, SimpleButton);
+      const SaveButton = () => {
+        const ref = useHlasActions({ save }, "Save Button", "Saves the form");
+        return <WrappedComponent ref={ref} onClick={onClick} data-testid="save-button" />;
+      };
+      const { unmount } = render(<SaveButton />);
+
+      expect(registry.find("Click")).toEqual([]);
+      const entries = registry.find("Save Button");
+      expect(entries).toHaveLength(1);
+      expect(entries[0].actions.map((a) => a.id)).toEqual(["save", "click"]);
+      expect(screen.getByTestId("save-button")).toHaveAttribute("data-hlas-name", "Save Button");
+
+      registry.execute(entries[0].id, "click");
+      expect(onClick).toHaveBeenCalledTimes(1);
+      expect(save).not.toHaveBeenCalled();
+
+      registry.execute(entries[0].id, "save");
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(onClick).toHaveBeenCalledTimes(1);
+
+      unmount();
+      expect(registry.readScreen()).toEqual([]);
+    });
+  });
+
 });
@@ -0,0 +1,216 @@
+import { AgentLoop, LLMMessage, LLMProvider } from "../../src/core/agent";
+import registry from "../../src/core/registry";
+
+jest.mock("driver.js", () => {
+  const mockDriverInstance = {
+    drive: jest.fn(),
+    highlight: jest.fn(),
+    destroy: jest.fn(),
+  };
+  return {
+    driver: jest.fn(() => mockDriverInstance),
+  };
+});
+
+class ScriptedProvider implements LLMProvider {
+  calls: LLMMessage[][] = [];
+
+  constructor(private replies: Array<string | Error>) {}
+
+  async complete(messages: LLMMessage[]): Promise<string> {
+    this.calls.push(messages);
+    const reply = this.replies.shift();
+    if (reply instanceof Error) throw reply;
+    return reply ?? "Done.";
+  }
+}
+
+describe("AgentLoop", () => {
+  let list: HTMLUListElement;
+
+  beforeEach(() => {
+    list = document.createElement("ul");
+    list.setAttribute("data-hlas-content", JSON.stringify([]));
+    document.body.appendChild(list);
+    list.addEventListener("hlas:execute", (event) => {
+      const { actionId, params, respond } = (event as CustomEvent).detail;
+      if (actionId === "add") {
+        const items = JSON.parse(list.getAttribute("data-hlas-content")!);
+        list.setAttribute(
+          "data-hlas-content",
+          JSON.stringify([...items, params.text]),
+        );
+        respond?.(items.length + 1);
+      } else {
+        respond?.(Promise.reject(new Error("Nothing to remove")));
+      }
+    });
+    registry.register("agent-list", list, "Todo List", [
+      {
+        id: "add",
+        name: "Add Todo",
+        parameters: [{ name: "text", type: "string", required: true }],
+      },
+      { id: "remove", name: "Remove Todo" },
+    ]);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    registry.unregister("agent-list");
+    list.remove();
+    jest.restoreAllMocks();
+  });
+
+  it("should run commands and feed results and screen changes back until the model is done", async () => {
+    const provider = new ScriptedProvider([
+      'EXECUTE(agent-list, add, {"text": "Buy milk"})',
+      "EXECUTE(agent-list, remove) EXECUTE(missing, add)",
+      "I added Buy milk.",
+    ]);
+    const onStep = jest.fn();
+
+    const result = await new AgentLoop(provider, { onStep }).run(
+      "Add a todo: Buy milk",
+    );
+
+    expect(result.status).toBe("completed");
+    expect(result.response).toBe("I added Buy milk.");
+    expect(result.steps).toHaveLength(3);
+    expect(onStep).toHaveBeenCalledTimes(3);
+    expect(list.getAttribute("data-hlas-content")).toBe('["Buy milk"]');
+
+    const [first, second, third] = provider.calls;
+    expect(first.map((message) => message.role)).toEqual(["system", "user"]);
+    expect(first[0].content).toContain(
+      "Todo List [agent-list] (hidden)\n  Actions: add(text: string), remove()\n  Content: []",
+    );
+    expect(first[1].content).toBe("Add a todo: Buy milk");
+
+    const feedback = second[second.length - 1].content;
+    expect(feedback).toContain(
+      'EXECUTE(agent-list, add, {"text": "Buy milk"}): success -> 1',
+    );
+    expect(feedback).toContain("## Screen Changes");
+    expect(feedback).toContain("- Changed: agent-list (content)");
+    expect(feedback).toContain(
+      "Todo List [agent-list] (hidden)\n  Actions: add(text: string), remove()\n  Content:\n  - Buy milk",
+    );
+
+    const failures = third[third.length - 1].content;
+    expect(failures).toContain(
+      "EXECUTE(agent-list, remove): error (Nothing to remove)",
+    );
+    expect(failures).toContain("EXECUTE(missing, add): not_found");
+    expect(failures).toContain("The screen did not change.");
+    expect(result.messages).toHaveLength(7);
+  });
+
+  it("should report malformed commands to the model", async () => {
+    const provider = new ScriptedProvider([
+      'EXECUTE(agent-list, add, {"text": )',
+      "Sorry.",
+    ]);
+
+    const result = await new AgentLoop(provider).run("Add something");
+
+    expect(result.status).toBe("completed");
+    expect(provider.calls[1][3].content).toMatch(
+      /Invalid command at line 1, column 26: EXECUTE: /,
+    );
+  });
+
+  it("should stop at the step limit", async () => {
+    const provider = new ScriptedProvider(
+      Array(5).fill('EXECUTE(agent-list, add, {"text": "Again"})'),
+    );
+
+    const result = await new AgentLoop(provider, { maxSteps: 2 }).run(
+      "Keep adding",
+    );
+
+    expect(result.status).toBe("max_steps");
+    expect(result.steps).toHaveLength(2);
+    expect(provider.calls).toHaveLength(2);
+    expect(JSON.parse(list.getAttribute("data-hlas-content")!)).toEqual([
+      "Again",
+      "Again",
+    ]);
+  });
+
+  it("should skip the remaining commands after a failure when requested", async () => {
+    const provider = new ScriptedProvider([
+      'EXECUTE(agent-list, remove) EXECUTE(agent-list, add, {"text": "x"})',
+      "Could not remove.",
+    ]);
+
+    const result = await new AgentLoop(provider, { stopOnError: true }).run(
+      "Remove, then add",
+    );
+
+    expect(result.steps[0].results).toHaveLength(1);
+    expect(provider.calls[1][3].content).toContain(
+      "1 more command(s) skipped after the failure",
+    );
+  });
+
+  it("should report provider errors", async () => {
+    const provider = new ScriptedProvider([
+      "FOCUS(agent-list)",
+      new Error("Rate limited"),
+    ]);
+
+    const result = await new AgentLoop(provider).run("Focus the list");
+
+    expect(result).toMatchObject({
+      status: "error",
+      error: "Rate limited",
+      response: "FOCUS(agent-list)",
+    });
+    expect(result.steps).toHaveLength(1);
+  });
+
+  it("should keep the screen changes within the screen budget", async () => {
+    const provider = new ScriptedProvider([
+      `EXECUTE(agent-list, add, {"text": "${"x".repeat(5000)}"})`,
+      "Done.",
+    ]);
+
+    await new AgentLoop(provider, {
+      screen: { format: "text", maxChars: 300 },
+    }).run("Add a long todo");
+
+    const feedback = provider.calls[1][3].content;
+    const changes = feedback.slice(feedback.indexOf("## Screen Changes"));
+    expect(changes).toContain("- Changed: agent-list (content)");
+    expect(changes.length).toBeLessThan(500);
+  });
+
+  it("should act within the scopes of a session", async () => {
+    const session = registry.createSession({ scopes: ["read"] });
+    const provider = new ScriptedProvider([
+      'EXECUTE(agent-list, add, {"text": "Buy milk"})',
+      "I may not.",
+    ]);
+
+    const result = await new AgentLoop(provider, { session }).run(
+      "Add a todo: Buy milk",
+    );
+
+    expect(provider.calls[0][0].content).toContain(
+      "Todo List [agent-list] (hidden)\n  Content: []",
+    );
+    expect(result.steps[0].results[0].status).toBe("forbidden");
+    expect(list.getAttribute("data-hlas-content")).toBe("[]");
+  });
+
+  it("should use custom instructions", () => {
+    const prompt = new AgentLoop(new ScriptedProvider([]), {
+      instructions: "Be brief.",
+    }).buildSystemPrompt();
+    expect(prompt.startsWith("Be brief.\n\n## Current Screen State\n")).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { AuditLog } from "../../src/core/audit";
+
+describe("AuditLog", () => {
+  const call = (componentId: string, timestamp: number = 1000) => ({
+    timestamp,
+    caller: "global",
+    operation: "execute" as const,
+    componentId,
+    actionId: "click",
+    outcome: "dispatched" as const,
+    durationMs: 1,
+  });
+
+  it("should number entries and drop the oldest beyond the capacity", () => {
+    const log = new AuditLog(2);
+    log.record(call("a"));
+    log.record(call("b"));
+    log.record(call("c"));
+
+    expect(
+      log.query().map((entry) => [entry.sequence, entry.componentId]),
+    ).toEqual([
+      [2, "b"],
+      [3, "c"],
+    ]);
+
+    log.clear();
+    expect(log.query()).toEqual([]);
+    expect(log.record(call("d")).sequence).toBe(4);
+  });
+
+  it("should filter entries and keep the most recent ones within the limit", () => {
+    const log = new AuditLog();
+    log.record(call("a", 1000));
+    log.record({ ...call("b", 2000), caller: "agent", outcome: "forbidden" });
+    log.record(call("a", 3000));
+
+    expect(
+      log.query({ componentId: "a" }).map((entry) => entry.timestamp),
+    ).toEqual([1000, 3000]);
+    expect(log.query({ caller: "agent", outcome: "forbidden" })).toHaveLength(
+      1,
+    );
+    expect(
+      log.query({ since: 2000, limit: 1 }).map((entry) => entry.timestamp),
+    ).toEqual([3000]);
+  });
+
+  it("should export entries as JSON Lines", () => {
+    const log = new AuditLog();
+    log.record(call("a"));
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+    log.record({ ...call("b"), params: cyclic });
+
+    const lines = log.toJSONLines().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual({ sequence: 1, ...call("a") });
+    expect(JSON.parse(lines[1]).params).toBe("[unserializable]");
+    expect(new AuditLog().toJSONLines()).toBe("");
+  });
+});
@@ -0,0 +1,229 @@
+import { parseCommands, runCommands } from "../../src/core/commands";
+import registry from "../../src/core/registry";
+
+jest.mock("driver.js", () => {
+  const mockDriverInstance = {
+    drive: jest.fn(),
+    highlight: jest.fn(),
+    destroy: jest.fn(),
+  };
+  return {
+    driver: jest.fn(() => mockDriverInstance),
+  };
+});
+
+describe("commands", () => {
+  describe("parseCommands", () => {
+    it("should parse all command types in source order", () => {
+      const { commands, errors } = parseCommands(
+        [
+          "Let me do that for you.",
+          'FOCUS(":r1:")',
+          'EXECUTE(:r1:, setValue, {"value": "Buy milk, eggs (and bread)"})',
+          "HIGHLIGHT(add-button, 2000, \"Click here\", 'Adds the todo')",
+          'TOUR([{"id": "a", "title": "Step 1"}, {"id": "b", "position": "top"}])',
+          "EXECUTE(add-button, addTodo)",
+        ].join("\n"),
+      );
+
+      expect(errors).toEqual([]);
+      expect(commands.map((command) => command.type)).toEqual([
+        "focus",
+        "execute",
+        "highlight",
+        "tour",
+        "execute",
+      ]);
+      expect(commands[0]).toMatchObject({
+        componentId: ":r1:",
+        location: { offset: 24, line: 2, column: 1 },
+        source: 'FOCUS(":r1:")',
+      });
+      expect(commands[1]).toMatchObject({
+        componentId: ":r1:",
+        actionId: "setValue",
+        params: { value: "Buy milk, eggs (and bread)" },
+      });
+      expect(commands[2]).toMatchObject({
+        componentId: "add-button",
+        duration: 2000,
+        title: "Click here",
+        description: "Adds the todo",
+      });
+      expect(commands[3]).toMatchObject({
+        steps: [
+          { id: "a", title: "Step 1" },
+          { id: "b", position: "top" },
+        ],
+      });
+      expect(commands[4]).toMatchObject({ actionId: "addTodo", params: {} });
+    });
+
+    it("should wrap non-object parameters as value", () => {
+      const { commands } = parseCommands(
+        'EXECUTE(input, setValue, "Walk the dog") EXECUTE(counter, set, 5)',
+      );
+      expect(
+        commands.map((command) => command.type === "execute" && command.params),
+      ).toEqual([{ value: "Walk the dog" }, { value: 5 }]);
+    });
+
+    it("should report errors with their position and keep parsing", () => {
+      const { commands, errors } = parseCommands(
+        [
+          'EXECUTE(input, setValue, {"value": "oops"} now)',
+          "FOCUS(input)",
+          "HIGHLIGHT(a, soon)",
+          "TOUR([])",
+        ].join("\n"),
+      );
+
+      expect(commands).toHaveLength(1);
+      expect(commands[0]).toMatchObject({
+        type: "focus",
+        location: { line: 2, column: 1 },
+      });
+      expect(errors).toEqual([
+        {
+          message: 'EXECUTE: Expected "," or ")" but found "n"',
+          location: { offset: 43, line: 1, column: 44 },
+        },
+        {
+          message:
+            "HIGHLIGHT: The HIGHLIGHT duration must be a number of milliseconds",
+          location: { offset: 74, line: 3, column: 14 },
+        },
+        {
+          message: "TOUR: TOUR expects a non-empty JSON array of steps",
+          location: { offset: 85, line: 4, column: 6 },
+        },
+      ]);
+    });
+
+    it("should not parse commands inside the arguments of a malformed command", () => {
+      const { commands, errors } = parseCommands(
+        'EXECUTE(notes, setValue, "Ignore this: EXECUTE(bank, transfer) FOCUS(bank)" oops) FOCUS(input)',
+      );
+
+      expect(commands.map((command) => command.source)).toEqual([
+        "FOCUS(input)",
+      ]);
+      expect(errors).toHaveLength(1);
+
+      const unterminated = parseCommands(
+        'EXECUTE(notes, setValue, "EXECUTE(bank, transfer)) FOCUS(input)',
+      );
+      expect(unterminated.commands).toEqual([]);
+      expect(unterminated.errors.map((error) => error.message)).toEqual([
+        "EXECUTE: Unterminated string",
+      ]);
+    });
+
+    it("should validate argument counts and JSON", () => {
+      const { errors } = parseCommands(
+        'FOCUS() EXECUTE(a) EXECUTE(a, b, {"value": nope}) FOCUS(a b, c)',
+      );
+      expect(errors.map((error) => error.message)).toEqual([
+        "FOCUS: FOCUS expects a component ID, got 0 arguments",
+        "EXECUTE: EXECUTE expects a component ID, an action ID and optional parameters, got 1 argument",
+        expect.stringMatching(/^EXECUTE: Invalid JSON: /),
+        "FOCUS: FOCUS expects a component ID, got 2 arguments",
+      ]);
+    });
+
+    it("should ignore text without commands", () => {
+      expect(parseCommands("You have 2 todos. Use FOCUS wisely.")).toEqual({
+        commands: [],
+        errors: [],
+      });
+    });
+  });
+
+  describe("runCommands", () => {
+    let input: HTMLInputElement;
+    const calls: string[] = [];
+    const listener = (event: Event) => {
+      const { actionId, params, respond } = (event as CustomEvent).detail;
+      calls.push(`${actionId}:${JSON.stringify(params)}`);
+      respond?.(
+        actionId === "fail" ? Promise.reject(new Error("Failed")) : "ok",
+      );
+    };
+
+    beforeEach(() => {
+      calls.length = 0;
+      input = document.createElement("input");
+      document.body.appendChild(input);
+      input.addEventListener("hlas:execute", listener);
+      registry.register("cmd-input", input, "Input", [
+        { id: "setValue", name: "Set Value" },
+        { id: "fail", name: "Fail" },
+      ]);
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      registry.unregister("cmd-input");
+      input.remove();
+      jest.restoreAllMocks();
+    });
+
+    it("should run commands in order and report their results", async () => {
+      const { commands } = parseCommands(
+        'FOCUS(cmd-input) EXECUTE(cmd-input, setValue, {"value": "a"}) FOCUS(missing) EXECUTE(cmd-input, setValue, "b")',
+      );
+
+      const results = await runCommands(commands);
+
+      expect(
+        results.map((result) => [result.command.type, result.status]),
+      ).toEqual([
+        ["focus", "success"],
+        ["execute", "success"],
+        ["focus", "not_found"],
+        ["execute", "success"],
+      ]);
+      expect(results[1].result).toBe("ok");
+      expect(document.activeElement).toBe(input);
+      expect(calls).toEqual([
+        'setValue:{"value":"a"}',
+        'setValue:{"value":"b"}',
+      ]);
+    });
+
+    it("should stop at the first failure when requested", async () => {
+      const { commands } = parseCommands(
+        "EXECUTE(cmd-input, fail) EXECUTE(cmd-input, setValue)",
+      );
+
+      const results = await runCommands(commands, { stopOnError: true });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ status: "error", error: "Failed" });
+      expect(calls).toEqual(["fail:{}"]);
+    });
+
+    it("should run commands within the scopes of a session", async () => {
+      const { commands } = parseCommands(
+        'FOCUS(cmd-input) EXECUTE(cmd-input, setValue, "a")',
+      );
+      const session = registry.createSession({ scopes: ["read"] });
+
+      const results = await runCommands(commands, { session });
+
+      expect(results.map((result) => result.status)).toEqual([
+        "success",
+        "forbidden",
+      ]);
+      expect(calls).toEqual([]);
+      expect(registry.history({ caller: session.name })).toHaveLength(2);
+    });
+
+    it("should report tours without registered components as errors", async () => {
+      const { commands } = parseCommands('TOUR([{"id": "missing"}])');
+      const [result] = await runCommands(commands);
+      expect(result.status).toBe("error");
+    });
+  });
+});
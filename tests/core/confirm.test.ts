@@ -0,0 +1,84 @@
+import { confirmWithDialog, needsConfirmation } from "../../src/core/confirm";
+import { ConfirmationRequest } from "../../src/core/types";
+
+describe("confirm", () => {
+  describe("needsConfirmation", () => {
+    it("should require confirmation for destructive actions unless turned off", () => {
+      expect(needsConfirmation({ id: "save", name: "Save" })).toBe(false);
+      expect(
+        needsConfirmation({
+          id: "delete",
+          name: "Delete",
+          risk: "destructive",
+        }),
+      ).toBe(true);
+      expect(
+        needsConfirmation({
+          id: "delete",
+          name: "Delete",
+          risk: "destructive",
+          requiresConfirmation: false,
+        }),
+      ).toBe(false);
+      expect(
+        needsConfirmation({
+          id: "send",
+          name: "Send",
+          risk: "moderate",
+          requiresConfirmation: true,
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe("confirmWithDialog", () => {
+    const request: ConfirmationRequest = {
+      component: {
+        id: "clear",
+        element: document.createElement("button"),
+        name: "Clear Button",
+        actions: [],
+      },
+      action: {
+        id: "clearCompleted",
+        name: "Clear Completed",
+        description: "Deletes all completed todos",
+      },
+      params: { keep: 1 },
+    };
+
+    const button = (label: string) =>
+      Array.from(document.querySelectorAll("button")).find(
+        (candidate) => candidate.textContent === label,
+      )!;
+
+    it("should show the action in a modal dialog and resolve with the answer", async () => {
+      const answer = confirmWithDialog(request);
+
+      const dialog = document.querySelector('[role="alertdialog"]')!;
+      expect(dialog.getAttribute("aria-modal")).toBe("true");
+      expect(dialog.textContent).toContain(
+        'Allow "Clear Completed" on "Clear Button"? Deletes all completed todos',
+      );
+      expect(dialog.querySelector("pre")!.textContent).toBe(
+        JSON.stringify({ keep: 1 }, null, 2),
+      );
+      expect(document.activeElement).toBe(button("Cancel"));
+
+      button("Confirm").click();
+      await expect(answer).resolves.toBe(true);
+      expect(document.querySelector('[role="alertdialog"]')).toBeNull();
+    });
+
+    it("should decline on cancel and on Escape", async () => {
+      const cancelled = confirmWithDialog(request);
+      button("Cancel").click();
+      await expect(cancelled).resolves.toBe(false);
+
+      const escaped = confirmWithDialog(request);
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+      await expect(escaped).resolves.toBe(false);
+      expect(document.querySelector('[role="alertdialog"]')).toBeNull();
+    });
+  });
+});
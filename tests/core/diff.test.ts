@@ -0,0 +1,79 @@
+import { diffContent, diffScreens } from "../../src/core/diff";
+import { ScreenComponent } from "../../src/core/types";
+
+const component = (
+  id: string,
+  overrides: Partial<ScreenComponent> = {},
+): ScreenComponent => ({
+  id,
+  name: `Component ${id}`,
+  visible: true,
+  actions: [],
+  ...overrides,
+});
+
+describe("diff", () => {
+  describe("diffContent", () => {
+    it("should match object items by id and report modified ones as changed", () => {
+      const previous = [
+        { id: 1, text: "Learn about hlas", completed: false },
+        { id: 2, text: "Build a demo", completed: false },
+      ];
+      const current = [
+        { id: 1, text: "Learn about hlas", completed: true },
+        { id: 3, text: "Ship it", completed: false },
+      ];
+
+      expect(diffContent(previous, current)).toEqual({
+        added: [{ id: 3, text: "Ship it", completed: false }],
+        removed: [{ id: 2, text: "Build a demo", completed: false }],
+        changed: [{ previous: previous[0], current: current[0] }],
+      });
+    });
+
+    it("should match other items by value, one to one", () => {
+      expect(diffContent(["a", "b", "b"], ["b", "c", "a"])).toEqual({
+        added: ["c"],
+        removed: ["b"],
+        changed: [],
+      });
+    });
+  });
+
+  describe("diffScreens", () => {
+    it("should report added, removed and changed components", () => {
+      const previous = [
+        component("a"),
+        component("b"),
+        component("c", { content: ["x"] }),
+      ];
+      const current = [
+        component("a"),
+        component("c", { content: ["x", "y"], visible: false }),
+        component("d"),
+      ];
+
+      const diff = diffScreens(previous, current);
+
+      expect(diff.added).toEqual([current[2]]);
+      expect(diff.removed).toEqual([previous[1]]);
+      expect(diff.changed).toEqual([
+        {
+          id: "c",
+          component: current[1],
+          changedFields: ["visible", "content"],
+          contentDiff: { added: ["y"], removed: [], changed: [] },
+        },
+      ]);
+    });
+
+    it("should not compute a content diff for non-array contents", () => {
+      const diff = diffScreens(
+        [component("item", { content: "old" })],
+        [component("item", { content: "new" })],
+      );
+      expect(diff.changed[0].changedFields).toEqual(["content"]);
+      expect(diff.changed[0].contentDiff).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  deriveComponentId,
+  deriveStableIds,
+  findStableIdCollisions,
+  slugify,
+  StableIdNode,
+} from "../../src/core/ids";
+
+describe("ids", () => {
+  it("should slugify names", () => {
+    expect(slugify("Todo Item: Learn about hlas!")).toBe(
+      "todo-item-learn-about-hlas",
+    );
+    expect(slugify("Größe")).toBe("größe");
+    expect(slugify("???")).toBe("component");
+  });
+
+  it("should build path-based IDs", () => {
+    expect(deriveComponentId("Todo Item")).toBe("todo-item");
+    expect(deriveComponentId("Todo Item", "todo-list", 3)).toBe(
+      "todo-list/todo-item#3",
+    );
+  });
+
+  it("should number same-named siblings and anchor paths at explicit IDs", () => {
+    const nodes = new Map<string, StableIdNode>(
+      [
+        {
+          id: ":r1:",
+          name: "Todo List",
+          generatedId: true,
+          childIds: [":r2:", ":r3:", "special"],
+        },
+        {
+          id: ":r2:",
+          name: "Todo Item",
+          generatedId: true,
+          childIds: [":r4:"],
+        },
+        { id: ":r3:", name: "Todo Item", generatedId: true, childIds: [] },
+        { id: "special", name: "Todo Item", childIds: [":r5:"] },
+        { id: ":r4:", name: "Delete", generatedId: true, childIds: [] },
+        { id: ":r5:", name: "Delete", generatedId: true, childIds: [] },
+      ].map((node) => [node.id, node]),
+    );
+
+    expect(Object.fromEntries(deriveStableIds([":r1:"], nodes))).toEqual({
+      ":r1:": "todo-list",
+      ":r2:": "todo-list/todo-item",
+      ":r3:": "todo-list/todo-item#2",
+      special: "special",
+      ":r4:": "todo-list/todo-item/delete",
+      ":r5:": "special/delete",
+    });
+  });
+
+  it("should find components sharing a stable ID", () => {
+    const nodes = new Map<string, StableIdNode>(
+      [
+        { id: "todo-list", name: "Todos", childIds: [":r1:"] },
+        { id: ":r1:", name: "Todo Item", generatedId: true, childIds: [] },
+        {
+          id: ":r2:",
+          name: "Todo List",
+          generatedId: true,
+          childIds: [":r3:"],
+        },
+        { id: ":r3:", name: "Todo Item", generatedId: true, childIds: [] },
+        { id: "other", name: "Other", childIds: [] },
+      ].map((node) => [node.id, node]),
+    );
+
+    const collisions = findStableIdCollisions(
+      deriveStableIds(["todo-list", ":r2:", "other"], nodes),
+    );
+
+    expect(Object.fromEntries(collisions)).toEqual({
+      "todo-list": ["todo-list", ":r2:"],
+      "todo-list/todo-item": [":r1:", ":r3:"],
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import {
+  createPostMessageTransport,
+  createWebSocketTransport,
+  JsonRpcMessage,
+  McpBridge,
+  McpTransport,
+} from "../../src/core/mcp";
+import registry from "../../src/core/registry";
+
+jest.mock("driver.js", () => {
+  const mockDriverInstance = {
+    drive: jest.fn(),
+    highlight: jest.fn(),
+    destroy: jest.fn(),
+  };
+  return {
+    driver: jest.fn(() => mockDriverInstance),
+  };
+});
+
+class FakeTransport implements McpTransport {
+  sent: JsonRpcMessage[] = [];
+  handler?: (message: JsonRpcMessage) => void;
+  closed = false;
+
+  send(message: JsonRpcMessage) {
+    this.sent.push(message);
+  }
+
+  onMessage(handler: (message: JsonRpcMessage) => void) {
+    this.handler = handler;
+    return () => {
+      this.handler = undefined;
+    };
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+interface ResourceList {
+  resources: Array<{ uri: string }>;
+}
+
+interface ResourceContents {
+  contents: Array<{ mimeType: string; text: string }>;
+}
+
+interface ToolList {
+  tools: Array<{ name: string; inputSchema: Record<string, unknown> }>;
+}
+
+interface ToolResult {
+  isError: boolean;
+  content: Array<{ type: string; text: string }>;
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("mcp", () => {
+  let input: HTMLInputElement;
+  let transport: FakeTransport;
+  let bridge: McpBridge;
+  const request = (method: string, params?: Record<string, unknown>) =>
+    bridge.handleMessage({ jsonrpc: "2.0", id: 1, method, params });
+
+  beforeEach(() => {
+    input = document.createElement("input");
+    document.body.appendChild(input);
+    input.addEventListener("hlas:execute", (event) => {
+      const { params, respond } = (event as CustomEvent).detail;
+      input.value = params.value;
+      respond?.(`set to ${params.value}`);
+    });
+    registry.register("mcp-input", input, "Todo Input", [
+      {
+        id: "setValue",
+        name: "Set Value",
+        parameters: [{ name: "value", type: "string", required: true }],
+      },
+    ]);
+    transport = new FakeTransport();
+    bridge = new McpBridge(transport);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    bridge.stop();
+    registry.unregister("mcp-input");
+    input.remove();
+    jest.restoreAllMocks();
+  });
+
+  it("should answer initialize with the server capabilities", async () => {
+    const response = await request("initialize", {
+      protocolVersion: "2024-11-05",
+    });
+    expect(response).toMatchObject({
+      jsonrpc: "2.0",
+      id: 1,
+      result: {
+        protocolVersion: "2024-11-05",
+        capabilities: {
+          resources: { subscribe: true },
+          tools: { listChanged: true },
+        },
+        serverInfo: { name: "hlas" },
+      },
+    });
+  });
+
+  it("should publish the screen as a resource", async () => {
+    const list = await request("resources/list");
+    expect(
+      (list?.result as ResourceList).resources.map((resource) => resource.uri),
+    ).toEqual(["hlas://screen", "hlas://tree"]);
+
+    const read = await request("resources/read", { uri: "hlas://screen" });
+    const [content] = (read?.result as ResourceContents).contents;
+    expect(content.mimeType).toBe("application/json");
+    expect(JSON.parse(content.text)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: "mcp-input", name: "Todo Input" }),
+      ]),
+    );
+
+    const missing = await request("resources/read", { uri: "hlas://nope" });
+    expect(missing?.error?.code).toBe(-32002);
+  });
+
+  it("should list built-in and component tools", async () => {
+    const response = await request("tools/list");
+    const { tools } = response?.result as ToolList;
+    expect(tools.map((tool) => tool.name)).toEqual(
+      expect.arrayContaining([
+        "hlas_focus",
+        "hlas_highlight",
+        "mcp-input__setValue",
+      ]),
+    );
+    expect(
+      tools.find((tool) => tool.name === "mcp-input__setValue")?.inputSchema,
+    ).toMatchObject({
+      type: "object",
+      required: ["value"],
+    });
+  });
+
+  it("should call component and built-in tools", async () => {
+    const execute = await request("tools/call", {
+      name: "mcp-input__setValue",
+      arguments: { value: "Buy milk" },
+    });
+    expect(execute?.result).toMatchObject({ isError: false });
+    expect(
+      JSON.parse((execute?.result as ToolResult).content[0].text),
+    ).toMatchObject({
+      status: "success",
+      result: "set to Buy milk",
+    });
+    expect(input.value).toBe("Buy milk");
+
+    const focus = await request("tools/call", {
+      name: "hlas_focus",
+      arguments: { componentId: "mcp-input" },
+    });
+    expect(focus?.result).toMatchObject({ isError: false });
+    expect(document.activeElement).toBe(input);
+
+    const missing = await request("tools/call", {
+      name: "hlas_focus",
+      arguments: { componentId: "missing" },
+    });
+    expect(missing?.result).toMatchObject({ isError: true });
+
+    const unknown = await request("tools/call", {
+      name: "nope__nope",
+      arguments: {},
+    });
+    expect(
+      JSON.parse((unknown?.result as ToolResult).content[0].text).status,
+    ).toBe("not_found");
+  });
+
+  it("should serve a session's tools only", async () => {
+    bridge = new McpBridge(transport, {
+      session: registry.createSession({ scopes: ["read"] }),
+    });
+
+    const response = await request("tools/list");
+    const { tools } = response?.result as ToolList;
+    expect(tools.map((tool) => tool.name)).not.toContain("mcp-input__setValue");
+
+    const call = await request("tools/call", {
+      name: "mcp-input__setValue",
+      arguments: { value: "x" },
+    });
+    expect(call?.result).toMatchObject({ isError: true });
+    expect(input.value).toBe("");
+  });
+
+  it("should report unknown methods and ignore notifications", async () => {
+    expect((await request("sampling/createMessage"))?.error?.code).toBe(-32601);
+    expect(
+      await bridge.handleMessage({
+        jsonrpc: "2.0",
+        method: "notifications/initialized",
+      }),
+    ).toBeUndefined();
+  });
+
+  it("should answer requests from the transport and send coalesced notifications", async () => {
+    bridge.start();
+    transport.handler?.({ jsonrpc: "2.0", id: 7, method: "ping" });
+    transport.handler?.({
+      jsonrpc: "2.0",
+      id: 8,
+      method: "resources/subscribe",
+      params: { uri: "hlas://screen" },
+    });
+    await tick();
+    expect(transport.sent).toEqual([
+      { jsonrpc: "2.0", id: 7, result: {} },
+      { jsonrpc: "2.0", id: 8, result: {} },
+    ]);
+
+    transport.sent = [];
+    const button = document.createElement("button");
+    registry.register("mcp-a", button, "A", []);
+    registry.register("mcp-b", button, "B", []);
+    registry.unregister("mcp-a");
+    registry.unregister("mcp-b");
+    await tick();
+
+    expect(transport.sent).toEqual([
+      { jsonrpc: "2.0", method: "notifications/tools/list_changed" },
+      {
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: "hlas://screen" },
+      },
+    ]);
+  });
+
+  it("should stop forwarding changes when stopped", async () => {
+    bridge.start();
+    bridge.stop();
+    registry.register("mcp-a", document.createElement("div"), "A", []);
+    registry.unregister("mcp-a");
+    await tick();
+
+    expect(transport.sent).toEqual([]);
+    expect(transport.handler).toBeUndefined();
+    expect(transport.closed).toBe(true);
+  });
+
+  describe("transports", () => {
+    it("should exchange messages with a window from the allowed origin", () => {
+      const postMessage = jest
+        .spyOn(window, "postMessage")
+        .mockImplementation(() => {});
+      const received: JsonRpcMessage[] = [];
+      const transport = createPostMessageTransport({
+        target: window,
+        targetOrigin: "https://agent.example",
+        allowedOrigin: "https://agent.example",
+      });
+      const removeHandler = transport.onMessage((message) =>
+        received.push(message),
+      );
+
+      const ping = { jsonrpc: "2.0", id: 1, method: "ping" };
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: ping,
+          origin: "https://agent.example",
+          source: window,
+        }),
+      );
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: ping,
+          origin: "https://evil.example",
+          source: window,
+        }),
+      );
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: "hello",
+          origin: "https://agent.example",
+          source: window,
+        }),
+      );
+      transport.send({ jsonrpc: "2.0", id: 1, result: {} });
+      removeHandler();
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: ping,
+          origin: "https://agent.example",
+          source: window,
+        }),
+      );
+
+      expect(received).toEqual([ping]);
+      expect(postMessage).toHaveBeenCalledWith(
+        { jsonrpc: "2.0", id: 1, result: {} },
+        "https://agent.example",
+      );
+    });
+
+    it("should only accept messages from the target window and the page's origin by default", () => {
+      const postMessage = jest
+        .spyOn(window, "postMessage")
+        .mockImplementation(() => {});
+      const received: JsonRpcMessage[] = [];
+      const transport = createPostMessageTransport({ target: window });
+      const removeHandler = transport.onMessage((message) =>
+        received.push(message),
+      );
+      const frame = document.createElement("iframe");
+      document.body.appendChild(frame);
+
+      const call = {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "mcp-input__setValue", arguments: { value: "x" } },
+      };
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: call,
+          origin: "https://evil.example",
+          source: window,
+        }),
+      );
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: call,
+          origin: window.location.origin,
+          source: frame.contentWindow,
+        }),
+      );
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: call,
+          origin: window.location.origin,
+          source: window,
+        }),
+      );
+      transport.send({ jsonrpc: "2.0", id: 1, result: {} });
+      removeHandler();
+      frame.remove();
+
+      expect(received).toEqual([call]);
+      expect(postMessage).toHaveBeenCalledWith(
+        { jsonrpc: "2.0", id: 1, result: {} },
+        window.location.origin,
+      );
+    });
+
+    it("should queue WebSocket messages until the connection opens", () => {
+      const socket = Object.assign(new EventTarget(), {
+        readyState: 0,
+        send: jest.fn(),
+        close: jest.fn(),
+      });
+      const received: JsonRpcMessage[] = [];
+      const transport = createWebSocketTransport(
+        socket as unknown as WebSocket,
+      );
+      transport.onMessage((message) => received.push(message));
+
+      transport.send({
+        jsonrpc: "2.0",
+        method: "notifications/tools/list_changed",
+      });
+      expect(socket.send).not.toHaveBeenCalled();
+
+      socket.readyState = WebSocket.OPEN;
+      socket.dispatchEvent(new Event("open"));
+      expect(socket.send).toHaveBeenCalledWith(
+        '{"jsonrpc":"2.0","method":"notifications/tools/list_changed"}',
+      );
+
+      socket.dispatchEvent(
+        new MessageEvent("message", {
+          data: '{"jsonrpc":"2.0","id":2,"method":"ping"}',
+        }),
+      );
+      socket.dispatchEvent(new MessageEvent("message", { data: "{oops" }));
+      expect(received).toEqual([{ jsonrpc: "2.0", id: 2, method: "ping" }]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { renderOutline, summarizeContent } from "../../src/core/outline";
+
+describe("outline", () => {
+  describe("summarizeContent", () => {
+    it("should count array items and quote the first ones", () => {
+      expect(summarizeContent([])).toBe("0 items");
+      expect(summarizeContent(["a"])).toBe('1 item: "a"');
+      expect(summarizeContent([1, 2, 3, 4])).toBe("4 items: 1, 2, 3, …");
+    });
+
+    it("should cut long summaries", () => {
+      const summary = summarizeContent("x".repeat(200));
+      expect(summary).toHaveLength(80);
+      expect(summary.endsWith("…")).toBe(true);
+    });
+  });
+
+  describe("renderOutline", () => {
+    it("should indent nested components and fall back to the generic role", () => {
+      const outline = renderOutline(
+        [
+          {
+            id: "form",
+            name: "Form",
+            actions: [],
+            children: [
+              {
+                id: "save",
+                name: 'Save "draft"',
+                type: "Button",
+                actions: [],
+                children: [],
+              },
+            ],
+          },
+        ],
+        (id) => `ref-${id}`,
+      );
+
+      expect(outline).toBe(
+        [
+          '- generic "Form" [ref=ref-form]',
+          '  - button "Save \\"draft\\"" [ref=ref-save]',
+        ].join("\n"),
+      );
+    });
+  });
+});
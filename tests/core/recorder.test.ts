@@ -0,0 +1,225 @@
+import {
+  InteractionScript,
+  Recorder,
+  replayScript,
+} from "../../src/core/recorder";
+import registry from "../../src/core/registry";
+
+jest.mock("driver.js", () => {
+  const mockDriverInstance = {
+    drive: jest.fn(),
+    highlight: jest.fn(),
+    destroy: jest.fn(),
+  };
+  return {
+    driver: jest.fn(() => mockDriverInstance),
+  };
+});
+
+describe("recorder", () => {
+  let list: HTMLElement;
+  let toggled: string[];
+
+  // Renders the todo list again under new generated IDs, as after a reload
+  const renderList = (generation: number) => {
+    list = document.createElement("ul");
+    document.body.appendChild(list);
+    registry.register("todos", list, "Todo List");
+    ["Milk", "Bread"].forEach((text, index) => {
+      const item = document.createElement("li");
+      item.setAttribute(
+        "data-hlas-content",
+        JSON.stringify({ text, completed: false }),
+      );
+      item.addEventListener("hlas:execute", (event) => {
+        const { actionId, respond, registerUndo } = (event as CustomEvent)
+          .detail;
+        toggled.push(`${actionId} ${text}`);
+        item.setAttribute(
+          "data-hlas-content",
+          JSON.stringify({ text, completed: true }),
+        );
+        registerUndo?.(() => {
+          toggled.push(`undo ${text}`);
+          item.setAttribute(
+            "data-hlas-content",
+            JSON.stringify({ text, completed: false }),
+          );
+        });
+        respond?.(true);
+      });
+      list.appendChild(item);
+      registry.register(
+        `:r${generation}-${index}:`,
+        item,
+        "Todo Item",
+        [{ id: "toggle", name: "Toggle" }],
+        undefined,
+        {
+          generatedId: true,
+        },
+      );
+    });
+  };
+
+  const clear = () => {
+    registry
+      .readScreen()
+      .forEach((component) => registry.unregister(component.id));
+    document.body.innerHTML = "";
+  };
+
+  beforeEach(() => {
+    toggled = [];
+    renderList(1);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    clear();
+    jest.restoreAllMocks();
+  });
+
+  it("should record actions by stable ID with the screen around them", async () => {
+    const recorder = new Recorder();
+    recorder.start();
+    expect(recorder.isRecording()).toBe(true);
+
+    await registry.executeAsync(":r1-1:", "toggle", { via: "test" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const script = recorder.stop();
+
+    expect(script.version).toBe(1);
+    expect(script.steps).toEqual([
+      expect.objectContaining({
+        target: "todos/todo-item#2",
+        name: "Todo Item",
+        actionId: "toggle",
+        params: { via: "test" },
+      }),
+    ]);
+    const [step] = script.steps;
+    expect(step.before!.map((component) => component.target)).toEqual([
+      "todos",
+      "todos/todo-item",
+      "todos/todo-item#2",
+    ]);
+    expect(step.before![2].content).toEqual({
+      text: "Bread",
+      completed: false,
+    });
+    expect(step.after![2].content).toEqual({ text: "Bread", completed: true });
+
+    registry.execute(":r1-0:", "toggle");
+    expect(recorder.stop().steps).toHaveLength(1);
+  });
+
+  it("should replay a script against components registered under new IDs", async () => {
+    const recorder = new Recorder({ captureScreens: false });
+    recorder.start();
+    registry.execute(":r1-1:", "toggle");
+    const script: InteractionScript = JSON.parse(
+      JSON.stringify(recorder.stop()),
+    );
+    expect(script.steps[0].before).toBeUndefined();
+
+    clear();
+    toggled = [];
+    setTimeout(() => renderList(2), 20);
+
+    const onStep = jest.fn();
+    const result = await replayScript(script, { timeoutMs: 1000, onStep });
+
+    expect(result.status).toBe("completed");
+    expect(result.steps[0]).toEqual(
+      expect.objectContaining({ index: 0, status: "success", result: true }),
+    );
+    expect(onStep).toHaveBeenCalledTimes(1);
+    expect(toggled).toEqual(["toggle Bread"]);
+  });
+
+  it("should record and replay undone actions", async () => {
+    const recorder = new Recorder();
+    recorder.start();
+    await registry.executeAsync(":r1-1:", "toggle");
+    await registry.undo();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const script: InteractionScript = JSON.parse(
+      JSON.stringify(recorder.stop()),
+    );
+
+    expect(
+      script.steps.map(({ target, actionId, undo }) => ({
+        target,
+        actionId,
+        undo,
+      })),
+    ).toEqual([
+      { target: "todos/todo-item#2", actionId: "toggle", undo: undefined },
+      { target: "todos/todo-item#2", actionId: "toggle", undo: true },
+    ]);
+    expect(script.steps[1].before![2].content).toEqual({
+      text: "Bread",
+      completed: true,
+    });
+    expect(script.steps[1].after![2].content).toEqual({
+      text: "Bread",
+      completed: false,
+    });
+
+    clear();
+    toggled = [];
+    renderList(2);
+
+    const result = await replayScript(script, { timeoutMs: 1000 });
+
+    expect(result.status).toBe("completed");
+    expect(toggled).toEqual(["toggle Bread", "undo Bread"]);
+  });
+
+  it("should fail steps whose target does not appear in time", async () => {
+    const script: InteractionScript = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      steps: [
+        {
+          target: "todos/todo-item#3",
+          name: "Todo Item",
+          actionId: "toggle",
+          params: {},
+          atMs: 0,
+        },
+        {
+          target: "todos/todo-item",
+          name: "Todo Item",
+          actionId: "toggle",
+          params: {},
+          atMs: 10,
+        },
+      ],
+    };
+
+    const result = await replayScript(script, { timeoutMs: 60 });
+    expect(result.status).toBe("failed");
+    expect(result.steps).toEqual([
+      expect.objectContaining({
+        status: "not_found",
+        error: "Timed out after 60ms waiting for component todos/todo-item#3",
+      }),
+    ]);
+
+    const continued = await replayScript(script, {
+      timeoutMs: 60,
+      stopOnError: false,
+    });
+    expect(continued.steps.map((step) => step.status)).toEqual([
+      "not_found",
+      "success",
+    ]);
+    expect(await replayScript({ ...script, version: 2 })).toEqual({
+      status: "failed",
+      steps: [],
+      error: "Unsupported script version 2",
+    });
+  });
+});
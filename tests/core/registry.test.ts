@@ -1,4 +1,9 @@
-import { ActionSchema, ComponentEntry, ScreenComponent } from "../../src/core/types";
+import {
+  ActionSchema,
+  ComponentEntry,
+  RegistryEvent,
+  ScreenComponent,
+} from "../../src/core/types";
 // Import the Registry class directly, not the global instance
 // This allows us to create fresh instances for tests.
 // We need to use a relative path to access the actual class definition.
@@ -8,7 +13,7 @@ import { ActionSchema, ComponentEntry, ScreenComponent } from "../../src/core/ty
 
 // Assuming Registry class is not directly exported, we test the singleton.
 // If it were: import Registry from '../../src/core/RegistryClass'; (hypothetical)
-import registryInstance from "../../src/core/registry"; // This is the global singleton
+import registryInstance, { TourStep } from "../../src/core/registry"; // This is the global singleton
 import { driver } from "driver.js";
 
 // Mock driver.js
@@ -25,7 +30,30 @@ jest.mock("driver.js", () => {
 
 // Helper to get the mock driver instance used by the registry
 // (since the registry initializes its own driver instances)
-const getMockDriverInstance = () => driver({} as any); // Type assertion for mock
+const getMockDriverInstance = () => driver();
+
+type Driver = ReturnType<typeof driver>;
+
+// The private state of the registry, which the tests reset and inspect
+interface RegistryInternals {
+  components: Map<string, ComponentEntry>;
+  replacedEntries: Map<string, ComponentEntry[]>;
+  auditLog: { clear(): void };
+  undoStack: unknown[];
+  redoStack: unknown[];
+  tourDriverInstance: Driver | undefined;
+  highlightDriverInstance: Driver | undefined;
+  activeTour: boolean;
+  listeners: Set<unknown>;
+  refs: Map<string, string>;
+  refTargets: Map<string, string>;
+  refCount: number;
+}
+
+const internals = (target: typeof registryInstance) =>
+  target as unknown as RegistryInternals;
+const createRegistry = () =>
+  new (registryInstance.constructor as new () => typeof registryInstance)();
 
 describe("Registry", () => {
   let registry: typeof registryInstance;
@@ -37,11 +65,14 @@ describe("Registry", () => {
     // Accessing private members for testing is generally discouraged,
     // but for a singleton, it can be a pragmatic approach if no reset method is provided.
     // A better way would be if the Registry class itself was exported and we could make new instances.
-    (registryInstance as any).components.clear();
-    (registryInstance as any).tourDriverInstance = undefined;
-    (registryInstance as any).highlightDriverInstance = undefined; // Reset this as it's initialized in constructor
-    (registryInstance as any).activeTour = false;
-
+    internals(registryInstance).components.clear();
+    internals(registryInstance).replacedEntries.clear();
+    internals(registryInstance).auditLog.clear();
+    internals(registryInstance).undoStack = [];
+    internals(registryInstance).redoStack = [];
+    internals(registryInstance).tourDriverInstance = undefined;
+    internals(registryInstance).highlightDriverInstance = undefined; // Reset this as it's initialized in constructor
+    internals(registryInstance).activeTour = false;
 
     // Re-initialize the highlightDriverInstance by calling constructor logic again (or parts of it)
     // This is tricky because the constructor has a setTimeout.
@@ -70,7 +101,7 @@ describe("Registry", () => {
       // for `highlightDriverInstance` is what we're interested in.
 
       // Manually clear the instance to simulate it not being set yet by constructor's setTimeout
-      (registry as any).highlightDriverInstance = undefined;
+      internals(registry).highlightDriverInstance = undefined;
 
       // Re-trigger the part of the constructor logic that sets up highlightDriverInstance
       // This is a bit of a workaround because we can't easily re-run the singleton's constructor.
@@ -78,11 +109,11 @@ describe("Registry", () => {
       // Test that a new instance's constructor logic for highlightDriverInstance works.
       // The global registryInstance's constructor has already run.
       (driver as jest.Mock).mockClear(); // Clear previous calls to driver from global instance
-      const newRegistry = new (registryInstance as any).constructor();
+      const newRegistry = createRegistry();
       expect(driver).not.toHaveBeenCalled(); // Not called immediately
       jest.advanceTimersByTime(0); // Execute the setTimeout
       expect(driver).toHaveBeenCalledTimes(1); // Called for the new instance's highlightDriver
-      expect((newRegistry as any).highlightDriverInstance).toBeDefined();
+      expect(internals(newRegistry).highlightDriverInstance).toBeDefined();
       jest.useRealTimers(); // restore real timers
     });
   });
@@ -91,9 +122,15 @@ describe("Registry", () => {
     it("should register a component and set data attributes", () => {
       const componentId = "test-comp-1";
       const actions: ActionSchema[] = [{ id: "act1", name: "Action 1" }];
-      registry.register(componentId, mockElement, "Test Component", actions, "A test description");
+      registry.register(
+        componentId,
+        mockElement,
+        "Test Component",
+        actions,
+        "A test description",
+      );
 
-      const component = (registry as any).components.get(componentId);
+      const component = internals(registry).components.get(componentId)!;
       expect(component).toBeDefined();
       expect(component.element).toBe(mockElement);
       expect(component.name).toBe("Test Component");
@@ -102,7 +139,9 @@ describe("Registry", () => {
 
       expect(mockElement.getAttribute("data-hlas-id")).toBe(componentId);
       expect(mockElement.getAttribute("data-hlas-name")).toBe("Test Component");
-      expect(mockElement.getAttribute("data-hlas-description")).toBe("A test description");
+      expect(mockElement.getAttribute("data-hlas-description")).toBe(
+        "A test description",
+      );
       expect(mockElement.getAttribute("data-hlas-actions")).toBe("act1");
     });
 
@@ -112,17 +151,17 @@ describe("Registry", () => {
       const newElement = document.createElement("button");
       registry.register(componentId, newElement, "Second Component");
 
-      const component = (registry as any).components.get(componentId);
+      const component = internals(registry).components.get(componentId)!;
       expect(component.element).toBe(newElement);
       expect(component.name).toBe("Second Component");
-      expect((registry as any).components.size).toBe(1);
+      expect(internals(registry).components.size).toBe(1);
     });
 
-     it("should register a component without optional actions and description", () => {
+    it("should register a component without optional actions and description", () => {
       const componentId = "test-comp-simple";
       registry.register(componentId, mockElement, "Simple Component");
 
-      const component = (registry as any).components.get(componentId);
+      const component = internals(registry).components.get(componentId)!;
       expect(component).toBeDefined();
       expect(component.actions).toEqual([]);
       expect(component.description).toBeUndefined();
@@ -131,12 +170,75 @@ describe("Registry", () => {
     });
   });
 
+  describe("fallback registrations", () => {
+    const clickAction: ActionSchema = { id: "click", name: "Click" };
+    const saveAction: ActionSchema = { id: "save", name: "Save" };
+
+    it("should describe the element while no other entry is registered for it", () => {
+      registry.register("hoc", mockElement, "Click", [clickAction], undefined, {
+        fallback: true,
+      });
+
+      expect(registry.readScreen().map((c) => c.id)).toEqual(["hoc"]);
+      expect(mockElement.getAttribute("data-hlas-id")).toBe("hoc");
+    });
+
+    it("should be merged into another entry for the same element", () => {
+      registry.register("hoc", mockElement, "Click", [clickAction], undefined, {
+        fallback: true,
+      });
+      registry.register("hook", mockElement, "Save Button", [saveAction]);
+
+      const screenData = registry.readScreen();
+      expect(screenData).toHaveLength(1);
+      expect(screenData[0]).toEqual(
+        expect.objectContaining({
+          id: "hook",
+          name: "Save Button",
+          actions: [saveAction, clickAction],
+        }),
+      );
+      expect(registry.find("Click")).toEqual([]);
+      expect(mockElement.getAttribute("data-hlas-id")).toBe("hook");
+      expect(mockElement.getAttribute("data-hlas-actions")).toBe("save,click");
+    });
+
+    it("should dispatch merged actions to the entry that declares them", () => {
+      const dispatchSpy = jest.spyOn(mockElement, "dispatchEvent");
+      registry.register("hoc", mockElement, "Click", [clickAction], undefined, {
+        fallback: true,
+      });
+      registry.register("hook", mockElement, "Save Button", [saveAction]);
+
+      registry.execute("hook", "click");
+      registry.execute("hook", "save");
+      expect((dispatchSpy.mock.calls[0][0] as CustomEvent).detail.id).toBe(
+        "hoc",
+      );
+      expect((dispatchSpy.mock.calls[1][0] as CustomEvent).detail.id).toBe(
+        "hook",
+      );
+    });
+
+    it("should describe the element again once the other entry is unregistered", () => {
+      registry.register("hoc", mockElement, "Click", [clickAction], undefined, {
+        fallback: true,
+      });
+      registry.register("hook", mockElement, "Save Button", [saveAction]);
+      registry.unregister("hook");
+
+      expect(registry.readScreen().map((c) => c.id)).toEqual(["hoc"]);
+      expect(mockElement.getAttribute("data-hlas-id")).toBe("hoc");
+      expect(mockElement.getAttribute("data-hlas-name")).toBe("Click");
+    });
+  });
+
   describe("unregister", () => {
     it("should unregister a component", () => {
       const componentId = "test-comp-unreg";
       registry.register(componentId, mockElement, "To Unregister");
       expect(registry.unregister(componentId)).toBe(true);
-      expect((registry as any).components.has(componentId)).toBe(false);
+      expect(internals(registry).components.has(componentId)).toBe(false);
     });
 
     it("should return false when unregistering a non-existent component", () => {
@@ -146,16 +248,34 @@ describe("Registry", () => {
 
   describe("find", () => {
     beforeEach(() => {
-      registry.register("comp1", document.createElement("div"), "Button Alpha", [], "First component");
-      registry.register("comp2", document.createElement("div"), "Input Alpha", [], "Second one");
-      registry.register("comp3", document.createElement("div"), "Button Beta", [], "Third component");
+      registry.register(
+        "comp1",
+        document.createElement("div"),
+        "Button Alpha",
+        [],
+        "First component",
+      );
+      registry.register(
+        "comp2",
+        document.createElement("div"),
+        "Input Alpha",
+        [],
+        "Second one",
+      );
+      registry.register(
+        "comp3",
+        document.createElement("div"),
+        "Button Beta",
+        [],
+        "Third component",
+      );
     });
 
     it("should find components by name (case-insensitive)", () => {
       const results = registry.find("button");
       expect(results.length).toBe(2);
-      expect(results.find(c => c.id === "comp1")).toBeDefined();
-      expect(results.find(c => c.id === "comp3")).toBeDefined();
+      expect(results.find((c) => c.id === "comp1")).toBeDefined();
+      expect(results.find((c) => c.id === "comp3")).toBeDefined();
     });
 
     it("should find components by description (case-insensitive)", () => {
@@ -170,6 +290,188 @@ describe("Registry", () => {
     });
   });
 
+  describe("find with structured queries", () => {
+    let list: HTMLElement;
+    let firstItem: HTMLElement;
+    let secondItem: HTMLElement;
+    let toggleButton: HTMLElement;
+    let addButton: HTMLElement;
+
+    beforeEach(() => {
+      list = document.createElement("ul");
+      list.setAttribute("data-hlas-component", "List");
+      firstItem = document.createElement("li");
+      firstItem.setAttribute("data-hlas-component", "ListItem");
+      firstItem.setAttribute(
+        "data-hlas-content",
+        JSON.stringify({ text: "Buy milk", completed: false }),
+      );
+      secondItem = document.createElement("li");
+      secondItem.setAttribute("data-hlas-component", "ListItem");
+      secondItem.setAttribute(
+        "data-hlas-content",
+        JSON.stringify({ text: "Add tests", completed: true }),
+      );
+      toggleButton = document.createElement("button");
+      firstItem.appendChild(toggleButton);
+      list.append(firstItem, secondItem);
+      addButton = document.createElement("button");
+      document.body.append(list, addButton);
+
+      registry.register("list", list, "Todo List", [], "A list of todo items");
+      registry.register("item-1", firstItem, "Todo: Buy milk");
+      registry.register("item-2", secondItem, "Todo: Add tests");
+      registry.register("toggle-1", toggleButton, "Toggle Buy milk", [
+        { id: "toggle", name: "Toggle" },
+      ]);
+      registry.register(
+        "input",
+        document.createElement("input"),
+        "Todo Input Field",
+        [{ id: "setValue", name: "Set Value" }],
+        "Input field for adding new todos",
+      );
+      registry.register(
+        "add",
+        addButton,
+        "Add Todo Button",
+        [{ id: "addTodo", name: "Add Todo" }],
+        "Adds a new todo item to the list",
+      );
+    });
+
+    afterEach(() => {
+      list.remove();
+      addButton.remove();
+    });
+
+    it("should match names exactly, ignoring case", () => {
+      expect(registry.find({ name: "todo list" }).map((c) => c.id)).toEqual([
+        "list",
+      ]);
+      expect(registry.find({ name: "Todo" })).toEqual([]);
+      expect(registry.find({ name: /^Todo:/ }).map((c) => c.id)).toEqual([
+        "item-1",
+        "item-2",
+      ]);
+    });
+
+    it("should filter by type, action and content", () => {
+      expect(registry.find({ type: "ListItem" }).map((c) => c.id)).toEqual([
+        "item-1",
+        "item-2",
+      ]);
+      expect(registry.find({ type: ["List", "ListItem"] })).toHaveLength(3);
+      expect(registry.find({ hasAction: "setValue" }).map((c) => c.id)).toEqual(
+        ["input"],
+      );
+      expect(registry.find({ hasAction: ["setValue", "addTodo"] })).toEqual([]);
+      expect(registry.find({ content: "buy milk" }).map((c) => c.id)).toEqual([
+        "item-1",
+      ]);
+      expect(
+        registry
+          .find({
+            content: (content) =>
+              (content as { completed?: boolean })?.completed === true,
+          })
+          .map((c) => c.id),
+      ).toEqual(["item-2"]);
+    });
+
+    it("should filter by enclosing component", () => {
+      expect(
+        registry.find({ within: "list", hasAction: "toggle" }).map((c) => c.id),
+      ).toEqual(["toggle-1"]);
+      expect(registry.find({ within: { name: "Todo: Add tests" } })).toEqual(
+        [],
+      );
+      expect(
+        registry.find({ type: "ListItem", within: { type: "List" } }),
+      ).toHaveLength(2);
+    });
+
+    it("should filter by visibility", () => {
+      jest.spyOn(addButton, "getBoundingClientRect").mockReturnValue({
+        top: 0,
+        left: 0,
+        bottom: 20,
+        right: 100,
+        width: 100,
+        height: 20,
+      } as DOMRect);
+      expect(registry.find({ visible: true }).map((c) => c.id)).toEqual([
+        "add",
+      ]);
+      expect(registry.find({ visible: false })).toHaveLength(5);
+    });
+
+    it("should rank exact and name matches ahead of description matches", () => {
+      // "add" starts the button's name, appears in an item's name and in the input field's description
+      expect(registry.find("add").map((c) => c.id)).toEqual([
+        "add",
+        "item-2",
+        "input",
+      ]);
+      expect(registry.find("add todo button").map((c) => c.id)).toEqual([
+        "add",
+      ]);
+    });
+  });
+
+  describe("findBest", () => {
+    beforeEach(() => {
+      const list = document.createElement("ul");
+      list.setAttribute(
+        "data-hlas-content",
+        JSON.stringify([{ id: 1, text: "Buy groceries", completed: false }]),
+      );
+      registry.register(
+        "todo-list",
+        list,
+        "Todo List",
+        [],
+        "A list of todo items",
+      );
+      registry.register(
+        "learn",
+        document.createElement("button"),
+        "Todo Item: Learn about hlas",
+        [{ id: "toggle", name: "Toggle" }],
+      );
+      registry.register(
+        "demo",
+        document.createElement("button"),
+        "Todo Item: Build a demo",
+        [{ id: "toggle", name: "Toggle" }],
+      );
+      registry.register(
+        "add",
+        document.createElement("button"),
+        "Add Todo Button",
+        [],
+        "Adds a new todo item to the list",
+      );
+    });
+
+    it("should return the closest components with their scores", () => {
+      const matches = registry.findBest("mark learn hlas done");
+      expect(matches[0].component.id).toBe("learn");
+      expect(matches[0].score).toBeGreaterThan(0);
+      expect(matches[0].score).toBeLessThanOrEqual(1);
+    });
+
+    it("should match content", () => {
+      expect(registry.findBest("groceries")[0].component.id).toBe("todo-list");
+    });
+
+    it("should honour limit and minScore", () => {
+      expect(registry.findBest("todo", { limit: 2 })).toHaveLength(2);
+      expect(registry.findBest("todo", { minScore: 1 })).toEqual([]);
+      expect(registry.findBest("spaceship")).toEqual([]);
+    });
+  });
+
   describe("execute", () => {
     const componentId = "exec-comp";
     let targetElement: HTMLElement;
@@ -189,7 +491,12 @@ describe("Registry", () => {
       expect(dispatchEventSpy).toHaveBeenCalledTimes(1);
       const event = dispatchEventSpy.mock.calls[0][0] as CustomEvent;
       expect(event.type).toBe("hlas:execute");
-      expect(event.detail).toEqual({ id: componentId, actionId, params });
+      expect(event.detail).toEqual({
+        id: componentId,
+        actionId,
+        params,
+        registerUndo: expect.any(Function),
+      });
     });
 
     it("should dispatch event with empty params if none provided", () => {
@@ -200,13 +507,1254 @@ describe("Registry", () => {
 
     it("should return false and log error if component not found", () => {
       expect(registry.execute("non-id", "action")).toBe(false);
-      expect(console.error).toHaveBeenCalledWith("Component with ID non-id not found");
+      expect(console.error).toHaveBeenCalledWith(
+        "Component with ID non-id not found",
+      );
+    });
+
+    describe("with declared parameters", () => {
+      const validatedId = "validated-comp";
+      let validatedElement: HTMLElement;
+      let validatedSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        validatedElement = document.createElement("input");
+        validatedSpy = jest.spyOn(validatedElement, "dispatchEvent");
+        registry.register(validatedId, validatedElement, "Quantity Input", [
+          {
+            id: "setQuantity",
+            name: "Set quantity",
+            parameters: [
+              { name: "quantity", type: "number", required: true },
+              { name: "unit", defaultValue: "pcs" },
+            ],
+          },
+        ]);
+      });
+
+      it("should dispatch coerced parameters with defaults filled in", () => {
+        expect(
+          registry.execute(validatedId, "setQuantity", { quantity: "5" }),
+        ).toBe(true);
+        const event = validatedSpy.mock.calls[0][0] as CustomEvent;
+        expect(event.detail.params).toEqual({ quantity: 5, unit: "pcs" });
+      });
+
+      it("should reject invalid parameters without dispatching", () => {
+        expect(registry.execute(validatedId, "setQuantity", { qty: 5 })).toBe(
+          false,
+        );
+        expect(validatedSpy).not.toHaveBeenCalled();
+        expect(console.error).toHaveBeenCalledWith(
+          'Invalid parameters for action setQuantity on component validated-comp: unknown parameter "qty" (expected one of: quantity, unit); missing required parameter "quantity"',
+        );
+      });
+
+      it("should resolve executeAsync with invalid_params", async () => {
+        const result = await registry.executeAsync(
+          validatedId,
+          "setQuantity",
+          {},
+        );
+        expect(result.status).toBe("invalid_params");
+        expect(result.error).toContain('missing required parameter "quantity"');
+        expect(validatedSpy).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("executeAsync", () => {
+    const componentId = "async-comp";
+    let targetElement: HTMLElement;
+
+    beforeEach(() => {
+      targetElement = document.createElement("div");
+      registry.register(componentId, targetElement, "Async Component");
+    });
+
+    it("should resolve with the value passed to respond", async () => {
+      targetElement.addEventListener("hlas:execute", (event) => {
+        const { params, respond } = (event as CustomEvent).detail;
+        respond(Promise.resolve({ added: params.text }));
+      });
+
+      const result = await registry.executeAsync(componentId, "addTodo", {
+        text: "Milk",
+      });
+      expect(result).toEqual({
+        status: "success",
+        result: { added: "Milk" },
+        durationMs: expect.any(Number),
+      });
+    });
+
+    it("should report a rejected response as an error", async () => {
+      targetElement.addEventListener("hlas:execute", (event) => {
+        (event as CustomEvent).detail.respond(
+          Promise.reject(new Error("Input is empty")),
+        );
+      });
+
+      const result = await registry.executeAsync(componentId, "addTodo");
+      expect(result.status).toBe("error");
+      expect(result.error).toBe("Input is empty");
+    });
+
+    it("should report an error if no handler responds", async () => {
+      const result = await registry.executeAsync(componentId, "addTodo");
+      expect(result.status).toBe("error");
+      expect(result.error).toBe(
+        "No handler responded to action addTodo on component async-comp",
+      );
+    });
+
+    it("should resolve with not_found if the component is not registered", async () => {
+      const result = await registry.executeAsync("non-id", "action");
+      expect(result.status).toBe("not_found");
+      expect(console.error).toHaveBeenCalledWith(
+        "Component with ID non-id not found",
+      );
+    });
+  });
+
+  describe("confirmation", () => {
+    const deleteAction = {
+      id: "delete",
+      name: "Delete",
+      risk: "destructive" as const,
+    };
+    let listener: jest.Mock;
+
+    beforeEach(() => {
+      listener = jest.fn((event: Event) =>
+        (event as CustomEvent).detail.respond?.("deleted"),
+      );
+      mockElement.addEventListener("hlas:execute", listener);
+      registry.register("item", mockElement, "Todo Item", [
+        deleteAction,
+        { id: "toggle", name: "Toggle" },
+      ]);
+    });
+
+    afterEach(() => {
+      registry.setConfirmationHandler();
+    });
+
+    it("should only ask for destructive actions and pass the request to the handler", async () => {
+      const handler = jest.fn(() => true);
+      registry.setConfirmationHandler(handler);
+
+      expect(registry.execute("item", "toggle")).toBe(true);
+      expect(handler).not.toHaveBeenCalled();
+
+      const result = await registry.executeAsync("item", "delete", {
+        soft: true,
+      });
+      expect(result.status).toBe("success");
+      expect(handler).toHaveBeenCalledWith({
+        component: expect.objectContaining({ id: "item" }),
+        action: deleteAction,
+        params: { soft: true },
+      });
+    });
+
+    it("should not dispatch declined actions", async () => {
+      registry.setConfirmationHandler(() => false);
+
+      expect(registry.execute("item", "delete")).toBe(false);
+      const result = await registry.executeAsync("item", "delete");
+
+      expect(result).toEqual({
+        status: "declined",
+        error: "Action delete on component item was declined",
+        durationMs: expect.any(Number),
+      });
+      expect(listener).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith(
+        "Action delete on component item was declined",
+      );
+    });
+
+    it("should dispatch from execute once an asynchronous handler confirms", async () => {
+      let confirm: (confirmed: boolean) => void = () => {};
+      registry.setConfirmationHandler(
+        () => new Promise<boolean>((resolve) => (confirm = resolve)),
+      );
+
+      expect(registry.execute("item", "delete")).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+
+      confirm(true);
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should decline when the handler fails and respect requiresConfirmation", async () => {
+      registry.setConfirmationHandler(() =>
+        Promise.reject(new Error("Dialog closed")),
+      );
+      expect((await registry.executeAsync("item", "delete")).status).toBe(
+        "declined",
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        "Confirmation of action delete on component item failed:",
+        new Error("Dialog closed"),
+      );
+
+      registry.register("item", mockElement, "Todo Item", [
+        { ...deleteAction, requiresConfirmation: false },
+      ]);
+      expect((await registry.executeAsync("item", "delete")).status).toBe(
+        "success",
+      );
+    });
+  });
+
+  describe("scopes", () => {
+    let listener: jest.Mock;
+
+    beforeEach(() => {
+      listener = jest.fn((event: Event) =>
+        (event as CustomEvent).detail.respond?.("done"),
+      );
+      const list = document.createElement("ul");
+      list.addEventListener("hlas:execute", listener);
+      registry.register("todos", list, "Todo List", [
+        { id: "add", name: "Add" },
+        { id: "purge", name: "Purge", scope: "admin" },
+      ]);
+      registry.register(
+        "settings",
+        document.createElement("form"),
+        "Settings",
+        [],
+        undefined,
+        { scope: "admin" },
+      );
+    });
+
+    afterEach(() => {
+      registry.setDefaultScopes();
+    });
+
+    it("should only diagnose components of granted scopes", () => {
+      const admin = { scope: "admin" as const };
+      registry.register(
+        "vault",
+        document.createElement("div"),
+        "Vault",
+        [],
+        undefined,
+        admin,
+      );
+      registry.register(
+        "vault",
+        document.createElement("div"),
+        "Vault",
+        [],
+        undefined,
+        admin,
+      );
+      registry.register(
+        "key",
+        document.createElement("div"),
+        "Key",
+        [],
+        undefined,
+        admin,
+      );
+      registry.register(
+        "key-copy",
+        document.createElement("div"),
+        "Key",
+        [],
+        undefined,
+        admin,
+      );
+      registry.register("notes", document.createElement("div"), "Notes");
+      registry.register("notes-copy", document.createElement("div"), "Notes");
+
+      const reported = () =>
+        registry.diagnostics().flatMap((diagnostic) => diagnostic.ids);
+      expect(reported()).toEqual(
+        expect.arrayContaining(["vault", "key", "key-copy", "notes"]),
+      );
+
+      registry.setDefaultScopes(["read"]);
+      expect(reported()).toEqual(["notes", "notes-copy"]);
+    });
+
+    it("should only show components and actions of granted scopes", () => {
+      const session = registry.createSession({ scopes: ["read"] });
+
+      expect(session.scopes).toEqual(["read"]);
+      expect(
+        session.readScreen().map((c) => [c.id, c.actions.map((a) => a.id)]),
+      ).toEqual([["todos", []]]);
+      expect(session.find("Settings")).toEqual([]);
+      expect(session.toToolDefinitions()).toEqual([]);
+
+      const admin = registry.createSession({
+        scopes: ["read", "write", "admin"],
+      });
+      expect(admin.readScreen().map((c) => c.id)).toEqual([
+        "todos",
+        "settings",
+      ]);
+      expect(admin.toToolDefinitions().map((tool) => tool.name)).toEqual([
+        "todos__add",
+        "todos__purge",
+      ]);
+
+      // The unrestricted registry is unaffected
+      expect(registry.readScreen()).toHaveLength(2);
+    });
+
+    it("should reject actions outside of the granted scopes as forbidden", async () => {
+      const session = registry.createSession({ scopes: ["read", "write"] });
+
+      expect((await session.executeAsync("todos", "add")).status).toBe(
+        "success",
+      );
+      expect(await session.executeAsync("todos", "purge")).toEqual({
+        status: "forbidden",
+        error: "Action purge on component todos requires the scope admin",
+        durationMs: expect.any(Number),
+      });
+      expect(session.execute("todos", "purge")).toBe(false);
+      expect((await session.executeAsync("settings", "save")).status).toBe(
+        "not_found",
+      );
+      expect(
+        (await session.dispatchToolCall({ name: "todos__purge" })).status,
+      ).toBe("not_found");
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should restrict calls outside of sessions to the default scopes", () => {
+      registry.setDefaultScopes(["read"]);
+      expect(registry.readScreen().map((c) => c.id)).toEqual(["todos"]);
+      expect(registry.execute("todos", "add")).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(
+        "Action add on component todos requires the scope write",
+      );
+
+      registry.setDefaultScopes();
+      expect(registry.execute("todos", "add")).toBe(true);
+    });
+
+    it("should only report events about granted components and actions", async () => {
+      const session = registry.createSession({ scopes: ["read", "write"] });
+      const events: RegistryEvent[] = [];
+      const unsubscribe = session.subscribe((event) => events.push(event));
+      const admin = jest.fn();
+      registry.setDefaultScopes(["read"]);
+      const unsubscribeGlobal = registry.on("register", admin);
+
+      registry.register(
+        "audit-log",
+        document.createElement("div"),
+        "Audit Log",
+        [],
+        undefined,
+        { scope: "admin" },
+      );
+      registry.register("notes", document.createElement("div"), "Notes", [
+        { id: "edit", name: "Edit" },
+        { id: "wipe", name: "Wipe", scope: "admin" },
+      ]);
+      await registry.executeAsync("todos", "purge");
+      registry.setDefaultScopes();
+      await registry.executeAsync("todos", "purge");
+      await registry.executeAsync("todos", "add");
+      unsubscribe();
+      unsubscribeGlobal();
+
+      expect(events.map((event) => [event.type, event.id])).toEqual([
+        ["register", "notes"],
+        ["beforeExecute", "todos"],
+        ["execute", "todos"],
+      ]);
+      expect(
+        events[0].type === "register" &&
+          events[0].component.actions.map((action) => action.id),
+      ).toEqual(["edit"]);
+      expect(
+        admin.mock.calls.map(([event]) => [event.id, event.component.actions]),
+      ).toEqual([["notes", []]]);
+    });
+
+    it("should only show the history of granted components and actions", async () => {
+      const session = registry.createSession({
+        scopes: ["read", "write"],
+        name: "agent",
+      });
+      await registry.executeAsync("todos", "purge");
+      await registry.executeAsync("todos", "add");
+      registry.focus("settings");
+      registry.startTour([{ id: "todos" }]);
+      await session.executeAsync("missing", "add");
+
+      expect(
+        session.history().map((entry) => [entry.componentId, entry.actionId]),
+      ).toEqual([
+        ["todos", "add"],
+        ["missing", "add"],
+      ]);
+      expect(session.history({ limit: 1 })).toEqual([
+        expect.objectContaining({ componentId: "missing" }),
+      ]);
+      expect(session.exportHistory().split("\n")).toHaveLength(2);
+
+      registry.setDefaultScopes(["read"]);
+      expect(registry.history().map((entry) => entry.operation)).toEqual([
+        "startTour",
+        "execute",
+      ]);
+      registry.setDefaultScopes();
+      expect(registry.history()).toHaveLength(5);
+    });
+
+    it("should only undo and redo actions of granted scopes", async () => {
+      listener.mockImplementation((event: Event) => {
+        const { respond, registerUndo } = (event as CustomEvent).detail;
+        registerUndo?.(() => "reverted");
+        respond?.("done");
+      });
+      const reader = registry.createSession({ scopes: ["read"] });
+      const admin = registry.createSession({
+        scopes: ["read", "write", "admin"],
+      });
+      await admin.executeAsync("todos", "purge");
+
+      expect(await reader.undo()).toEqual(
+        expect.objectContaining({
+          status: "forbidden",
+          error:
+            "Action purge on component todos was run with scopes that were not granted",
+        }),
+      );
+      expect(await admin.undo()).toEqual(
+        expect.objectContaining({ status: "success", result: "reverted" }),
+      );
+      expect((await reader.redo()).status).toBe("forbidden");
+      expect((await admin.redo()).status).toBe("success");
+    });
+
+    it("should confirm undoing actions that require confirmation", async () => {
+      listener.mockImplementation((event: Event) => {
+        const { respond, registerUndo } = (event as CustomEvent).detail;
+        registerUndo?.(() => "restored");
+        respond?.("done");
+      });
+      const trash = document.createElement("div");
+      trash.addEventListener("hlas:execute", listener);
+      registry.register("trash", trash, "Trash", [
+        { id: "empty", name: "Empty", risk: "destructive" },
+      ]);
+      const handler = jest
+        .fn()
+        .mockReturnValueOnce(true)
+        .mockReturnValueOnce(false)
+        .mockReturnValueOnce(true);
+      registry.setConfirmationHandler(handler);
+
+      await registry.executeAsync("trash", "empty");
+      expect(await registry.undo()).toEqual(
+        expect.objectContaining({ status: "declined" }),
+      );
+      expect(handler).toHaveBeenLastCalledWith(
+        expect.objectContaining({ undo: true }),
+      );
+      // A declined undo stays available
+      expect(await registry.undo()).toEqual(
+        expect.objectContaining({ status: "success", result: "restored" }),
+      );
+      registry.setConfirmationHandler();
+    });
+
+    it("should keep separate snapshots for sessions", () => {
+      const session = registry.createSession({ scopes: ["read"] });
+      const { version } = registry.snapshot();
+
+      const diff = session.diff(version);
+      expect(diff.reset).toBe(true);
+      expect(diff.added.map((component) => component.id)).toEqual(["todos"]);
+      registry.unregister("settings");
+      expect(session.diff(diff.toVersion).removed).toEqual([]);
+    });
+
+    it("should derive the same stable IDs whatever the scopes", () => {
+      const panel = document.createElement("section");
+      const theme = document.createElement("div");
+      panel.append(theme);
+      document.body.append(panel);
+      registry.register(":r8:", panel, "Admin Panel", [], undefined, {
+        generatedId: true,
+        scope: "admin",
+      });
+      registry.register(
+        ":r9:",
+        theme,
+        "Theme",
+        [{ id: "toggle", name: "Toggle" }],
+        undefined,
+        { generatedId: true },
+      );
+      const session = registry.createSession({ scopes: ["read", "write"] });
+
+      const stableId = (screen: ScreenComponent[]) =>
+        screen.find((component) => component.id === ":r9:")?.stableId;
+      expect(stableId(session.readScreen())).toBe(
+        stableId(registry.readScreen()),
+      );
+      expect(stableId(session.readScreen())).toBe("admin-panel/theme");
+      panel.remove();
+    });
+  });
+
+  describe("history", () => {
+    beforeEach(() => {
+      mockElement.addEventListener("hlas:execute", (event) =>
+        (event as CustomEvent).detail.respond?.("ok"),
+      );
+      registry.register("button", mockElement, "Save Button", [
+        { id: "click", name: "Click" },
+      ]);
+    });
+
+    it("should record executed actions with their outcome", async () => {
+      registry.execute("button", "click", { times: 2 });
+      registry.execute("missing", "click");
+      await registry.executeAsync("button", "click");
+
+      expect(registry.history()).toEqual([
+        {
+          sequence: expect.any(Number),
+          timestamp: expect.any(Number),
+          caller: "global",
+          operation: "execute",
+          componentId: "button",
+          componentName: "Save Button",
+          actionId: "click",
+          params: { times: 2 },
+          outcome: "dispatched",
+          durationMs: expect.any(Number),
+        },
+        expect.objectContaining({
+          componentId: "missing",
+          outcome: "not_found",
+          error: "Component with ID missing not found",
+        }),
+        expect.objectContaining({ componentId: "button", outcome: "success" }),
+      ]);
+    });
+
+    it("should record the session making the call and other operations", async () => {
+      const session = registry.createSession({
+        scopes: ["read"],
+        name: "support-agent",
+      });
+      await session.executeAsync("button", "click");
+      registry.focus("button");
+      registry.startTour([{ id: "missing" }]);
+
+      expect(registry.history({ caller: "support-agent" })).toEqual([
+        expect.objectContaining({ operation: "execute", outcome: "forbidden" }),
+      ]);
+      expect(
+        registry
+          .history({ caller: "global" })
+          .map((entry) => [entry.operation, entry.outcome]),
+      ).toEqual([
+        ["focus", "success"],
+        ["startTour", "not_found"],
+      ]);
+      expect(registry.history({ operation: "startTour" })[0].params).toEqual({
+        steps: ["missing"],
+      });
+    });
+
+    it("should export the history as JSON Lines", () => {
+      registry.execute("button", "click");
+      registry.focus("button");
+
+      const lines = registry
+        .exportHistory()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(lines.map((entry) => entry.operation)).toEqual([
+        "execute",
+        "focus",
+      ]);
+
+      registry.clearHistory();
+      expect(registry.history()).toEqual([]);
+    });
+  });
+
+  describe("executeBatch", () => {
+    let text: string;
+    let todos: string[];
+    let inputElement: HTMLElement;
+
+    beforeEach(() => {
+      text = "";
+      todos = [];
+      inputElement = document.createElement("input");
+      // Like React state, the updates are only visible after the handlers have returned
+      inputElement.addEventListener("hlas:execute", (event) => {
+        const { params, respond, registerUndo } = (event as CustomEvent).detail;
+        const previous = text;
+        setTimeout(() => (text = params.value), 0);
+        registerUndo(() => (text = previous));
+        respond?.(undefined);
+      });
+      mockElement.addEventListener("hlas:execute", (event) => {
+        const { respond } = (event as CustomEvent).detail;
+        if (!text) {
+          respond?.(Promise.reject(new Error("Nothing to add")));
+          return;
+        }
+        todos.push(text);
+        respond?.(todos.length);
+      });
+      registry.register("input", inputElement, "Todo Input", [
+        { id: "setValue", name: "Set value", parameters: [{ name: "value" }] },
+      ]);
+      registry.register("add", mockElement, "Add Button", [
+        { id: "addTodo", name: "Add todo" },
+      ]);
+    });
+
+    it("should execute the steps in order once the previous step has been rendered", async () => {
+      const result = await registry.executeBatch([
+        { id: "input", actionId: "setValue", params: { value: "Buy milk" } },
+        { id: "add", actionId: "addTodo" },
+      ]);
+
+      expect(result).toEqual({
+        status: "completed",
+        steps: [
+          expect.objectContaining({
+            index: 0,
+            status: "success",
+            step: expect.objectContaining({ actionId: "setValue" }),
+          }),
+          expect.objectContaining({ index: 1, status: "success", result: 1 }),
+        ],
+        durationMs: expect.any(Number),
+      });
+      expect(todos).toEqual(["Buy milk"]);
+    });
+
+    it("should stop at the first step that fails", async () => {
+      const result = await registry.executeBatch([
+        { id: "add", actionId: "addTodo" },
+        { id: "input", actionId: "setValue", params: { value: "Buy milk" } },
+      ]);
+
+      expect(result.status).toBe("failed");
+      expect(result.steps).toEqual([
+        expect.objectContaining({
+          index: 0,
+          status: "error",
+          error: "Nothing to add",
+        }),
+      ]);
+      expect(console.error).toHaveBeenCalledWith(
+        "Batch stopped at step 0 (addTodo on component add): Nothing to add",
+      );
+      expect(result.rolledBack).toBeUndefined();
+    });
+
+    it("should undo the succeeded steps when asked to roll back", async () => {
+      const result = await registry.executeBatch(
+        [
+          { id: "input", actionId: "setValue", params: { value: "Buy milk" } },
+          { id: "missing", actionId: "addTodo" },
+        ],
+        { rollbackOnError: true },
+      );
+
+      expect(result.steps.map((step) => step.status)).toEqual([
+        "success",
+        "not_found",
+      ]);
+      expect(result.rolledBack).toBe(1);
+      expect(text).toBe("");
+    });
+
+    it("should only roll back the actions of its own steps", async () => {
+      const batch = registry.executeBatch(
+        [
+          { id: "input", actionId: "setValue", params: { value: "Buy milk" } },
+          { id: "missing", actionId: "addTodo" },
+        ],
+        { rollbackOnError: true },
+      );
+      await registry.executeAsync("input", "setValue", {
+        value: "Other caller",
+      });
+
+      const result = await batch;
+      expect(result.rolledBack).toBe(1);
+      expect(registry.history({ operation: "undo" })).toEqual([
+        expect.objectContaining({
+          params: { value: "Buy milk" },
+          outcome: "success",
+        }),
+      ]);
+      // The other caller's action can still be undone
+      expect((await registry.undo()).status).toBe("success");
+      expect(
+        registry.history({ operation: "undo", limit: 1 })[0].params,
+      ).toEqual({ value: "Other caller" });
+    });
+
+    it("should execute the steps on behalf of the session that started the batch", async () => {
+      registry.register("admin", document.createElement("div"), "Admin Panel", [
+        { id: "reset", name: "Reset", scope: "admin" },
+      ]);
+      const session = registry.createSession({
+        scopes: ["read", "write"],
+        name: "batch-agent",
+      });
+
+      const result = await session.executeBatch([
+        { id: "input", actionId: "setValue", params: { value: "Buy milk" } },
+        { id: "admin", actionId: "reset" },
+      ]);
+
+      expect(result.steps.map((step) => step.status)).toEqual([
+        "success",
+        "forbidden",
+      ]);
+      expect(registry.history({ caller: "batch-agent" })).toHaveLength(2);
+    });
+  });
+
+  describe("waiting", () => {
+    const later = (callback: () => void) => setTimeout(callback, 10);
+
+    it("should resolve once a matching component is registered", async () => {
+      const listeners = internals(registryInstance).listeners.size;
+      later(() =>
+        registry.register("dialog", mockElement, "Confirm Order", [
+          { id: "confirm", name: "Confirm" },
+        ]),
+      );
+
+      const component = await registry.waitFor({
+        name: "Confirm Order",
+        hasAction: "confirm",
+      });
+
+      expect(component?.id).toBe("dialog");
+      expect(internals(registryInstance).listeners.size).toBe(listeners);
+      expect(await registry.waitFor("Confirm", { timeout: 0 })).toEqual(
+        expect.objectContaining({ id: "dialog" }),
+      );
+    });
+
+    it("should resolve to undefined or false after the timeout", async () => {
+      registry.register("list", mockElement, "Todo List");
+
+      expect(
+        await registry.waitFor("Missing", { timeout: 20 }),
+      ).toBeUndefined();
+      expect(
+        await registry.waitForContent("missing", () => true, { timeout: 20 }),
+      ).toBe(false);
+      expect(await registry.waitForGone("list", { timeout: 20 })).toBe(false);
+    });
+
+    it("should resolve once the content of a component satisfies the predicate", async () => {
+      mockElement.setAttribute("data-hlas-content", JSON.stringify([]));
+      registry.register("list", mockElement, "Todo List");
+      later(() =>
+        mockElement.setAttribute(
+          "data-hlas-content",
+          JSON.stringify([{ text: "Buy milk" }]),
+        ),
+      );
+
+      const predicate = jest.fn((todos: unknown) =>
+        (todos as Array<{ text: string }>).some(
+          (todo) => todo.text === "Buy milk",
+        ),
+      );
+      expect(await registry.waitForContent("list", predicate)).toBe(true);
+      expect(predicate).toHaveBeenLastCalledWith([{ text: "Buy milk" }]);
+    });
+
+    it("should resolve once a component is unregistered", async () => {
+      registry.register("dialog", mockElement, "Confirm Order");
+      later(() => registry.unregister("dialog"));
+
+      expect(await registry.waitForGone("dialog")).toBe(true);
+    });
+
+    it("should check conditions when the document changes", async () => {
+      const spinner = document.createElement("div");
+      spinner.id = "spinner";
+      document.body.appendChild(spinner);
+      later(() => spinner.remove());
+
+      expect(
+        await registry.waitUntil(() => !document.getElementById("spinner")),
+      ).toBe(true);
+      expect(
+        await registry.waitUntil(
+          () => {
+            throw new Error("Broken condition");
+          },
+          { timeout: 0 },
+        ),
+      ).toBeUndefined();
+      expect(console.error).toHaveBeenCalledWith(
+        "Error in hlas wait condition:",
+        expect.any(Error),
+      );
+    });
+
+    it("should only see the components of the session that waits", async () => {
+      registry.register("admin", mockElement, "Admin Panel", [], undefined, {
+        scope: "admin",
+      });
+      const session = registry.createSession({ scopes: ["read"] });
+
+      expect(await session.waitForGone("admin", { timeout: 0 })).toBe(true);
+      expect(
+        await session.waitFor("Admin Panel", { timeout: 20 }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("undo", () => {
+    let value: number;
+
+    beforeEach(() => {
+      value = 0;
+      // Mimics useHlasActions for an action defined with `undo`
+      mockElement.addEventListener("hlas:execute", (event) => {
+        const { params, respond, registerUndo } = (event as CustomEvent).detail;
+        const previous = value;
+        value = params.value;
+        registerUndo?.(() => {
+          value = previous;
+        });
+        respond?.(value);
+      });
+      registry.register("counter", mockElement, "Counter", [
+        { id: "setValue", name: "Set value" },
+      ]);
+    });
+
+    it("should undo and redo the most recent actions", async () => {
+      await registry.executeAsync("counter", "setValue", { value: 1 });
+      registry.execute("counter", "setValue", { value: 2 });
+
+      expect((await registry.undo()).status).toBe("success");
+      expect(value).toBe(1);
+      expect((await registry.undo()).status).toBe("success");
+      expect(value).toBe(0);
+
+      expect(await registry.redo()).toEqual(
+        expect.objectContaining({ status: "success", result: 1 }),
+      );
+      expect(value).toBe(1);
+      expect(
+        registry.history({ limit: 3 }).map((entry) => entry.operation),
+      ).toEqual(["undo", "undo", "redo"]);
+    });
+
+    it("should report when there is nothing to undo or redo", async () => {
+      expect(await registry.undo()).toEqual(
+        expect.objectContaining({
+          status: "not_found",
+          error: "Nothing to undo",
+        }),
+      );
+      expect(await registry.redo()).toEqual(
+        expect.objectContaining({
+          status: "not_found",
+          error: "Nothing to redo",
+        }),
+      );
+    });
+
+    it("should forget undone actions once a new action is executed", async () => {
+      await registry.executeAsync("counter", "setValue", { value: 1 });
+      await registry.undo();
+      await registry.executeAsync("counter", "setValue", { value: 3 });
+
+      expect((await registry.redo()).status).toBe("not_found");
+      await registry.undo();
+      expect(value).toBe(0);
+    });
+
+    it("should report undo functions that fail", async () => {
+      mockElement.addEventListener("hlas:execute", (event) =>
+        (event as CustomEvent).detail.registerUndo(() => {
+          throw new Error("Already deleted");
+        }),
+      );
+      await registry.executeAsync("counter", "setValue", { value: 1 });
+
+      expect(await registry.undo()).toEqual(
+        expect.objectContaining({ status: "error", error: "Already deleted" }),
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        "Undoing action setValue on component counter failed:",
+        expect.any(Error),
+      );
+      // The undo function registered first is still available
+      await registry.undo();
+      expect(value).toBe(0);
+    });
+  });
+
+  describe("subscribe", () => {
+    const flushMutations = () =>
+      new Promise((resolve) => setTimeout(resolve, 0));
+
+    it("should report registrations and unregistrations", () => {
+      const listener = jest.fn();
+      const unsubscribe = registry.subscribe(listener);
+
+      registry.register("sub-1", mockElement, "Subscribed");
+      registry.unregister("sub-1");
+      unsubscribe();
+      registry.register("sub-2", mockElement, "Unobserved");
+
+      expect(
+        listener.mock.calls.map(([event]) => [event.type, event.id]),
+      ).toEqual([
+        ["register", "sub-1"],
+        ["unregister", "sub-1"],
+      ]);
+      expect(listener.mock.calls[0][0].component.name).toBe("Subscribed");
+    });
+
+    it("should report dispatched actions but not rejected calls", async () => {
+      const listener = jest.fn();
+      const unsubscribe = registry.on("execute", listener);
+      registry.register("exec-sub", mockElement, "Button", [
+        { id: "click", name: "Click" },
+      ]);
+
+      registry.execute("exec-sub", "click", { times: 2 });
+      await registry.executeAsync("exec-sub", "click");
+      registry.execute("missing", "click");
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith({
+        type: "execute",
+        id: "exec-sub",
+        actionId: "click",
+        params: { times: 2 },
+      });
+    });
+
+    it("should report actions before they are dispatched", async () => {
+      const order: string[] = [];
+      const unsubscribe = registry.subscribe((event) => order.push(event.type));
+      registry.register("before-sub", mockElement, "Button", [
+        { id: "click", name: "Click" },
+      ]);
+      mockElement.addEventListener("hlas:execute", () =>
+        order.push("dispatch"),
+      );
+
+      registry.execute("before-sub", "click");
+      await registry.executeAsync("before-sub", "click");
+      unsubscribe();
+
+      expect(order).toEqual([
+        "register",
+        "beforeExecute",
+        "dispatch",
+        "execute",
+        "beforeExecute",
+        "dispatch",
+        "execute",
+      ]);
+    });
+
+    it("should report changes of data-hlas-content", async () => {
+      const listener = jest.fn();
+      const unsubscribe = registry.on("contentChange", listener);
+      mockElement.setAttribute("data-hlas-content", JSON.stringify(["a"]));
+      registry.register("content-sub", mockElement, "List");
+
+      mockElement.setAttribute("data-hlas-content", JSON.stringify(["a", "b"]));
+      await flushMutations();
+
+      expect(listener).toHaveBeenCalledWith({
+        type: "contentChange",
+        id: "content-sub",
+        content: ["a", "b"],
+        previousContent: ["a"],
+      });
+
+      listener.mockClear();
+      mockElement.setAttribute("data-hlas-content", JSON.stringify(["a", "b"]));
+      mockElement.setAttribute("data-other", "ignored");
+      await flushMutations();
+      expect(listener).not.toHaveBeenCalled();
+
+      registry.unregister("content-sub");
+      mockElement.setAttribute("data-hlas-content", "[]");
+      await flushMutations();
+      expect(listener).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it("should keep notifying other listeners when one throws", () => {
+      const failing = registry.subscribe(() => {
+        throw new Error("listener failed");
+      });
+      const listener = jest.fn();
+      const unsubscribe = registry.subscribe(listener);
+
+      registry.register("robust-sub", mockElement, "Robust");
+      failing();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith(
+        "Error in hlas register listener:",
+        expect.any(Error),
+      );
+    });
+  });
+
+  describe("snapshot and diff", () => {
+    it("should only increase the version when the screen changes", () => {
+      registry.register("snap-1", mockElement, "Snapshot");
+      const first = registry.snapshot();
+      expect(registry.snapshot().version).toBe(first.version);
+      expect(first.components.map((c) => c.id)).toEqual(["snap-1"]);
+
+      registry.register("snap-2", document.createElement("div"), "Another");
+      expect(registry.snapshot().version).toBe(first.version + 1);
+    });
+
+    it("should diff the current screen against a previous version", () => {
+      const listElement = document.createElement("ul");
+      listElement.setAttribute(
+        "data-hlas-content",
+        JSON.stringify([{ id: 1, text: "A" }]),
+      );
+      registry.register("diff-list", listElement, "List");
+      registry.register("diff-gone", mockElement, "Gone");
+      const { version } = registry.snapshot();
+
+      listElement.setAttribute(
+        "data-hlas-content",
+        JSON.stringify([
+          { id: 1, text: "A, edited" },
+          { id: 2, text: "B" },
+        ]),
+      );
+      registry.unregister("diff-gone");
+      registry.register("diff-new", document.createElement("button"), "New");
+
+      const diff = registry.diff(version);
+
+      expect(diff.fromVersion).toBe(version);
+      expect(diff.toVersion).toBe(version + 1);
+      expect(diff.added.map((c) => c.id)).toEqual(["diff-new"]);
+      expect(diff.removed.map((c) => c.id)).toEqual(["diff-gone"]);
+      expect(diff.changed).toHaveLength(1);
+      expect(diff.changed[0]).toMatchObject({
+        id: "diff-list",
+        changedFields: ["content"],
+        contentDiff: {
+          added: [{ id: 2, text: "B" }],
+          removed: [],
+          changed: [
+            {
+              previous: { id: 1, text: "A" },
+              current: { id: 1, text: "A, edited" },
+            },
+          ],
+        },
+      });
+
+      const unchanged = registry.diff(diff.toVersion);
+      expect(unchanged).toEqual({
+        fromVersion: diff.toVersion,
+        toVersion: diff.toVersion,
+        added: [],
+        removed: [],
+        changed: [],
+      });
+    });
+
+    it("should return the complete screen for unknown versions", () => {
+      registry.register("reset-1", mockElement, "Reset");
+      const diff = registry.diff(-1);
+      expect(diff.reset).toBe(true);
+      expect(diff.added.map((c) => c.id)).toEqual(["reset-1"]);
+    });
+  });
+
+  describe("tool definitions", () => {
+    let input: HTMLElement;
+    const listener = jest.fn((event: Event) => {
+      const { params, respond } = (event as CustomEvent).detail;
+      respond?.(`set to ${params.value}`);
+    });
+
+    beforeEach(() => {
+      input = document.createElement("input");
+      input.addEventListener("hlas:execute", listener);
+      registry.register("tool-input", input, "Todo Input Field", [
+        {
+          id: "setValue",
+          name: "Set Value",
+          parameters: [{ name: "value", type: "string", required: true }],
+        },
+      ]);
+    });
+
+    it("should export one tool per component action in the requested format", () => {
+      expect(registry.toToolDefinitions()).toEqual([
+        expect.objectContaining({
+          name: "tool-input__setValue",
+          componentId: "tool-input",
+          actionId: "setValue",
+        }),
+      ]);
+      const [openaiTool] = registry.toToolDefinitions({ format: "openai" });
+      expect(openaiTool.function.parameters.required).toEqual(["value"]);
+      expect(
+        registry.toToolDefinitions({ format: "anthropic" })[0].input_schema
+          .type,
+      ).toBe("object");
+      expect(registry.toToolDefinitions({ onlyVisible: true })).toEqual([]);
+    });
+
+    it("should route tool calls to the component action", async () => {
+      const result = await registry.dispatchToolCall({
+        id: "call_1",
+        type: "function",
+        function: {
+          name: "tool-input__setValue",
+          arguments: '{"value": "Buy milk"}',
+        },
+      });
+
+      expect(result).toMatchObject({
+        name: "tool-input__setValue",
+        toolCallId: "call_1",
+        status: "success",
+        result: "set to Buy milk",
+      });
+    });
+
+    it("should report unknown tools and invalid arguments", async () => {
+      expect(
+        await registry.dispatchToolCall({ name: "missing__click" }),
+      ).toMatchObject({
+        status: "not_found",
+        error: "Unknown tool missing__click",
+      });
+      expect(
+        await registry.dispatchToolCall({
+          name: "tool-input__setValue",
+          arguments: {},
+        }),
+      ).toMatchObject({
+        status: "invalid_params",
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should route calls to the exported component after filtering and registry changes", async () => {
+      const items = ["Buy milk", "Walk dog"].map(() =>
+        document.createElement("button"),
+      );
+      const toggled = jest.fn();
+      items[1].addEventListener("hlas:execute", (event) =>
+        (event as CustomEvent).detail.respond?.(toggled()),
+      );
+      jest.spyOn(items[1], "getBoundingClientRect").mockReturnValue({
+        top: 0,
+        left: 0,
+        bottom: 20,
+        right: 100,
+        width: 100,
+        height: 20,
+      } as DOMRect);
+      items[0].style.display = "none";
+      document.body.append(...items);
+      for (const [index, item] of items.entries()) {
+        registry.register(
+          `:r${index}:`,
+          item,
+          "Todo Item",
+          [{ id: "toggle", name: "Toggle" }],
+          undefined,
+          {
+            generatedId: true,
+          },
+        );
+      }
+
+      const [tool] = registry.toToolDefinitions({ onlyVisible: true });
+      expect(tool.name).toBe("todo-item_2__toggle");
+      registry.register("banner", document.createElement("div"), "Banner", [
+        { id: "close", name: "Close" },
+      ]);
+
+      expect(
+        (await registry.dispatchToolCall({ name: tool.name })).status,
+      ).toBe("success");
+      expect(toggled).toHaveBeenCalledTimes(1);
+      items.forEach((item) => item.remove());
+    });
+
+    it("should leave out and refuse tool names shared by several components", async () => {
+      registry.register("todo/list", document.createElement("div"), "List", [
+        { id: "clear", name: "Clear" },
+      ]);
+      registry.register(
+        "todo_list",
+        document.createElement("div"),
+        "Other List",
+        [{ id: "clear", name: "Clear" }],
+      );
+
+      expect(registry.toToolDefinitions().map((tool) => tool.name)).toEqual([
+        "tool-input__setValue",
+      ]);
+      expect(console.warn).toHaveBeenCalledWith(
+        "Tool todo_list__clear is left out because it would run actions of several components (todo/list, todo_list); give them distinct IDs",
+      );
+      expect(
+        await registry.dispatchToolCall({ name: "todo_list__clear" }),
+      ).toMatchObject({
+        status: "error",
+        error:
+          "Tool todo_list__clear is ambiguous: it matches actions of the components todo/list, todo_list",
+      });
     });
   });
 
   describe("readScreen", () => {
     it("should return an array of ScreenComponent objects", () => {
-      registry.register("compA", document.createElement("div"), "Component A", [], "Description A");
+      registry.register(
+        "compA",
+        document.createElement("div"),
+        "Component A",
+        [],
+        "Description A",
+      );
       const elB = document.createElement("button");
       elB.setAttribute("data-hlas-content", JSON.stringify({ key: "value" }));
       registry.register("compB", elB, "Component B");
@@ -214,23 +1762,27 @@ describe("Registry", () => {
       const screenData = registry.readScreen();
       expect(screenData.length).toBe(2);
 
-      const compAData = screenData.find(c => c.id === "compA");
-      expect(compAData).toEqual(expect.objectContaining({
-        id: "compA",
-        name: "Component A",
-        description: "Description A",
-        // visible property is no longer set
-        actions: [],
-        content: undefined,
-      }));
-
-      const compBData = screenData.find(c => c.id === "compB");
-      expect(compBData).toEqual(expect.objectContaining({
-        id: "compB",
-        name: "Component B",
-        // visible property is no longer set
-        content: { key: "value" },
-      }));
+      const compAData = screenData.find((c) => c.id === "compA");
+      expect(compAData).toEqual(
+        expect.objectContaining({
+          id: "compA",
+          name: "Component A",
+          description: "Description A",
+          // visible property is no longer set
+          actions: [],
+          content: undefined,
+        }),
+      );
+
+      const compBData = screenData.find((c) => c.id === "compB");
+      expect(compBData).toEqual(
+        expect.objectContaining({
+          id: "compB",
+          name: "Component B",
+          // visible property is no longer set
+          content: { key: "value" },
+        }),
+      );
     });
 
     it("should correctly parse string content from data-hlas-content", () => {
@@ -239,11 +1791,485 @@ describe("Registry", () => {
       registry.register("compC", elC, "Component C");
 
       const screenData = registry.readScreen();
-      const compCData = screenData.find(c => c.id === "compC");
+      const compCData = screenData.find((c) => c.id === "compC");
       expect(compCData?.content).toBe("Simple text content");
     });
   });
 
+  describe("readScreen visibility", () => {
+    let visibleElement: HTMLElement;
+    let hiddenElement: HTMLElement;
+
+    beforeEach(() => {
+      visibleElement = document.createElement("button");
+      hiddenElement = document.createElement("button");
+      hiddenElement.style.display = "none";
+      document.body.append(visibleElement, hiddenElement);
+      for (const element of [visibleElement, hiddenElement]) {
+        jest.spyOn(element, "getBoundingClientRect").mockReturnValue({
+          top: 0,
+          left: 0,
+          bottom: 20,
+          right: 100,
+          width: 100,
+          height: 20,
+        } as DOMRect);
+      }
+      registry.register("visible", visibleElement, "Visible Button");
+      registry.register("hidden", hiddenElement, "Hidden Button");
+    });
+
+    afterEach(() => {
+      visibleElement.remove();
+      hiddenElement.remove();
+    });
+
+    it("should populate the visible flag for every component", () => {
+      const screenData = registry.readScreen();
+      expect(screenData.find((c) => c.id === "visible")?.visible).toBe(true);
+      expect(screenData.find((c) => c.id === "hidden")?.visible).toBe(false);
+    });
+
+    it("should omit hidden components when onlyVisible is set", () => {
+      const screenData = registry.readScreen({ onlyVisible: true });
+      expect(screenData.map((c) => c.id)).toEqual(["visible"]);
+    });
+  });
+
+  describe("readTree", () => {
+    let root: HTMLElement;
+
+    beforeEach(() => {
+      root = document.createElement("div");
+      document.body.appendChild(root);
+    });
+
+    afterEach(() => {
+      root.remove();
+    });
+
+    it("should derive parentId and childIds from DOM containment", () => {
+      const list = document.createElement("ul");
+      const item = document.createElement("li");
+      const wrapper = document.createElement("div");
+      const button = document.createElement("button");
+      wrapper.appendChild(button);
+      item.appendChild(wrapper);
+      list.appendChild(item);
+      root.appendChild(list);
+
+      // Children register before their parents, as React effects run bottom-up
+      registry.register("button", button, "Toggle Button", [
+        { id: "toggle", name: "toggle" },
+      ]);
+      registry.register("item", item, "Todo: Learn about hlas");
+      registry.register("list", list, "Todo List");
+
+      const screenData = registry.readScreen();
+      expect(screenData.find((c) => c.id === "list")).toEqual(
+        expect.objectContaining({ parentId: undefined, childIds: ["item"] }),
+      );
+      expect(screenData.find((c) => c.id === "item")).toEqual(
+        expect.objectContaining({ parentId: "list", childIds: ["button"] }),
+      );
+      expect(screenData.find((c) => c.id === "button")).toEqual(
+        expect.objectContaining({ parentId: "item", childIds: [] }),
+      );
+    });
+
+    it("should nest components and order siblings by document position", () => {
+      const list = document.createElement("ul");
+      const first = document.createElement("li");
+      const second = document.createElement("li");
+      list.append(first, second);
+      const heading = document.createElement("h1");
+      root.append(heading, list);
+
+      registry.register("second", second, "Second Item");
+      registry.register("first", first, "First Item");
+      registry.register("list", list, "List");
+      registry.register("heading", heading, "Heading");
+
+      const tree = registry.readTree();
+      expect(tree.map((node) => node.id)).toEqual(["heading", "list"]);
+      expect(tree[1].children.map((node) => node.id)).toEqual([
+        "first",
+        "second",
+      ]);
+      expect(tree[1].children[0].children).toEqual([]);
+    });
+
+    it("should treat detached components as top-level nodes", () => {
+      registry.register("detached", document.createElement("div"), "Detached");
+
+      const tree = registry.readTree();
+      expect(tree).toHaveLength(1);
+      expect(tree[0]).toEqual(
+        expect.objectContaining({ id: "detached", children: [] }),
+      );
+    });
+  });
+
+  describe("stable IDs", () => {
+    let root: HTMLElement;
+
+    beforeEach(() => {
+      root = document.createElement("div");
+      document.body.appendChild(root);
+    });
+
+    afterEach(() => {
+      root.remove();
+    });
+
+    it("should derive path-based stable IDs for generated IDs and resolve them", () => {
+      const list = document.createElement("ul");
+      const first = document.createElement("li");
+      const second = document.createElement("li");
+      list.append(first, second);
+      root.appendChild(list);
+
+      registry.register(
+        ":r2:",
+        second,
+        "Todo Item",
+        [{ id: "toggle", name: "Toggle" }],
+        undefined,
+        { generatedId: true },
+      );
+      registry.register(":r1:", first, "Todo Item", [], undefined, {
+        generatedId: true,
+      });
+      registry.register("todos", list, "Todo List");
+
+      const stableIds = Object.fromEntries(
+        registry.readScreen().map((c) => [c.id, c.stableId]),
+      );
+      expect(stableIds).toEqual({
+        todos: "todos",
+        ":r1:": "todos/todo-item",
+        ":r2:": "todos/todo-item#2",
+      });
+
+      const listener = jest.fn();
+      second.addEventListener("hlas:execute", listener);
+      expect(registry.execute("todos/todo-item#2", "toggle")).toBe(true);
+      expect(listener.mock.calls[0][0].detail.id).toBe(":r2:");
+    });
+
+    it("should warn when an ID is registered again for another element", () => {
+      const element = document.createElement("div");
+      registry.register("dup", element, "First");
+      registry.register("dup", element, "First again");
+      expect(console.warn).not.toHaveBeenCalled();
+
+      const other = document.createElement("div");
+      registry.register("dup", other, "Second");
+      expect(console.warn).toHaveBeenCalledWith(
+        "Component ID dup is already registered for another element; the previous registration is replaced",
+      );
+      expect(registry.find("Second")[0].element).toBe(other);
+    });
+  });
+
+  describe("diagnostics", () => {
+    it("should report nothing for distinct registrations", () => {
+      registry.register("a", document.createElement("div"), "First");
+      registry.register("b", document.createElement("div"), "Second");
+      expect(registry.diagnostics()).toEqual([]);
+    });
+
+    it("should report IDs registered for several elements until they are unregistered", () => {
+      const first = document.createElement("div");
+      const second = document.createElement("div");
+      registry.register("dup", first, "First", [
+        { id: "click", name: "Click" },
+      ]);
+      registry.register("dup", second, "Second", [
+        { id: "click", name: "Click" },
+      ]);
+
+      expect(registry.diagnostics()).toEqual([
+        {
+          kind: "duplicate-id",
+          severity: "warning",
+          message:
+            "Component ID dup was registered for 2 different elements; only the last registration is reachable",
+          ids: ["dup"],
+        },
+      ]);
+
+      // The older registration unmounts; the mounted one stays reachable
+      expect(registry.unregister("dup", first)).toBe(true);
+      expect(registry.diagnostics()).toEqual([]);
+      expect(registry.find("Second")[0].element).toBe(second);
+      const listener = jest.fn();
+      second.addEventListener("hlas:execute", listener);
+      expect(registry.execute("dup", "click")).toBe(true);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(registry.unregister("dup", first)).toBe(false);
+    });
+
+    it("should make a replaced registration reachable again once the replacing one unmounts", () => {
+      const first = document.createElement("div");
+      const second = document.createElement("div");
+      registry.register("dup", first, "First");
+      registry.register("dup", second, "Second");
+      const listener = jest.fn();
+      const unsubscribe = registry.subscribe(listener);
+
+      expect(registry.unregister("dup", second)).toBe(true);
+      unsubscribe();
+
+      expect(registry.find("First")[0].element).toBe(first);
+      expect(registry.find("Second")).toEqual([]);
+      expect(
+        listener.mock.calls.map(([event]) => [
+          event.type,
+          event.component.name,
+        ]),
+      ).toEqual([
+        ["unregister", "Second"],
+        ["register", "First"],
+      ]);
+      expect(registry.unregister("dup")).toBe(true);
+      expect(registry.find("First")).toEqual([]);
+    });
+
+    it("should report elements registered under several IDs but not fallback entries", () => {
+      const element = document.createElement("button");
+      registry.register("hook", element, "Save Button");
+      registry.register(
+        "hoc",
+        element,
+        "Save",
+        [{ id: "click", name: "click" }],
+        undefined,
+        { fallback: true },
+      );
+      expect(registry.diagnostics()).toEqual([]);
+
+      registry.register("describe", element, "Save Action");
+      const [diagnostic] = registry.diagnostics();
+      expect(diagnostic.kind).toBe("shared-element");
+      expect(diagnostic.ids).toEqual(["hook", "describe"]);
+    });
+
+    it("should report siblings with the same name as info", () => {
+      const list = document.createElement("ul");
+      const first = document.createElement("li");
+      const second = document.createElement("li");
+      const other = document.createElement("li");
+      list.append(first, second, other);
+      registry.register("list", list, "Todo List");
+      registry.register("first", first, "Todo Item");
+      registry.register("second", second, "Todo Item");
+      registry.register("other", other, "Done Item");
+
+      expect(registry.diagnostics()).toEqual([
+        {
+          kind: "sibling-name-collision",
+          severity: "info",
+          message: 'Sibling components first, second are all named "Todo Item"',
+          ids: ["first", "second"],
+        },
+      ]);
+    });
+
+    it("should report and refuse stable IDs shared by several components", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const explicit = document.createElement("ul");
+      const derived = document.createElement("ul");
+      const first = document.createElement("li");
+      const second = document.createElement("li");
+      explicit.append(first);
+      derived.append(second);
+      document.body.append(explicit, derived);
+      registry.register("todo-list", explicit, "Todos");
+      registry.register(":r1:", first, "Todo Item", [], undefined, {
+        generatedId: true,
+      });
+      registry.register(":r2:", derived, "Todo List", [], undefined, {
+        generatedId: true,
+      });
+      registry.register(
+        ":r3:",
+        second,
+        "Todo Item",
+        [{ id: "toggle", name: "Toggle" }],
+        undefined,
+        {
+          generatedId: true,
+        },
+      );
+
+      expect(
+        registry
+          .diagnostics()
+          .filter(({ kind }) => kind === "stable-id-collision"),
+      ).toEqual([
+        {
+          kind: "stable-id-collision",
+          severity: "warning",
+          message:
+            "Components todo-list, :r2: share the stable ID todo-list; it refers to the component registered as todo-list",
+          ids: ["todo-list", ":r2:"],
+        },
+        {
+          kind: "stable-id-collision",
+          severity: "warning",
+          message:
+            "Components :r1:, :r3: share the stable ID todo-list/todo-item; it cannot be used to refer to them",
+          ids: [":r1:", ":r3:"],
+        },
+      ]);
+
+      expect(registry.execute("todo-list/todo-item", "toggle")).toBe(false);
+      expect(warn).toHaveBeenCalledWith(
+        "Stable ID todo-list/todo-item is ambiguous: it matches the components :r1:, :r3:; use one of their IDs",
+      );
+      registry.execute("todo-list", "missing");
+      expect(warn).toHaveBeenCalledWith(
+        "ID todo-list is also the stable ID of :r2:; using the component registered as todo-list",
+      );
+
+      explicit.remove();
+      derived.remove();
+    });
+  });
+
+  describe("readScreen outline", () => {
+    let root: HTMLElement;
+    let list: HTMLElement;
+    let item: HTMLElement;
+    let button: HTMLElement;
+
+    beforeEach(() => {
+      internals(registryInstance).refs.clear();
+      internals(registryInstance).refTargets.clear();
+      internals(registryInstance).refCount = 0;
+      root = document.createElement("div");
+      list = document.createElement("ul");
+      list.setAttribute("data-hlas-component", "List");
+      list.setAttribute(
+        "data-hlas-content",
+        JSON.stringify(["Learn about hlas", "Build a demo"]),
+      );
+      item = document.createElement("li");
+      item.setAttribute("data-hlas-component", "ListItem");
+      item.setAttribute(
+        "data-hlas-content",
+        JSON.stringify({ text: "Learn about hlas", completed: false }),
+      );
+      button = document.createElement("button");
+      item.appendChild(button);
+      list.appendChild(item);
+      root.appendChild(list);
+      document.body.appendChild(root);
+
+      registry.register("button", button, "Delete Button", [
+        { id: "delete", name: "Delete" },
+      ]);
+      registry.register("item", item, "Todo Item", [
+        {
+          id: "rename",
+          name: "Rename",
+          parameters: [{ name: "text", type: "string", required: true }],
+        },
+      ]);
+      registry.register("list", list, "Todo List", [], "All todos");
+    });
+
+    afterEach(() => {
+      root.remove();
+    });
+
+    it("should render the components as an indented outline with refs", () => {
+      expect(registry.readScreen({ format: "outline" })).toBe(
+        [
+          '- list "Todo List" [ref=e1] [hidden]',
+          "  - description: All todos",
+          '  - content: 2 items: "Learn about hlas", "Build a demo"',
+          '  - listitem "Todo Item" [ref=e2] [hidden]',
+          "    - actions: rename(text: string)",
+          '    - content: {"text":"Learn about hlas","completed":false}',
+          '    - generic "Delete Button" [ref=e3] [hidden]',
+          "      - actions: delete()",
+        ].join("\n"),
+      );
+    });
+
+    it("should keep refs stable and resolve them in place of component IDs", () => {
+      registry.readScreen({ format: "outline" });
+      registry.register("list", list, "Todo List", [], "Still all todos");
+      expect(registry.readScreen({ format: "outline" })).toContain(
+        '- list "Todo List" [ref=e1]',
+      );
+
+      const listener = jest.fn();
+      button.addEventListener("hlas:execute", listener);
+      expect(registry.execute("e3", "delete")).toBe(true);
+      expect(listener.mock.calls[0][0].detail).toMatchObject({
+        id: "button",
+        actionId: "delete",
+      });
+
+      expect(registry.focus("e3")).toBe(true);
+      expect(document.activeElement).toBe(button);
+      expect(registry.focus("e99")).toBe(false);
+    });
+
+    it("should release the refs of unregistered components", () => {
+      registry.readScreen({ format: "outline" });
+      const refs = internals(registryInstance).refs;
+      expect(refs.size).toBe(3);
+
+      // Remounting gives the item a new generated ID
+      registry.unregister("item");
+      registry.register(":r5:", item, "Todo Item", [], undefined, {
+        generatedId: true,
+      });
+      expect(registry.readScreen({ format: "outline" })).toContain(
+        '- listitem "Todo Item" [ref=e4]',
+      );
+      expect(refs.size).toBe(3);
+      expect(internals(registryInstance).refTargets.has("e2")).toBe(false);
+      expect(registry.focus("e2")).toBe(false);
+    });
+
+    it("should prefer registered IDs over refs", () => {
+      registry.readScreen({ format: "outline" });
+      const other = document.createElement("input");
+      root.appendChild(other);
+      registry.register("e1", other, "Input");
+
+      expect(registry.focus("e1")).toBe(true);
+      expect(document.activeElement).toBe(other);
+    });
+
+    it("should move visible components up when their hidden ancestors are left out", () => {
+      jest.spyOn(button, "getBoundingClientRect").mockReturnValue({
+        width: 10,
+        height: 10,
+        top: 0,
+        left: 0,
+        right: 10,
+        bottom: 10,
+        x: 0,
+        y: 0,
+        toJSON: () => ({}),
+      });
+
+      expect(
+        registry.readScreen({ format: "outline", onlyVisible: true }),
+      ).toBe(
+        ['- generic "Delete Button" [ref=e1]', "  - actions: delete()"].join(
+          "\n",
+        ),
+      );
+    });
+  });
+
   describe("focus", () => {
     let focusableElement: HTMLElement;
     let focusSpy: jest.SpyInstance;
@@ -262,44 +2288,54 @@ describe("Registry", () => {
 
     it("should return false and log error if component not found", () => {
       expect(registry.focus("non-id")).toBe(false);
-      expect(console.error).toHaveBeenCalledWith("Component with ID non-id not found");
+      expect(console.error).toHaveBeenCalledWith(
+        "Component with ID non-id not found",
+      );
     });
 
     it("should return false if element is not an HTMLElement (though type system should prevent this)", () => {
       // This case is hard to test perfectly without deep manipulation,
       // as register expects HTMLElement. We'll simulate the component entry having a non-focusable element.
-      (registry as any).components.set("non-focusable", { element: {} }); // Not an HTMLElement
+      internals(registry).components.set("non-focusable", {
+        element: {},
+      } as ComponentEntry); // Not an HTMLElement
       expect(registry.focus("non-focusable")).toBe(false);
     });
   });
 
   describe("highlight", () => {
     const highlightId = "highlight-comp";
-    let mockHighlightDriver: any;
+    let mockHighlightDriver: Driver;
 
     beforeEach(() => {
       jest.useFakeTimers();
       // Ensure highlightDriverInstance is set up by advancing timers from constructor
       // Re-initialize registry to get a fresh constructor run for highlightDriverInstance
-      (registry as any).highlightDriverInstance = undefined; // Clear it first
-      const tempRegistry = new (registryInstance as any).constructor(); // Triggers driver init in setTimeout
+      internals(registry).highlightDriverInstance = undefined; // Clear it first
+      const tempRegistry = createRegistry(); // Triggers driver init in setTimeout
       registry = tempRegistry; // Use this instance for the test
       jest.advanceTimersByTime(0); // Run setTimeout for highlightDriverInstance
 
-      mockHighlightDriver = (registry as any).highlightDriverInstance;
+      mockHighlightDriver = internals(registry).highlightDriverInstance!;
       if (!mockHighlightDriver) {
-          // Fallback if the above new constructor trick doesn't work as expected in all test runner contexts
-          mockHighlightDriver = getMockDriverInstance();
-          (registry as any).highlightDriverInstance = mockHighlightDriver;
+        // Fallback if the above new constructor trick doesn't work as expected in all test runner contexts
+        mockHighlightDriver = getMockDriverInstance();
+        internals(registry).highlightDriverInstance = mockHighlightDriver;
       }
-      registry.register(highlightId, document.createElement("div"), "Highlightable");
+      registry.register(
+        highlightId,
+        document.createElement("div"),
+        "Highlightable",
+      );
     });
 
     it("should call driver.highlight with correct options and destroy after duration", () => {
-      expect(registry.highlight(highlightId, 1000, "Test Title", "Test Desc")).toBe(true);
+      expect(
+        registry.highlight(highlightId, 1000, "Test Title", "Test Desc"),
+      ).toBe(true);
       expect(mockHighlightDriver.destroy).toHaveBeenCalledTimes(1); // Called to stop any previous highlight
       expect(mockHighlightDriver.highlight).toHaveBeenCalledWith({
-        element: (registry as any).components.get(highlightId).element,
+        element: internals(registry).components.get(highlightId)!.element,
         popover: { title: "Test Title", description: "Test Desc" },
       });
       // expect(setTimeout).toHaveBeenCalledWith(expect.any(Function), 1000); // setTimeout is a global timer
@@ -316,33 +2352,38 @@ describe("Registry", () => {
       expect(mockHighlightDriver.destroy).toHaveBeenCalledTimes(1);
     });
 
-
     it("should return false and log error if component not found", () => {
       expect(registry.highlight("non-id")).toBe(false);
-      expect(console.error).toHaveBeenCalledWith("Component with ID non-id not found");
+      expect(console.error).toHaveBeenCalledWith(
+        "Component with ID non-id not found",
+      );
     });
 
     it("should initialize highlightDriverInstance if not already initialized (e.g. window undefined initially)", () => {
-        (registry as any).highlightDriverInstance = undefined; // Simulate it's not there
-        // This test assumes 'window' is defined, which it is in Jest's JSDOM environment.
-        registry.highlight(highlightId);
-        expect((registry as any).highlightDriverInstance).toBeDefined();
+      internals(registry).highlightDriverInstance = undefined; // Simulate it's not there
+      // This test assumes 'window' is defined, which it is in Jest's JSDOM environment.
+      registry.highlight(highlightId);
+      expect(internals(registry).highlightDriverInstance).toBeDefined();
     });
   });
 
   describe("startTour", () => {
-    let mockTourDriver: any;
+    let mockTourDriver: Driver;
     const compId1 = "tour-comp1";
     const compId2 = "tour-comp2";
 
     beforeEach(() => {
       jest.useFakeTimers(); // driver.js might use timeouts
       registry.register(compId1, document.createElement("div"), "Tour Step 1");
-      registry.register(compId2, document.createElement("button"), "Tour Step 2");
+      registry.register(
+        compId2,
+        document.createElement("button"),
+        "Tour Step 2",
+      );
 
       // Tour driver is initialized on first call to startTour if not already
       // Ensure it's clean for this test block if other tests might have set it
-      (registry as any).tourDriverInstance = undefined;
+      internals(registry).tourDriverInstance = undefined;
     });
 
     const validSteps: TourStep[] = [
@@ -352,64 +2393,89 @@ describe("Registry", () => {
 
     it("should initialize tour driver, configure steps, and start the tour", () => {
       expect(registry.startTour(validSteps)).toBe(true);
-      
-      mockTourDriver = (registry as any).tourDriverInstance; // Get after it's initialized
+
+      mockTourDriver = internals(registry).tourDriverInstance!; // Get after it's initialized
       expect(mockTourDriver).toBeDefined();
-      expect(driver).toHaveBeenCalledWith(expect.objectContaining({
-        steps: expect.arrayContaining([
-          expect.objectContaining({
-            element: (registry as any).components.get(compId1).element,
-            popover: expect.objectContaining({ title: "Step 1", description: "Desc 1" }),
-          }),
-          expect.objectContaining({
-            element: (registry as any).components.get(compId2).element,
-            popover: expect.objectContaining({ title: "Step 2", description: "Desc 2", side: "top" }),
-          }),
-        ]),
-      }));
+      expect(driver).toHaveBeenCalledWith(
+        expect.objectContaining({
+          steps: expect.arrayContaining([
+            expect.objectContaining({
+              element: internals(registry).components.get(compId1)!.element,
+              popover: expect.objectContaining({
+                title: "Step 1",
+                description: "Desc 1",
+              }),
+            }),
+            expect.objectContaining({
+              element: internals(registry).components.get(compId2)!.element,
+              popover: expect.objectContaining({
+                title: "Step 2",
+                description: "Desc 2",
+                side: "top",
+              }),
+            }),
+          ]),
+        }),
+      );
       expect(mockTourDriver.drive).toHaveBeenCalledTimes(1);
-      expect((registry as any).activeTour).toBe(true);
+      expect(internals(registry).activeTour).toBe(true);
     });
 
     it("should destroy previous tour if one is active", () => {
       registry.startTour(validSteps); // First tour
-      const firstTourDriver = (registry as any).tourDriverInstance;
+      const firstTourDriver = internals(registry).tourDriverInstance!;
       expect(firstTourDriver.drive).toHaveBeenCalledTimes(1); // From the first tour
-      
+
       (driver as jest.Mock).mockClear(); // Clear calls to driver factory for next assertion
-      const newMockDriverInstance = { drive: jest.fn(), highlight: jest.fn(), destroy: jest.fn() };
+      const newMockDriverInstance = {
+        drive: jest.fn(),
+        highlight: jest.fn(),
+        destroy: jest.fn(),
+      };
       (driver as jest.Mock).mockImplementationOnce(() => newMockDriverInstance);
 
-
       registry.startTour([{ id: compId1, description: "New tour" }]); // Second tour
-      
+
       expect(firstTourDriver.destroy).toHaveBeenCalledTimes(1); // Previous driver destroyed
       expect(driver).toHaveBeenCalledTimes(1); // driver factory called again for the new tour
-      expect((registry as any).tourDriverInstance).toBe(newMockDriverInstance); // It's the new instance
+      expect(internals(registry).tourDriverInstance).toBe(
+        newMockDriverInstance,
+      ); // It's the new instance
       expect(newMockDriverInstance.drive).toHaveBeenCalledTimes(1); // New tour started
     });
 
     it("should not start tour and return false if no valid steps are found", () => {
-      expect(registry.startTour([{ id: "non-existent-step", title: "Invalid" }])).toBe(false);
-      expect(console.error).toHaveBeenCalledWith("No valid steps found for tour");
-      expect((registry as any).activeTour).toBe(false);
+      expect(
+        registry.startTour([{ id: "non-existent-step", title: "Invalid" }]),
+      ).toBe(false);
+      expect(console.error).toHaveBeenCalledWith(
+        "No valid steps found for tour",
+      );
+      expect(internals(registry).activeTour).toBe(false);
     });
-    
+
     it("should use component name/description if step title/description not provided", () => {
-        registry.startTour([{ id: compId1 }]);
-        mockTourDriver = (registry as any).tourDriverInstance;
-        expect(driver).toHaveBeenCalledWith(expect.objectContaining({
-            steps: [expect.objectContaining({
-                popover: expect.objectContaining({ title: "Tour Step 1", description: "" })
-            })]
-        }));
+      registry.startTour([{ id: compId1 }]);
+      mockTourDriver = internals(registry).tourDriverInstance!;
+      expect(driver).toHaveBeenCalledWith(
+        expect.objectContaining({
+          steps: [
+            expect.objectContaining({
+              popover: expect.objectContaining({
+                title: "Tour Step 1",
+                description: "",
+              }),
+            }),
+          ],
+        }),
+      );
     });
 
     it("should not start tour if autoStart is false", () => {
-        registry.startTour(validSteps, false);
-        mockTourDriver = (registry as any).tourDriverInstance;
-        expect(mockTourDriver.drive).not.toHaveBeenCalled();
-        expect((registry as any).activeTour).toBe(false);
+      registry.startTour(validSteps, false);
+      mockTourDriver = internals(registry).tourDriverInstance!;
+      expect(mockTourDriver.drive).not.toHaveBeenCalled();
+      expect(internals(registry).activeTour).toBe(false);
     });
   });
 });
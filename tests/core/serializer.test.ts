@@ -0,0 +1,160 @@
+import {
+  estimateTokens,
+  serializeComponents,
+  truncateContent,
+} from "../../src/core/serializer";
+import { ScreenComponent } from "../../src/core/types";
+
+describe("serializer", () => {
+  const list: ScreenComponent = {
+    id: "list",
+    name: "Todo List",
+    description: "All todos",
+    type: "List",
+    visible: true,
+    actions: [],
+    content: Array.from({ length: 25 }, (_, index) => `Todo ${index + 1}`),
+    childIds: [],
+  };
+  const input: ScreenComponent = {
+    id: "input",
+    name: "Todo Input",
+    visible: true,
+    actions: [
+      {
+        id: "setValue",
+        name: "Set Value",
+        parameters: [
+          { name: "value", type: "string", required: true },
+          { name: "submit", type: "boolean" },
+        ],
+      },
+    ],
+  };
+  const hidden: ScreenComponent = {
+    id: "dialog",
+    name: "Settings Dialog",
+    visible: false,
+    actions: [{ id: "close", name: "Close" }],
+  };
+  const heading: ScreenComponent = {
+    id: "heading",
+    name: "Heading",
+    visible: true,
+    actions: [],
+    content: "Todos",
+  };
+  const components = [heading, list, input, hidden];
+
+  describe("truncateContent", () => {
+    it("should shorten arrays and strings recursively", () => {
+      expect(
+        truncateContent({ items: ["a", "b", "c"], note: "abcdef" }, 2, 3),
+      ).toEqual({
+        value: {
+          items: ["a", "b", "… 1 more items"],
+          note: "abc… (3 more characters)",
+        },
+        truncated: true,
+      });
+      expect(truncateContent([1, { done: true }], 10, 10)).toEqual({
+        value: [1, { done: true }],
+        truncated: false,
+      });
+    });
+  });
+
+  it("should render compact text", () => {
+    const { text, includedIds, omitted, truncated } = serializeComponents(
+      components,
+      { maxItems: 2 },
+    );
+
+    expect(text).toBe(
+      [
+        "Heading [heading]",
+        "  Content: Todos",
+        "Todo List [list] (List) - All todos",
+        "  Content:",
+        "  - Todo 1",
+        "  - Todo 2",
+        "  - … 23 more items",
+        "Todo Input [input]",
+        "  Actions: setValue(value: string, submit?: boolean)",
+        "Settings Dialog [dialog] (hidden)",
+        "  Actions: close()",
+      ].join("\n"),
+    );
+    expect(includedIds).toEqual(["heading", "list", "input", "dialog"]);
+    expect(omitted).toBe(0);
+    expect(truncated).toBe(true);
+  });
+
+  it("should render Markdown", () => {
+    const { text } = serializeComponents([list, input], {
+      format: "markdown",
+      maxItems: 1,
+    });
+    expect(text).toBe(
+      [
+        "### Todo List (`list`)",
+        "All todos",
+        "- Type: List",
+        "- Content:",
+        "  - Todo 1",
+        "  - … 24 more items",
+        "",
+        "### Todo Input (`input`)",
+        "- Actions: `setValue(value: string, submit?: boolean)`",
+      ].join("\n"),
+    );
+  });
+
+  it("should render compact JSON", () => {
+    const { text, truncated } = serializeComponents([heading, input], {
+      format: "json",
+    });
+    expect(JSON.parse(text)).toEqual([heading, input]);
+    expect(text).not.toContain("\n");
+    expect(truncated).toBe(false);
+  });
+
+  it("should keep visible and actionable components within the budget", () => {
+    const full = serializeComponents(components).text;
+    const { text, includedIds, omitted } = serializeComponents(components, {
+      maxChars: 200,
+    });
+
+    expect(full.length).toBeGreaterThan(200);
+    expect(text.length).toBeLessThanOrEqual(200);
+    expect(includedIds[0]).toBe("heading");
+    expect(includedIds).toContain("input");
+    expect(includedIds).not.toContain("dialog");
+    expect(text.endsWith(`… ${omitted} more components`)).toBe(true);
+  });
+
+  it("should shrink content before leaving components out", () => {
+    const { text, includedIds } = serializeComponents([list], {
+      maxChars: 120,
+    });
+    expect(includedIds).toEqual(["list"]);
+    expect(text).toContain("  - … 22 more items");
+    expect(text.length).toBeLessThanOrEqual(120);
+  });
+
+  it("should accept a token budget and stay valid JSON when truncated", () => {
+    const { text, omitted } = serializeComponents(components, {
+      format: "json",
+      maxTokens: 40,
+    });
+    expect(estimateTokens(text)).toBeLessThanOrEqual(40);
+    const parsed = JSON.parse(text);
+    expect(parsed[parsed.length - 1]).toBe(`… ${omitted} more components`);
+  });
+
+  it("should omit hidden components when requested", () => {
+    expect(
+      serializeComponents(components, { onlyVisible: true }).includedIds,
+    ).toEqual(["heading", "list", "input"]);
+  });
+});
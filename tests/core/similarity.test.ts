@@ -0,0 +1,71 @@
+import {
+  rankBySimilarity,
+  tokenize,
+  tokenSimilarity,
+  trigramSimilarity,
+} from "../../src/core/similarity";
+
+describe("similarity", () => {
+  describe("tokenize", () => {
+    it("should lower-case words and drop punctuation and stop words", () => {
+      expect(tokenize("Todo Item: Learn about the HLAS library!")).toEqual([
+        "todo",
+        "item",
+        "learn",
+        "about",
+        "hlas",
+        "library",
+      ]);
+    });
+  });
+
+  describe("tokenSimilarity", () => {
+    it("should score equal tokens, prefixes and typos", () => {
+      expect(tokenSimilarity("hlas", "hlas")).toBe(1);
+      expect(tokenSimilarity("learn", "learning")).toBe(0.9);
+      expect(tokenSimilarity("groceries", "grocereis")).toBeGreaterThan(0.4);
+      expect(tokenSimilarity("milk", "demo")).toBe(0);
+    });
+  });
+
+  describe("trigramSimilarity", () => {
+    it("should be 1 for equal texts and 0 for texts without shared trigrams", () => {
+      expect(trigramSimilarity("build a demo", "build a demo")).toBe(1);
+      expect(trigramSimilarity("abc", "xyz")).toBe(0);
+    });
+  });
+
+  describe("rankBySimilarity", () => {
+    const items = [
+      "Todo Item: Learn about hlas",
+      "Todo Item: Build a demo",
+      "Add Todo Button",
+      "Todo List",
+    ];
+    const rank = (query: string) =>
+      rankBySimilarity(query, items, (item) => [{ text: item, weight: 1 }]);
+
+    it("should rank the closest document first", () => {
+      const matches = rank("mark learn hlas done");
+      expect(matches[0].item).toBe("Todo Item: Learn about hlas");
+      expect(matches).toHaveLength(1);
+    });
+
+    it("should weight distinctive words over common ones", () => {
+      const matches = rank("todo demo");
+      expect(matches[0].item).toBe("Todo Item: Build a demo");
+      expect(matches[0].score).toBeGreaterThan(matches[1].score);
+    });
+
+    it("should return nothing for queries without meaningful words", () => {
+      expect(rank("the of")).toEqual([]);
+    });
+
+    it("should apply field weights", () => {
+      const [match] = rankBySimilarity("demo", ["x"], () => [
+        { text: "Demo", weight: 0.5 },
+      ]);
+      expect(match.score).toBeLessThanOrEqual(0.5);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  buildToolDefinitions,
+  findAmbiguousToolNames,
+  formatToolDefinition,
+  parseToolCall,
+  toParametersSchema,
+} from "../../src/core/tools";
+import { ComponentEntry } from "../../src/core/types";
+
+const component = (
+  id: string,
+  name: string,
+  overrides: Partial<ComponentEntry> = {},
+): ComponentEntry => ({
+  id,
+  name,
+  element: document.createElement("div"),
+  actions: [{ id: "click", name: "Click" }],
+  ...overrides,
+});
+
+describe("tools", () => {
+  describe("toParametersSchema", () => {
+    it("should convert declared parameters to a JSON Schema object", () => {
+      expect(
+        toParametersSchema([
+          {
+            name: "value",
+            type: "string",
+            required: true,
+            description: "The new value",
+          },
+          { name: "count", type: "number", defaultValue: 1 },
+          { name: "label" },
+        ]),
+      ).toEqual({
+        type: "object",
+        properties: {
+          value: { type: "string", description: "The new value" },
+          count: { type: "number", default: 1 },
+          label: { type: "string" },
+        },
+        required: ["value"],
+        additionalProperties: false,
+      });
+    });
+
+    it("should accept any object for actions without declared parameters", () => {
+      expect(toParametersSchema()).toEqual({ type: "object", properties: {} });
+    });
+  });
+
+  describe("buildToolDefinitions", () => {
+    it("should name tools after the stable ID of the component and the action", () => {
+      const tools = buildToolDefinitions(
+        [
+          component(":r1:", "Todo Item: Learn about hlas", {
+            description: "An incomplete todo",
+          }),
+          component(":r2:", "Todo Item: Learn about hlas"),
+          component("c", "Add Todo Button", {
+            actions: [
+              {
+                id: "addTodo",
+                name: "Add Todo",
+                description: "Adds the typed todo",
+              },
+            ],
+          }),
+        ],
+        new Map([
+          [":r1:", "todo-list/todo-item-learn-about-hlas"],
+          [":r2:", "todo-list/todo-item-learn-about-hlas#2"],
+        ]),
+      );
+
+      expect(
+        tools.map((tool) => [tool.name, tool.componentId, tool.actionId]),
+      ).toEqual([
+        ["todo-list_todo-item-learn-about-hlas__click", ":r1:", "click"],
+        ["todo-list_todo-item-learn-about-hlas_2__click", ":r2:", "click"],
+        ["c__addTodo", "c", "addTodo"],
+      ]);
+      expect(tools[0].description).toBe(
+        'Click. Acts on "Todo Item: Learn about hlas" (An incomplete todo).',
+      );
+      expect(tools[2].description).toBe(
+        'Add Todo: Adds the typed todo. Acts on "Add Todo Button".',
+      );
+    });
+
+    it("should report names shared by several components", () => {
+      const tools = buildToolDefinitions([
+        component("a/b", "A"),
+        component("a_b", "B"),
+        component("c", "C"),
+      ]);
+      expect(Array.from(findAmbiguousToolNames(tools).keys())).toEqual([
+        "a_b__click",
+      ]);
+    });
+
+    it("should mention that destructive actions need confirmation", () => {
+      const [tool] = buildToolDefinitions([
+        component("clear", "Clear Button", {
+          actions: [{ id: "clear", name: "Clear", risk: "destructive" }],
+        }),
+      ]);
+      expect(tool.description).toBe(
+        'Clear. Acts on "Clear Button". Requires confirmation by the user.',
+      );
+    });
+
+    it("should keep names within 64 allowed characters", () => {
+      const path = "todo-app/todo-list/".repeat(4);
+      const tools = buildToolDefinitions([
+        component(`${path}first`, "First"),
+        component(`${path}second`, "Second"),
+      ]);
+      for (const tool of tools) {
+        expect(tool.name).toMatch(/^[a-zA-Z0-9_-]{1,64}$/);
+      }
+      expect(tools[0].name.endsWith("_first__click")).toBe(true);
+      expect(tools[1].name.endsWith("_second__click")).toBe(true);
+    });
+  });
+
+  describe("formatToolDefinition", () => {
+    const [tool] = buildToolDefinitions([component("button", "Button")]);
+
+    it("should produce OpenAI and Anthropic formats", () => {
+      expect(formatToolDefinition(tool, "openai")).toEqual({
+        type: "function",
+        function: {
+          name: "button__click",
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      });
+      expect(formatToolDefinition(tool, "anthropic")).toEqual({
+        name: "button__click",
+        description: tool.description,
+        input_schema: tool.parameters,
+      });
+      expect(formatToolDefinition(tool, "generic")).toBe(tool);
+    });
+  });
+
+  describe("parseToolCall", () => {
+    it("should read generic, OpenAI and Anthropic tool calls", () => {
+      expect(parseToolCall({ name: "a", arguments: { value: 1 } })).toEqual({
+        name: "a",
+        params: { value: 1 },
+      });
+      expect(
+        parseToolCall({
+          id: "call_1",
+          type: "function",
+          function: { name: "b", arguments: '{"value":"x"}' },
+        }),
+      ).toEqual({ name: "b", params: { value: "x" } });
+      expect(
+        parseToolCall({
+          id: "toolu_1",
+          type: "tool_use",
+          name: "c",
+          input: {},
+        }),
+      ).toEqual({ name: "c", params: {} });
+      expect(parseToolCall({ function: { name: "d", arguments: "" } })).toEqual(
+        { name: "d", params: {} },
+      );
+    });
+
+    it("should reject arguments that are not a JSON object", () => {
+      expect(parseToolCall({ name: "a", arguments: "{oops" }).error).toMatch(
+        /^Invalid arguments for tool a: /,
+      );
+      expect(parseToolCall({ name: "a", arguments: "[1]" }).error).toBe(
+        "Invalid arguments for tool a: expected a JSON object",
+      );
+    });
+  });
+});
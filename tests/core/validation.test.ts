@@ -0,0 +1,56 @@
+import { validateParameters } from "../../src/core/validation";
+import { ActionParameter } from "../../src/core/types";
+
+describe("validateParameters", () => {
+  const parameters: ActionParameter[] = [
+    { name: "text", type: "string", required: true },
+    { name: "count", type: "number", defaultValue: 1 },
+    { name: "urgent", type: "boolean" },
+    { name: "meta", type: "object" },
+  ];
+
+  it("should accept valid parameters and fill in defaults", () => {
+    const result = validateParameters(parameters, { text: "Buy milk" });
+    expect(result).toEqual({
+      valid: true,
+      params: { text: "Buy milk", count: 1 },
+      errors: [],
+    });
+  });
+
+  it("should coerce simple types", () => {
+    const result = validateParameters(parameters, {
+      text: 42,
+      count: "5",
+      urgent: "TRUE",
+      meta: '{"tag":"home"}',
+    });
+    expect(result.valid).toBe(true);
+    expect(result.params).toEqual({
+      text: "42",
+      count: 5,
+      urgent: true,
+      meta: { tag: "home" },
+    });
+  });
+
+  it("should list every offending parameter", () => {
+    const result = validateParameters(parameters, {
+      value: "Buy milk",
+      count: "many",
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'unknown parameter "value" (expected one of: text, count, urgent, meta)',
+      'missing required parameter "text"',
+      'parameter "count" must be of type number (received "many")',
+    ]);
+  });
+
+  it("should reject parameters for actions that declare none", () => {
+    const result = validateParameters([], { value: "x" });
+    expect(result.errors).toEqual([
+      'unknown parameter "value" (the action takes no parameters)',
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  findOpenModals,
+  isElementVisible,
+  isHiddenByStyle,
+  isOccludedByModal,
+  isRectInViewport,
+  VisibilityTracker,
+} from "../../src/core/visibility";
+
+// jsdom does not perform layout, so bounding boxes are stubbed per element.
+const setRect = (element: HTMLElement, rect: Partial<DOMRect>) => {
+  const fullRect = {
+    x: 0,
+    y: 0,
+    top: 0,
+    left: 0,
+    width: 100,
+    height: 20,
+    ...rect,
+  };
+  jest.spyOn(element, "getBoundingClientRect").mockReturnValue({
+    ...fullRect,
+    bottom: fullRect.top + fullRect.height,
+    right: fullRect.left + fullRect.width,
+    toJSON: () => fullRect,
+  } as DOMRect);
+};
+
+describe("visibility", () => {
+  let root: HTMLElement;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    root = document.createElement("div");
+    element = document.createElement("button");
+    root.appendChild(element);
+    document.body.appendChild(root);
+    setRect(element, {});
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+    jest.restoreAllMocks();
+  });
+
+  describe("isHiddenByStyle", () => {
+    it("should detect hidden and aria-hidden ancestors", () => {
+      expect(isHiddenByStyle(element)).toBe(false);
+      root.hidden = true;
+      expect(isHiddenByStyle(element)).toBe(true);
+      root.hidden = false;
+      root.setAttribute("aria-hidden", "true");
+      expect(isHiddenByStyle(element)).toBe(true);
+    });
+
+    it("should detect display:none ancestors and inherited visibility:hidden", () => {
+      root.style.display = "none";
+      expect(isHiddenByStyle(element)).toBe(true);
+      root.style.display = "";
+      root.style.visibility = "hidden";
+      expect(isHiddenByStyle(element)).toBe(true);
+    });
+  });
+
+  describe("isRectInViewport", () => {
+    it("should check overlap with the window", () => {
+      expect(
+        isRectInViewport({
+          top: 10,
+          left: 10,
+          bottom: 30,
+          right: 110,
+        } as DOMRect),
+      ).toBe(true);
+      expect(
+        isRectInViewport({
+          top: window.innerHeight + 10,
+          left: 0,
+          bottom: window.innerHeight + 30,
+          right: 100,
+        } as DOMRect),
+      ).toBe(false);
+    });
+  });
+
+  describe("isOccludedByModal", () => {
+    it("should treat elements outside the top open modal as occluded", () => {
+      const dialog = document.createElement("div");
+      dialog.setAttribute("aria-modal", "true");
+      const dialogButton = document.createElement("button");
+      dialog.appendChild(dialogButton);
+      document.body.appendChild(dialog);
+
+      expect(isOccludedByModal(element)).toBe(true);
+      expect(isOccludedByModal(dialogButton)).toBe(false);
+
+      dialog.hidden = true;
+      expect(isOccludedByModal(element)).toBe(false);
+    });
+
+    it("should not treat dialogs opened without showModal() as modal", () => {
+      const dialog = document.createElement("dialog");
+      dialog.setAttribute("open", "");
+      document.body.appendChild(dialog);
+
+      expect(findOpenModals()).toEqual([]);
+      expect(isOccludedByModal(element)).toBe(false);
+    });
+
+    it("should use the modals it is given instead of querying them", () => {
+      const dialog = document.createElement("div");
+      document.body.appendChild(dialog);
+      const querySpy = jest.spyOn(document, "querySelectorAll");
+
+      expect(isOccludedByModal(element, [dialog])).toBe(true);
+      expect(isOccludedByModal(element, [])).toBe(false);
+      expect(querySpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("isElementVisible", () => {
+    it("should be true for an attached, sized element in the viewport", () => {
+      expect(isElementVisible(element)).toBe(true);
+    });
+
+    it("should be false for detached or zero-size elements", () => {
+      expect(isElementVisible(document.createElement("div"))).toBe(false);
+      setRect(element, { width: 0, height: 0 });
+      expect(isElementVisible(element)).toBe(false);
+    });
+
+    it("should prefer the observed intersection over the bounding box", () => {
+      expect(isElementVisible(element, false)).toBe(false);
+      setRect(element, { top: -500 });
+      expect(isElementVisible(element)).toBe(false);
+      expect(isElementVisible(element, true)).toBe(true);
+    });
+
+    it("should not read the layout when the intersection is known", () => {
+      const rectSpy = element.getBoundingClientRect as jest.Mock;
+      rectSpy.mockClear();
+
+      expect(isElementVisible(element, true, [])).toBe(true);
+      root.setAttribute("aria-hidden", "true");
+      expect(isElementVisible(element, true, [])).toBe(false);
+      root.removeAttribute("aria-hidden");
+      element.style.visibility = "hidden";
+      expect(isElementVisible(element, true, [])).toBe(false);
+      expect(rectSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("VisibilityTracker", () => {
+    const originalIntersectionObserver = window.IntersectionObserver;
+    let observerCallback: IntersectionObserverCallback;
+    const observe = jest.fn();
+    const unobserve = jest.fn();
+    const setIntersectionObserver = (observer: unknown) => {
+      (window as { IntersectionObserver?: unknown }).IntersectionObserver =
+        observer;
+    };
+
+    beforeEach(() => {
+      setIntersectionObserver(
+        jest.fn((callback: IntersectionObserverCallback) => {
+          observerCallback = callback;
+          return { observe, unobserve, disconnect: jest.fn() };
+        }),
+      );
+    });
+
+    afterEach(() => {
+      setIntersectionObserver(originalIntersectionObserver);
+      observe.mockClear();
+      unobserve.mockClear();
+    });
+
+    it("should record intersections reported by the observer", () => {
+      const tracker = new VisibilityTracker();
+      tracker.observe(element);
+      expect(observe).toHaveBeenCalledWith(element);
+      expect(tracker.isIntersecting(element)).toBeUndefined();
+
+      observerCallback(
+        [
+          {
+            target: element,
+            isIntersecting: true,
+            boundingClientRect: { width: 100, height: 20 },
+          } as unknown as IntersectionObserverEntry,
+        ],
+        {} as IntersectionObserver,
+      );
+      expect(tracker.isIntersecting(element)).toBe(true);
+
+      // Elements without a size intersect the viewport at its edges but cannot be seen
+      observerCallback(
+        [
+          {
+            target: element,
+            isIntersecting: true,
+            boundingClientRect: { width: 0, height: 0 },
+          } as unknown as IntersectionObserverEntry,
+        ],
+        {} as IntersectionObserver,
+      );
+      expect(tracker.isIntersecting(element)).toBe(false);
+
+      tracker.unobserve(element);
+      expect(unobserve).toHaveBeenCalledWith(element);
+      expect(tracker.isIntersecting(element)).toBeUndefined();
+    });
+
+    it("should report nothing when IntersectionObserver is unavailable", () => {
+      setIntersectionObserver(undefined);
+      const tracker = new VisibilityTracker();
+      tracker.observe(element);
+      expect(tracker.isIntersecting(element)).toBeUndefined();
+    });
+  });
+});
@@ -1,5 +1,5 @@
-import React, { useEffect, useRef } from "react";
-import { render, act, cleanup, fireEvent, renderHook } from "@testing-library/react";
+import React, { useEffect } from "react";
+import { render, screen, act, cleanup, fireEvent, renderHook } from "@testing-library/react";
 import "@testing-library/jest-dom";
 // renderHook is now part of @testing-library/react
 
@@ -19,9 +19,7 @@ let consoleErrorSpy: jest.SpyInstance;
 describe("useHlasActions Hook", () => {
   const mockActions: ActionMap = {
     action1: jest.fn(),
-    action2: jest.fn((params) => {
-      // For testing params
-    }),
+    action2: jest.fn(),
   };
   const mockName = "TestComponent";
   const mockDescription = "A component for testing useHlasActions";
@@ -99,6 +97,41 @@ describe("useHlasActions Hook", () => {
     expect(registerCallArgs[4]).toBe(mockDescription); // Description
   });
 
+  it("should register rich action definitions with their metadata", () => {
+    const setValue = jest.fn();
+    const richActions: ActionMap = {
+      click: jest.fn(),
+      setValue: {
+        name: "Set Value",
+        description: "Replaces the text of the input",
+        parameters: [{ name: "value", type: "string", required: true }],
+        handler: setValue,
+      },
+    };
+    render(<TestComponent actions={richActions} name={mockName} />);
+
+    const registerCallArgs = (registryInstance.register as jest.Mock).mock.calls[0];
+    expect(registerCallArgs[3]).toEqual([
+      { id: "click", name: "click" },
+      {
+        id: "setValue",
+        name: "Set Value",
+        description: "Replaces the text of the input",
+        parameters: [{ name: "value", type: "string", required: true }],
+      },
+    ]);
+
+    act(() => {
+      fireEvent(
+        screen.getByTestId("test-div"),
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "setValue", params: { value: "Milk" } },
+        }),
+      );
+    });
+    expect(setValue).toHaveBeenCalledWith({ value: "Milk" });
+  });
+
   it("should unregister the component from the registry on unmount", () => {
     const { unmount } = render(
       <TestComponent
@@ -112,7 +145,7 @@ describe("useHlasActions Hook", () => {
     unmount();
 
     expect(registryInstance.unregister).toHaveBeenCalledTimes(1);
-    expect(registryInstance.unregister).toHaveBeenCalledWith(registeredId);
+    expect(registryInstance.unregister).toHaveBeenCalledWith(registeredId, expect.any(HTMLDivElement));
   });
 
   it("should handle 'hlas:execute' events and call the correct action", () => {
@@ -175,6 +208,121 @@ describe("useHlasActions Hook", () => {
     );
   });
   
+  it("should report action results and failures through the respond callback", async () => {
+    const asyncActions: ActionMap = {
+      succeed: jest.fn(async (params) => `done: ${params?.value}`),
+      fail: jest.fn(() => {
+        throw new Error("Nothing to do");
+      }),
+    };
+    render(<TestComponent actions={asyncActions} name={mockName} />);
+    const divElement = screen.getByTestId("test-div");
+    const respond = jest.fn();
+
+    act(() => {
+      fireEvent(
+        divElement,
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "succeed", params: { value: 1 }, respond },
+        }),
+      );
+      fireEvent(
+        divElement,
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "fail", params: {}, respond },
+        }),
+      );
+      fireEvent(
+        divElement,
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "unknownAction", params: {}, respond },
+        }),
+      );
+    });
+
+    expect(respond).toHaveBeenCalledTimes(3);
+    await expect(respond.mock.calls[0][0]).resolves.toBe("done: 1");
+    await expect(respond.mock.calls[1][0]).rejects.toThrow("Nothing to do");
+    await expect(respond.mock.calls[2][0]).rejects.toThrow(
+      "Action unknownAction not found",
+    );
+  });
+
+  it("should log the failure of async actions nobody awaits", async () => {
+    const failure = new Error("Offline");
+    const asyncActions: ActionMap = {
+      save: jest.fn(async () => {
+        throw failure;
+      }),
+    };
+    render(<TestComponent actions={asyncActions} name={mockName} />);
+    const divElement = screen.getByTestId("test-div");
+    const registeredId = (registryInstance.register as jest.Mock).mock
+      .results[0].value;
+
+    act(() => {
+      fireEvent(
+        divElement,
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "save", params: {} },
+        }),
+      );
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      `Action save on component ${registeredId} failed:`,
+      failure,
+    );
+  });
+
+  it("should register the inverse of actions that define undo once they succeed", async () => {
+    let value = "old";
+    const undoableActions: ActionMap = {
+      setValue: {
+        handler: (params) => {
+          value = params?.value as string;
+        },
+        undo: () => {
+          const previous = value;
+          return () => {
+            value = previous;
+          };
+        },
+      },
+      save: {
+        handler: async () => {
+          throw new Error("Offline");
+        },
+        undo: () => () => {},
+      },
+    };
+    render(<TestComponent actions={undoableActions} name={mockName} />);
+    const divElement = screen.getByTestId("test-div");
+    const registerUndo = jest.fn();
+
+    act(() => {
+      fireEvent(
+        divElement,
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "setValue", params: { value: "new" }, registerUndo },
+        }),
+      );
+      fireEvent(
+        divElement,
+        new CustomEvent("hlas:execute", {
+          detail: { actionId: "save", params: {}, registerUndo },
+        }),
+      );
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(value).toBe("new");
+    expect(registerUndo).toHaveBeenCalledTimes(1);
+    registerUndo.mock.calls[0][0]();
+    expect(value).toBe("old");
+  });
+
   it("should use updated actions if the actions prop changes", () => {
     const initialActions: ActionMap = {
       initialAction: jest.fn(),
@@ -239,4 +387,38 @@ describe("useHlasActions Hook", () => {
     expect(registerCallArgs[4]).toBeUndefined(); // Description
   });
 
+  it("should mark generated IDs and register under an explicit id when given", () => {
+    const Explicit: React.FC = () => {
+      const ref = useHlasActions(mockActions, mockName, undefined, { id: "todo-input" });
+      return <div ref={ref} />;
+    };
+    render(<TestComponent actions={mockActions} name={mockName} />);
+    const { unmount } = render(<Explicit />);
+
+    const [generated, explicit] = (registryInstance.register as jest.Mock).mock.calls;
+    expect(generated[5]).toEqual({ generatedId: true });
+    expect(explicit[0]).toBe("todo-input");
+    expect(explicit[5]).toEqual({ generatedId: false });
+
+    unmount();
+    expect(registryInstance.unregister).toHaveBeenCalledWith("todo-input", expect.any(HTMLDivElement));
+  });
+
+  it("should register the component and its actions with their scopes", () => {
+    const Scoped: React.FC = () => {
+      const ref = useHlasActions(
+        { purge: { handler: jest.fn(), scope: "admin" } },
+        "Admin Panel",
+        undefined,
+        { scope: "admin" },
+      );
+      return <div ref={ref} />;
+    };
+    render(<Scoped />);
+
+    const [call] = (registryInstance.register as jest.Mock).mock.calls;
+    expect(call[3]).toEqual([{ id: "purge", name: "purge", scope: "admin" }]);
+    expect(call[5]).toEqual({ generatedId: true, scope: "admin" });
+  });
+
 });